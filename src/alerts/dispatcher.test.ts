@@ -0,0 +1,108 @@
+import { EventEmitter } from 'events';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Opportunity } from '../tools/scan-opportunities';
+import type { OpportunityEvent, OpportunityWatcher } from '../watch/opportunity-watcher';
+import { getMarketPairRegistry } from '../registry/market-pairs';
+import { AlertDispatcher } from './dispatcher';
+import type { Alert } from './payload';
+import type { AlertSink } from './sinks';
+
+const opportunity = {
+  market_id: 'TEST-MKT',
+  buy_venue: 'KALSHI',
+  sell_venue: 'POLYMARKET',
+  gross_spread_pct: 3,
+  net_profit_usd: 12,
+  best_strategy: 'buy_low_sell_high',
+  best_net_profit_usd: 12,
+  annualized_return_pct: null,
+  score: 70,
+  strategy: { best: { can_fill: false, net_profit_usd: 0, yes_venue: 'KALSHI', no_venue: 'POLYMARKET' } },
+} as unknown as Opportunity;
+
+function opened(): OpportunityEvent {
+  return {
+    type: 'opened',
+    market_id: opportunity.market_id,
+    timestamp: '2025-01-06T12:00:00.000Z',
+    opportunity,
+    net_profit_usd: opportunity.net_profit_usd,
+  };
+}
+
+class MemorySink implements AlertSink {
+  name = 'memory';
+  alerts: Alert[] = [];
+  async send(alert: Alert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+// Let the listener's promise chain settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('AlertDispatcher.attachWatcher', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('forwards watcher events to sinks', async () => {
+    const sink = new MemorySink();
+    const watcher = new EventEmitter() as unknown as OpportunityWatcher;
+    new AlertDispatcher().addSink(sink).attachWatcher(watcher);
+
+    watcher.emit('opportunity', opened());
+    await flush();
+
+    expect(sink.alerts).toHaveLength(1);
+    expect(sink.alerts[0]!.market_id).toBe('TEST-MKT');
+  });
+
+  it('routes a throwing registry lookup to on_error instead of an unhandled rejection', async () => {
+    vi.spyOn(getMarketPairRegistry(), 'get').mockImplementation(() => {
+      throw new Error('registry file is corrupt');
+    });
+    const unhandled = vi.fn();
+    process.on('unhandledRejection', unhandled);
+
+    const errors: Error[] = [];
+    const watcher = new EventEmitter() as unknown as OpportunityWatcher;
+    new AlertDispatcher({ on_error: e => errors.push(e) }).addSink(new MemorySink()).attachWatcher(watcher);
+
+    watcher.emit('opportunity', opened());
+    await flush();
+    process.off('unhandledRejection', unhandled);
+
+    expect(unhandled).not.toHaveBeenCalled();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.message).toContain('TEST-MKT');
+    expect(errors[0]!.message).toContain('registry file is corrupt');
+  });
+
+  it('reports sinks that fail every retry', async () => {
+    const failing: AlertSink = { name: 'down', send: async () => { throw new Error('503'); } };
+    const errors: Error[] = [];
+    const watcher = new EventEmitter() as unknown as OpportunityWatcher;
+    new AlertDispatcher({ on_error: e => errors.push(e) })
+      .addSink(failing, { retry: { attempts: 2, base_delay_ms: 0 } })
+      .attachWatcher(watcher);
+
+    watcher.emit('opportunity', opened());
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.message).toMatch(/failed on down after 2 attempt\(s\): 503/);
+  });
+
+  it('stops forwarding after unsubscribe', async () => {
+    const sink = new MemorySink();
+    const watcher = new EventEmitter() as unknown as OpportunityWatcher;
+    const unsubscribe = new AlertDispatcher().addSink(sink).attachWatcher(watcher);
+
+    unsubscribe();
+    watcher.emit('opportunity', opened());
+    await flush();
+
+    expect(sink.alerts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Alert Dispatcher
+ * 
+ * Fans alerts out to registered sinks. Each sink has its own filter,
+ * rate limit and retry policy, and one failing sink never blocks the
+ * others. Failures with no caller to return them to (alerts forwarded
+ * from an attached watcher) go to the `on_error` handler.
+ */
+
+import type { LiquidityIndicator, LiquidityRegime, MarketCategory } from '../types';
+import type { Opportunity } from '../tools/scan-opportunities';
+import type { OpportunityEvent, OpportunityEventType, OpportunityWatcher } from '../watch/opportunity-watcher';
+import { getMarketPairRegistry } from '../registry/market-pairs';
+import { opportunityAlert, regimeAlert, type Alert } from './payload';
+import type { AlertSink } from './sinks';
+
+/**
+ * Per-sink filter. Numeric thresholds only apply to alerts that carry
+ * the field (score / net profit on opportunities, regime on regime
+ * alerts); alerts without a category fail a category filter.
+ */
+export interface AlertFilter {
+  kinds?: Alert['kind'][];
+  min_score?: number;
+  min_net_profit_usd?: number;
+  categories?: MarketCategory[];
+  regimes?: LiquidityRegime[];
+}
+
+export interface RateLimit {
+  max_alerts: number;
+  per_ms: number;
+}
+
+export interface RetryPolicy {
+  attempts: number;                    // Total attempts, including the first
+  base_delay_ms: number;               // Doubled after each failure
+}
+
+export interface SinkOptions {
+  filter?: AlertFilter;
+  rate_limit?: RateLimit;
+  retry?: RetryPolicy;
+}
+
+export interface AlertDispatcherOptions {
+  on_error?: (error: Error) => void;   // Default: console.warn
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  base_delay_ms: 500,
+};
+
+export type DispatchStatus = 'sent' | 'filtered' | 'rate_limited' | 'failed';
+
+export interface DispatchResult {
+  sink: string;
+  status: DispatchStatus;
+  attempts: number;
+  error?: string;
+}
+
+interface RegisteredSink {
+  sink: AlertSink;
+  filter?: AlertFilter;
+  rate_limit?: RateLimit;
+  retry: RetryPolicy;
+  sent_at: number[];                   // Send times inside the current rate-limit window
+}
+
+/**
+ * True if the alert passes the filter
+ */
+export function matchesFilter(alert: Alert, filter: AlertFilter | undefined): boolean {
+  if (!filter) return true;
+  if (filter.kinds && !filter.kinds.includes(alert.kind)) return false;
+  if (filter.categories && (!alert.category || !filter.categories.includes(alert.category))) return false;
+  
+  if (alert.kind === 'opportunity') {
+    if (filter.min_score !== undefined && alert.score < filter.min_score) return false;
+    if (filter.min_net_profit_usd !== undefined && alert.net_profit_usd < filter.min_net_profit_usd) return false;
+  } else if (filter.regimes && !filter.regimes.includes(alert.regime)) {
+    return false;
+  }
+  
+  return true;
+}
+
+export class AlertDispatcher {
+  private sinks: RegisteredSink[] = [];
+  private lastRegimes = new Map<string, LiquidityRegime>();
+  private onError: (error: Error) => void;
+  
+  constructor(options: AlertDispatcherOptions = {}) {
+    this.onError = options.on_error ?? (error => console.warn(`[alerts] ${error.message}`));
+  }
+  
+  /**
+   * Register a sink with optional filter, rate limit and retry policy
+   */
+  addSink(sink: AlertSink, options: SinkOptions = {}): this {
+    this.sinks.push({
+      sink,
+      filter: options.filter,
+      rate_limit: options.rate_limit,
+      retry: options.retry ?? DEFAULT_RETRY_POLICY,
+      sent_at: [],
+    });
+    return this;
+  }
+  
+  removeSink(name: string): boolean {
+    const before = this.sinks.length;
+    this.sinks = this.sinks.filter(s => s.sink.name !== name);
+    return this.sinks.length < before;
+  }
+  
+  /**
+   * Send an alert to every matching sink (in parallel)
+   */
+  async dispatch(alert: Alert): Promise<DispatchResult[]> {
+    return Promise.all(this.sinks.map(s => this.deliver(s, alert)));
+  }
+  
+  /**
+   * Alert on an opportunity, tagged with its registry category
+   */
+  async notifyOpportunity(
+    opportunity: Opportunity,
+    event?: OpportunityEventType
+  ): Promise<DispatchResult[]> {
+    const category = getMarketPairRegistry().get(opportunity.market_id)?.category;
+    return this.dispatch(opportunityAlert(opportunity, { event, category }));
+  }
+  
+  /**
+   * Alert on a regime reading - only when the market's regime changed
+   * since the last reading seen here (first reading always counts)
+   */
+  async notifyRegime(indicator: LiquidityIndicator, category?: MarketCategory): Promise<DispatchResult[]> {
+    const previous = this.lastRegimes.get(indicator.market_id);
+    this.lastRegimes.set(indicator.market_id, indicator.regime);
+    if (previous === indicator.regime) return [];
+    
+    const resolvedCategory = category ?? getMarketPairRegistry().get(indicator.market_id)?.category;
+    return this.dispatch(regimeAlert(indicator, { previous_regime: previous, category: resolvedCategory }));
+  }
+  
+  /**
+   * Forward a watcher's opportunity events. Returns an unsubscribe function.
+   * Rejections and failed deliveries are reported to `on_error`.
+   */
+  attachWatcher(watcher: OpportunityWatcher): () => void {
+    const listener = (event: OpportunityEvent) => {
+      const label = `${event.type} alert for ${event.opportunity.market_id}`;
+      this.notifyOpportunity(event.opportunity, event.type)
+        .then(results => {
+          for (const r of results.filter(r => r.status === 'failed')) {
+            this.reportError(new Error(`${label} failed on ${r.sink} after ${r.attempts} attempt(s): ${r.error}`));
+          }
+        })
+        .catch(e => {
+          this.reportError(new Error(`${label} not dispatched: ${e instanceof Error ? e.message : String(e)}`));
+        });
+    };
+    watcher.on('opportunity', listener);
+    return () => {
+      watcher.off('opportunity', listener);
+    };
+  }
+  
+  // ═══════════════════════════════════════════════════════════════
+  // DELIVERY
+  // ═══════════════════════════════════════════════════════════════
+  
+  // A throwing handler must not turn back into an unhandled rejection
+  private reportError(error: Error): void {
+    try {
+      this.onError(error);
+    } catch {
+      // ignore
+    }
+  }
+  
+  private async deliver(s: RegisteredSink, alert: Alert): Promise<DispatchResult> {
+    const name = s.sink.name;
+    if (!matchesFilter(alert, s.filter)) {
+      return { sink: name, status: 'filtered', attempts: 0 };
+    }
+    
+    if (s.rate_limit) {
+      const now = Date.now();
+      s.sent_at = s.sent_at.filter(t => t > now - s.rate_limit!.per_ms);
+      if (s.sent_at.length >= s.rate_limit.max_alerts) {
+        return { sink: name, status: 'rate_limited', attempts: 0 };
+      }
+      s.sent_at.push(now);
+    }
+    
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= s.retry.attempts; attempt++) {
+      try {
+        await s.sink.send(alert);
+        return { sink: name, status: 'sent', attempts: attempt };
+      } catch (e) {
+        lastError = e;
+        if (attempt < s.retry.attempts) {
+          await new Promise(r => setTimeout(r, s.retry.base_delay_ms * 2 ** (attempt - 1)));
+        }
+      }
+    }
+    
+    return {
+      sink: name,
+      status: 'failed',
+      attempts: s.retry.attempts,
+      error: lastError instanceof Error ? lastError.message : String(lastError),
+    };
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Alerting
+ * 
+ * Notifications for opportunities and liquidity regime changes, fanned
+ * out to pluggable sinks (webhook, Slack, NDJSON file, stdout).
+ * 
+ * @example
+ * ```ts
+ * const alerts = new AlertDispatcher()
+ *   .addSink(new StdoutSink())
+ *   .addSink(new SlackSink({ url: process.env.SLACK_WEBHOOK_URL! }), {
+ *     filter: { min_net_profit_usd: 25, categories: ['politics'] },
+ *     rate_limit: { max_alerts: 10, per_ms: 60 * 60 * 1000 },
+ *   });
+ * 
+ * alerts.attachWatcher(watchOpportunities(client));
+ * ```
+ */
+
+export {
+  AlertDispatcher,
+  matchesFilter,
+  DEFAULT_RETRY_POLICY,
+  type AlertDispatcherOptions,
+  type AlertFilter,
+  type RateLimit,
+  type RetryPolicy,
+  type SinkOptions,
+  type DispatchStatus,
+  type DispatchResult,
+} from './dispatcher';
+
+export {
+  WebhookSink,
+  SlackSink,
+  NdjsonFileSink,
+  StdoutSink,
+  type AlertSink,
+} from './sinks';
+
+export {
+  opportunityAlert,
+  regimeAlert,
+  formatAlertText,
+  toSlackPayload,
+  type Alert,
+  type OpportunityAlert,
+  type RegimeAlert,
+} from './payload';
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { ComplementLegs } from '../analysis/complement';
+import type { Opportunity } from '../tools/scan-opportunities';
+import { opportunityAlert } from './payload';
+
+/**
+ * KXBTC-100K from the replay fixtures (src/tools/__fixtures__/replay-labs)
+ * at size_usd = 100. Kalshi: mid 0.45, YES bids 0.44, NO bids 0.54.
+ * Polymarket: mid 0.42, bid 0.41, ask 0.43. Fees are round numbers.
+ */
+const SIZE_USD = 100;
+
+function complementLegs(
+  yesVenue: ComplementLegs['yes_venue'],
+  yesPrice: number,
+  noPrice: number,
+  feesUsd: number
+): ComplementLegs {
+  const contracts = SIZE_USD / (yesPrice + noPrice);
+  const costBasis = contracts * (yesPrice + noPrice);
+  const grossProfit = contracts - costBasis;
+  const netProfit = grossProfit - feesUsd;
+  return {
+    yes_venue: yesVenue,
+    no_venue: yesVenue === 'KALSHI' ? 'POLYMARKET' : 'KALSHI',
+    yes_price: yesPrice,
+    no_price: noPrice,
+    contracts,
+    guaranteed_payout_usd: contracts,
+    cost_basis_usd: costBasis,
+    locked_profit_per_contract: 1 - (yesPrice + noPrice),
+    gross_profit_usd: grossProfit,
+    total_fees_usd: feesUsd,
+    net_profit_usd: netProfit,
+    net_profit_pct: (netProfit / costBasis) * 100,
+    is_profitable: netProfit > 0,
+    can_fill: true,
+  };
+}
+
+// YES Polymarket 0.43 + NO Kalshi 0.56 locks 1c; the reverse costs 1.05
+const polyYes = complementLegs('POLYMARKET', 0.43, 0.56, 0.4);
+const kalshiYes = complementLegs('KALSHI', 0.46, 0.59, 0.4);
+
+function opportunity(best: 'buy_low_sell_high' | 'yes_no_complement', blshNetProfitUsd: number): Opportunity {
+  const bestNetProfitUsd = best === 'yes_no_complement' ? polyYes.net_profit_usd : blshNetProfitUsd;
+  const bestNetProfitPct = (bestNetProfitUsd / SIZE_USD) * 100;
+  return {
+    market_id: 'KXBTC-100K',
+    kalshi_ticker: 'KXBTC-100K',
+    polymarket_token_id: '1000000000000000001',
+    kalshi_price: 0.45,
+    polymarket_price: 0.42,
+    gross_spread_pct: (0.03 / 0.42) * 100,
+    total_fees_usd: 3.14,
+    net_profit_usd: blshNetProfitUsd,
+    net_profit_pct: (blshNetProfitUsd / SIZE_USD) * 100,
+    best_strategy: best,
+    best_net_profit_usd: bestNetProfitUsd,
+    best_net_profit_pct: bestNetProfitPct,
+    resolution_date: '2026-12-31T00:00:00.000Z',
+    days_to_resolution: 73,
+    annualized_return_pct: bestNetProfitPct * (365 / 73),
+    return_net_of_capital_pct: bestNetProfitPct - 5 * (73 / 365),
+    score: 70,
+    buy_venue: 'POLYMARKET',
+    sell_venue: 'KALSHI',
+    strategy: { type: 'yes_no_complement', best: polyYes, directions: [kalshiYes, polyYes] },
+  };
+}
+
+describe('opportunityAlert', () => {
+  it('reports the strategy the annualized return was computed from', () => {
+    // The complement is profitable but nets less than buy-low/sell-high
+    const alert = opportunityAlert(opportunity('buy_low_sell_high', 4));
+
+    expect(alert.net_profit_usd).toBe(4);
+    expect(alert.message).toContain('7.14% gross spread, $4.00 net after fees (buy POLYMARKET, sell KALSHI), 20.0% annualized');
+  });
+
+  it('describes the complement legs when it is the best strategy', () => {
+    const alert = opportunityAlert(opportunity('yes_no_complement', 0.5));
+
+    expect(alert.net_profit_usd).toBeCloseTo(0.61, 2);
+    expect(alert.message).toContain('$0.61 net after fees (YES on POLYMARKET + NO on KALSHI), 3.1% annualized');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Alert Payloads
+ * 
+ * Normalized alert built from an `Opportunity` or a `LiquidityIndicator`,
+ * plus the text / Slack renderings the sinks send.
+ */
+
+import type { LiquidityIndicator, LiquidityRegime, MarketCategory } from '../types';
+import type { Opportunity } from '../tools/scan-opportunities';
+import type { OpportunityEventType } from '../watch/opportunity-watcher';
+
+interface AlertBase {
+  id: string;                          // Unique per market + event + time, for receiver-side dedupe
+  timestamp: string;
+  market_id: string;
+  category?: MarketCategory;
+  title: string;
+  message: string;
+}
+
+export interface OpportunityAlert extends AlertBase {
+  kind: 'opportunity';
+  event: OpportunityEventType | 'detected';
+  score: number;
+  net_profit_usd: number;
+  opportunity: Opportunity;
+}
+
+export interface RegimeAlert extends AlertBase {
+  kind: 'regime';
+  regime: LiquidityRegime;
+  previous_regime?: LiquidityRegime;
+  indicator: LiquidityIndicator;
+}
+
+export type Alert = OpportunityAlert | RegimeAlert;
+
+/**
+ * Build an alert from a scan_now opportunity (optionally a watcher event)
+ */
+export function opportunityAlert(
+  opportunity: Opportunity,
+  options: { event?: OpportunityEventType; category?: MarketCategory; timestamp?: string } = {}
+): OpportunityAlert {
+  const event = options.event ?? 'detected';
+  // Same strategy the annualized return refers to
+  const complement = opportunity.strategy.best;
+  const useComplement = opportunity.best_strategy === 'yes_no_complement';
+  const netProfitUsd = opportunity.best_net_profit_usd;
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  
+  const trade = useComplement
+    ? `YES on ${complement.yes_venue} + NO on ${complement.no_venue}`
+    : `buy ${opportunity.buy_venue}, sell ${opportunity.sell_venue}`;
+  const annualized = opportunity.annualized_return_pct != null
+    ? `, ${opportunity.annualized_return_pct.toFixed(1)}% annualized`
+    : '';
+  
+  return {
+    kind: 'opportunity',
+    id: `opportunity:${opportunity.market_id}:${event}:${timestamp}`,
+    timestamp,
+    market_id: opportunity.market_id,
+    category: options.category,
+    event,
+    score: opportunity.score,
+    net_profit_usd: netProfitUsd,
+    title: `Arb ${event}: ${opportunity.market_id}`,
+    message: `${opportunity.gross_spread_pct.toFixed(2)}% gross spread, $${netProfitUsd.toFixed(2)} net after fees (${trade})${annualized}. Score ${opportunity.score}.`,
+    opportunity,
+  };
+}
+
+/**
+ * Build an alert from a liquidity_regime reading
+ */
+export function regimeAlert(
+  indicator: LiquidityIndicator,
+  options: { previous_regime?: LiquidityRegime; category?: MarketCategory } = {}
+): RegimeAlert {
+  const change = options.previous_regime ? `${options.previous_regime} → ${indicator.regime}` : indicator.regime;
+  
+  return {
+    kind: 'regime',
+    id: `regime:${indicator.market_id}:${indicator.regime}:${indicator.timestamp}`,
+    timestamp: indicator.timestamp,
+    market_id: indicator.market_id,
+    category: options.category,
+    regime: indicator.regime,
+    previous_regime: options.previous_regime,
+    title: `Liquidity ${change}: ${indicator.market_id}`,
+    message: `Spread ${indicator.spread_bps.toFixed(0)} bps (z ${indicator.spread_zscore.toFixed(2)}), depth z ${indicator.volume_zscore.toFixed(2)}, ${indicator.confidence} confidence.`,
+    indicator,
+  };
+}
+
+/**
+ * Single-line plain text rendering
+ */
+export function formatAlertText(alert: Alert): string {
+  return `[${alert.timestamp}] ${alert.title} - ${alert.message}`;
+}
+
+/**
+ * Slack incoming-webhook payload (text fallback + Block Kit section)
+ */
+export function toSlackPayload(alert: Alert): Record<string, unknown> {
+  const fields = alert.kind === 'opportunity'
+    ? [
+        `*Net profit*\n$${alert.net_profit_usd.toFixed(2)}`,
+        `*Score*\n${alert.score}`,
+        `*Spread*\n${alert.opportunity.gross_spread_pct.toFixed(2)}%`,
+        `*Prices*\nK ${alert.opportunity.kalshi_price.toFixed(3)} / P ${alert.opportunity.polymarket_price.toFixed(3)}`,
+      ]
+    : [
+        `*Regime*\n${alert.regime}`,
+        `*Spread*\n${alert.indicator.spread_bps.toFixed(0)} bps`,
+        `*Spread z*\n${alert.indicator.spread_zscore.toFixed(2)}`,
+        `*Confidence*\n${alert.indicator.confidence}`,
+      ];
+  
+  return {
+    text: `${alert.title}: ${alert.message}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: alert.title } },
+      { type: 'section', text: { type: 'mrkdwn', text: alert.message } },
+      { type: 'section', fields: fields.map(text => ({ type: 'mrkdwn', text })) },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `${alert.category ?? 'uncategorized'} · ${alert.timestamp}` }] },
+    ],
+  };
+}
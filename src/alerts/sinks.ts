@@ -0,0 +1,102 @@
+/**
+ * Alert Sinks
+ * 
+ * Destinations for alerts. A sink only delivers; filtering, rate
+ * limiting and retry are applied by the AlertDispatcher so every sink
+ * gets them the same way.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatAlertText, toSlackPayload, type Alert } from './payload';
+
+export interface AlertSink {
+  name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Generic webhook: POSTs the alert as JSON. Non-2xx responses throw so
+ * the dispatcher can retry.
+ */
+export class WebhookSink implements AlertSink {
+  name: string;
+  protected url: string;
+  protected headers: Record<string, string>;
+  protected timeoutMs: number;
+  
+  constructor(config: { url: string; name?: string; headers?: Record<string, string>; timeout_ms?: number }) {
+    this.url = config.url;
+    this.name = config.name ?? 'webhook';
+    this.headers = config.headers ?? {};
+    this.timeoutMs = config.timeout_ms ?? DEFAULT_WEBHOOK_TIMEOUT_MS;
+  }
+  
+  async send(alert: Alert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(this.body(alert)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    
+    if (!response.ok) {
+      throw new Error(`${this.name} webhook error: ${response.status} ${response.statusText}`);
+    }
+  }
+  
+  protected body(alert: Alert): unknown {
+    return alert;
+  }
+}
+
+/**
+ * Slack incoming webhook (also accepted by Mattermost / Discord's /slack endpoint)
+ */
+export class SlackSink extends WebhookSink {
+  constructor(config: { url: string; name?: string; timeout_ms?: number }) {
+    super({ ...config, name: config.name ?? 'slack' });
+  }
+  
+  protected override body(alert: Alert): unknown {
+    return toSlackPayload(alert);
+  }
+}
+
+/**
+ * Appends one JSON alert per line to a file
+ */
+export class NdjsonFileSink implements AlertSink {
+  name: string;
+  private filePath: string;
+  
+  constructor(config: { file_path: string; name?: string }) {
+    this.filePath = config.file_path;
+    this.name = config.name ?? 'ndjson';
+  }
+  
+  async send(alert: Alert): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, JSON.stringify(alert) + '\n', 'utf-8');
+  }
+}
+
+/**
+ * Writes alerts to stdout, as text lines or JSON lines
+ */
+export class StdoutSink implements AlertSink {
+  name: string;
+  private format: 'text' | 'json';
+  
+  constructor(config: { format?: 'text' | 'json'; name?: string } = {}) {
+    this.format = config.format ?? 'text';
+    this.name = config.name ?? 'stdout';
+  }
+  
+  async send(alert: Alert): Promise<void> {
+    const line = this.format === 'json' ? JSON.stringify(alert) : formatAlertText(alert);
+    process.stdout.write(line + '\n');
+  }
+}
@@ -0,0 +1,142 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { analyzeArbBooks } from '../tools/analyze-arb';
+import { configureTimezones } from '../utils/time';
+import type { OrderbookSnapshot } from '../types';
+import { backtestPairs, maxDrawdown, type BacktestPairData } from './backtest';
+import { withTopOfBookLadders } from './depth';
+
+const HOUR = 3600000;
+const T0 = Date.UTC(2025, 0, 6, 14);   // Mon 09:00 in New York, 23:00 in Tokyo
+const at = (hours: number) => new Date(T0 + hours * HOUR).toISOString();
+
+function snapshot(hours: number, mid: number): OrderbookSnapshot {
+  return {
+    timestamp: at(hours),
+    mid_price: mid,
+    spread: 0.02,
+    spread_bps: (0.02 / mid) * 10000,
+    imbalance: 0,
+    bid_depth: 5000,
+    ask_depth: 5000,
+  };
+}
+
+/**
+ * Kalshi 0.60 / Polymarket 0.40 at entry: YES on Polymarket at the 0.41
+ * ask plus NO on Kalshi at 1 - 0.59 costs 0.82 per $1 payout, so $820
+ * buys 1000 contracts for $180 gross. The mids then move against the
+ * position (marked at 0.30 + 0.25 = $550) before recovering, and with no
+ * settles_at the last Kalshi snapshot (+3h) settles it.
+ */
+function pair(pairId: string, overrides: Partial<BacktestPairData> = {}): BacktestPairData {
+  return {
+    pair_id: pairId,
+    category: 'crypto',
+    kalshi: [snapshot(0, 0.60), snapshot(1, 0.75), snapshot(2, 0.50), snapshot(3, 0.50)],
+    polymarket: [snapshot(0, 0.40), snapshot(1, 0.30), snapshot(2, 0.45), snapshot(3, 0.50)],
+    ...overrides,
+  };
+}
+
+const PARAMS = { size_usd: 820, initial_capital_usd: 10_000 };
+
+/**
+ * Fees are replay-fee-oracle's for the entry books, as analyze-arb prices them
+ */
+async function entryFees(): Promise<number> {
+  const analysis = await analyzeArbBooks(
+    withTopOfBookLadders(snapshot(0, 0.60)),
+    withTopOfBookLadders(snapshot(0, 0.40)),
+    { size_usd: PARAMS.size_usd, min_net_profit_pct: 0.5, optimize_size: false }
+  );
+  return analysis.strategy.best.total_fees_usd;
+}
+
+beforeAll(() => {
+  configureTimezones({ by_market: { 'BT-TOKYO': 'Asia/Tokyo' } });
+});
+
+describe('backtestPairs', () => {
+  it('matches a hand-computed complement trade held to the last snapshot', async () => {
+    const fees = await entryFees();
+    const result = await backtestPairs([pair('BT-NY')], PARAMS);
+    const trade = result.trades[0]!;
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.signals.EXECUTE).toBe(1);
+    expect(trade).toMatchObject({
+      strategy: 'yes_no_complement',
+      yes_venue: 'POLYMARKET',
+      no_venue: 'KALSHI',
+      entry_time: at(0),
+      settle_time: at(3),
+    });
+    expect(trade.yes_price).toBeCloseTo(0.41, 9);
+    expect(trade.no_price).toBeCloseTo(0.41, 9);
+    expect(trade.contracts).toBeCloseTo(1000, 6);
+    expect(trade.cost_usd).toBeCloseTo(820, 6);
+    expect(trade.gross_pnl_usd).toBeCloseTo(180, 6);
+    expect(trade.fees_usd).toBeCloseTo(fees, 9);
+    expect(trade.net_pnl_usd).toBeCloseTo(180 - fees, 6);
+    expect(trade.return_pct).toBeCloseTo(((180 - fees) / (820 + fees)) * 100, 6);
+
+    const { summary } = result;
+    expect(summary.gross_pnl_usd).toBeCloseTo(180, 6);
+    expect(summary.fees_paid_usd).toBeCloseTo(fees, 9);
+    expect(summary.net_pnl_usd).toBeCloseTo(180 - fees, 6);
+    expect(summary.final_equity_usd).toBeCloseTo(10_180 - fees, 6);
+    expect(summary.return_on_capital_pct).toBeCloseTo(((180 - fees) / 10_000) * 100, 6);
+    expect(summary.peak_capital_deployed_usd).toBeCloseTo(820 + fees, 6);
+
+    // Cash + marked position: 800 at entry, 550 at the trough, then 950 and settlement at $1000
+    expect(result.equity_curve.map(e => e.equity_usd - (10_000 - 820 - fees))).toEqual([
+      expect.closeTo(800, 6),
+      expect.closeTo(550, 6),
+      expect.closeTo(950, 6),
+      expect.closeTo(1000, 6),
+      expect.closeTo(1000, 6),
+    ]);
+    expect(summary.max_drawdown_usd).toBeCloseTo(270 + fees, 6);
+    expect(summary.max_drawdown_pct).toBeCloseTo(((270 + fees) / 10_000) * 100, 6);
+  });
+
+  it('settles at settles_at when given', async () => {
+    const fees = await entryFees();
+    const result = await backtestPairs([pair('BT-NY', { settles_at: at(1.5) })], PARAMS);
+
+    expect(result.trades.map(t => t.settle_time)).toEqual([at(1.5)]);
+    // Paid out before the +2h step, so the recovery is never marked
+    expect(result.equity_curve[2]!.equity_usd).toBeCloseTo(10_180 - fees, 6);
+    expect(result.summary.final_equity_usd).toBeCloseTo(10_180 - fees, 6);
+  });
+
+  it('opens nothing once settlement has passed', async () => {
+    const result = await backtestPairs([pair('BT-NY', { settles_at: at(-1) })], PARAMS);
+
+    expect(result.signals.EXECUTE).toBeGreaterThan(0);
+    expect(result.trades).toEqual([]);
+    expect(result.summary.final_equity_usd).toBe(10_000);
+    expect(result.summary.max_drawdown_usd).toBe(0);
+  });
+
+  it("keys by_hour on the local entry hour in the pair's zone", async () => {
+    const result = await backtestPairs([pair('BT-NY'), pair('BT-TOKYO')], PARAMS);
+
+    expect(result.trades.map(t => [t.pair_id, t.hour])).toEqual([['BT-NY', 9], ['BT-TOKYO', 23]]);
+    expect(result.by_hour.map(b => [b.key, b.trades])).toEqual([['9', 1], ['23', 1]]);
+  });
+
+  it('prefers an explicit timezone param over the configured zones', async () => {
+    const result = await backtestPairs([pair('BT-NY'), pair('BT-TOKYO')], { ...PARAMS, timezone: 'UTC' });
+
+    expect(result.by_hour.map(b => [b.key, b.trades])).toEqual([['14', 2]]);
+  });
+});
+
+describe('maxDrawdown', () => {
+  it('measures the largest fall from a running peak', () => {
+    expect(maxDrawdown([100, 120, 90, 130, 110, 140])).toEqual({ usd: 30, pct: 25 });
+    expect(maxDrawdown([100, 110, 120])).toEqual({ usd: 0, pct: 0 });
+    expect(maxDrawdown([])).toEqual({ usd: 0, pct: 0 });
+  });
+});
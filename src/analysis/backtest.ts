@@ -0,0 +1,403 @@
+/**
+ * Cross-Venue Strategy Backtester
+ * 
+ * Replays aligned Kalshi / Polymarket snapshot histories for tracked
+ * pairs through the same analysis the analyze-arb tool runs live
+ * (depth walk, complement pricing, replay-fee-oracle fees, EXECUTE /
+ * WAIT / SKIP). EXECUTE signals open a position that is held to
+ * settlement; the report covers P&L, fees, drawdown and return on
+ * capital, broken down by liquidity regime, local hour and category.
+ */
+
+import type { LiquidityRegime, MarketCategory, OrderbookSnapshot, Venue } from '../types';
+import { analyzeArbBooks, type AnalyzeArbOutput } from '../tools/analyze-arb';
+import { withTopOfBookLadders } from './depth';
+import {
+  DEFAULT_LIQUIDITY_REGIME_PARAMS,
+  localizeSnapshots,
+  RollingLiquidityBaseline,
+  type LiquidityRegimeParams,
+} from '../indicators/liquidity-regime';
+import { findNearestSnapshot } from '../annotations/liquidity-window';
+import { getLocalHour, getTimezoneFor } from '../utils/time';
+
+export interface BacktestParams extends LiquidityRegimeParams {
+  size_usd: number;
+  min_net_profit_pct: number;
+  optimize_size: boolean;
+  initial_capital_usd: number;
+  max_alignment_minutes: number;       // Max gap between Kalshi and Polymarket snapshots
+  start?: string;                      // Earlier snapshots only seed the regime baseline
+}
+
+export const DEFAULT_BACKTEST_PARAMS: BacktestParams = {
+  ...DEFAULT_LIQUIDITY_REGIME_PARAMS,
+  size_usd: 1000,
+  min_net_profit_pct: 0.5,
+  optimize_size: false,
+  initial_capital_usd: 10_000,
+  max_alignment_minutes: 30,
+};
+
+/**
+ * Snapshot history for one tracked pair
+ */
+export interface BacktestPairData {
+  pair_id: string;
+  category: MarketCategory;
+  kalshi: OrderbookSnapshot[];
+  polymarket: OrderbookSnapshot[];
+  settles_at?: string;                 // Defaults to the pair's last snapshot
+}
+
+export type BacktestStrategy = 'cross_venue' | 'yes_no_complement';
+
+/**
+ * A position opened on an EXECUTE signal.
+ * 
+ * Both strategies reduce to YES on one venue plus NO on the other
+ * (selling YES on the expensive venue is buying its NO at 1 - bid), so
+ * each position pays $1 per contract at settlement whichever way the
+ * market resolves.
+ */
+export interface BacktestTrade {
+  pair_id: string;
+  category: MarketCategory;
+  strategy: BacktestStrategy;
+  entry_time: string;
+  settle_time: string;
+  regime: LiquidityRegime;
+  hour: number;                        // Local hour of entry
+  yes_venue: Venue;
+  no_venue: Venue;
+  yes_price: number;
+  no_price: number;
+  contracts: number;
+  cost_usd: number;                    // Both legs, before fees
+  fees_usd: number;
+  gross_pnl_usd: number;
+  net_pnl_usd: number;
+  return_pct: number;                  // Net P&L / (cost + fees)
+  reason: string;
+}
+
+export interface BacktestBreakdown {
+  key: string;
+  trades: number;
+  wins: number;
+  hit_rate: number;
+  gross_pnl_usd: number;
+  fees_usd: number;
+  net_pnl_usd: number;
+  avg_net_pnl_usd: number;
+}
+
+export interface BacktestSummary {
+  trade_count: number;
+  wins: number;
+  hit_rate: number;
+  gross_pnl_usd: number;
+  fees_paid_usd: number;
+  net_pnl_usd: number;
+  initial_capital_usd: number;
+  final_equity_usd: number;
+  return_on_capital_pct: number;
+  max_drawdown_usd: number;
+  max_drawdown_pct: number;
+  peak_capital_deployed_usd: number;
+}
+
+export interface BacktestResult {
+  start_time: string | null;
+  end_time: string | null;
+  steps_evaluated: number;
+  signals: Record<AnalyzeArbOutput['action'], number>;
+  skipped_for_capital: number;
+  summary: BacktestSummary;
+  by_regime: BacktestBreakdown[];
+  by_hour: BacktestBreakdown[];
+  by_category: BacktestBreakdown[];
+  trades: BacktestTrade[];
+  equity_curve: { timestamp: string; equity_usd: number }[];
+}
+
+/**
+ * One aligned Kalshi / Polymarket observation
+ */
+interface BacktestStep {
+  pair: BacktestPairData;
+  timestamp: string;
+  kalshi: OrderbookSnapshot;
+  polymarket: OrderbookSnapshot;
+  regime: LiquidityRegime;
+  timezone: string;                    // Pair's zone for regime and hour buckets
+}
+
+interface OpenPosition {
+  trade: BacktestTrade;
+  capital_usd: number;                 // Cost + fees, returned as $1/contract at settlement
+}
+
+/**
+ * Align each pair's histories and classify the regime at every step.
+ * 
+ * The regime uses only Kalshi snapshots before the step, matching what
+ * check-liquidity-regime would have reported live.
+ */
+function buildSteps(pairs: BacktestPairData[], p: BacktestParams): BacktestStep[] {
+  const startMs = p.start ? Date.parse(p.start) : -Infinity;
+  const steps: BacktestStep[] = [];
+  
+  for (const pair of pairs) {
+    const kalshi = [...pair.kalshi].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    const poly = [...pair.polymarket].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    const timeZone = p.timezone ?? getTimezoneFor(pair.pair_id, pair.category);
+    
+    const baseline = new RollingLiquidityBaseline(p);
+    for (const local of localizeSnapshots(kalshi, timeZone)) {
+      const { snapshot, ts } = local;
+      baseline.evictBefore(ts - p.lookback_hours * 3600000);
+      
+      const match = ts >= startMs ? findNearestSnapshot(poly, snapshot.timestamp, p.max_alignment_minutes) : undefined;
+      if (match) {
+        const regime = baseline.size > 0 ? baseline.indicator(pair.pair_id, local).regime : 'normal';
+        steps.push({ pair, timestamp: snapshot.timestamp, kalshi: snapshot, polymarket: match, regime, timezone: timeZone });
+      }
+      
+      baseline.add(local);
+    }
+  }
+  
+  return steps.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+/**
+ * Turn an EXECUTE analysis into a position, using the strategy
+ * determineAction picked (complement first, then buy-low/sell-high)
+ */
+function openTrade(
+  step: BacktestStep,
+  analysis: AnalyzeArbOutput,
+  settleTime: string
+): BacktestTrade {
+  const complement = analysis.strategy.best;
+  const useComplement = complement.is_profitable && complement.can_fill;
+  
+  const leg = useComplement
+    ? {
+        strategy: 'yes_no_complement' as const,
+        yes_venue: complement.yes_venue,
+        no_venue: complement.no_venue,
+        yes_price: complement.yes_price,
+        no_price: complement.no_price,
+        contracts: complement.contracts,
+        fees_usd: complement.total_fees_usd,
+      }
+    : {
+        strategy: 'cross_venue' as const,
+        yes_venue: analysis.buy_venue,
+        no_venue: analysis.sell_venue,
+        yes_price: analysis.buy_leg.vwap_price,
+        no_price: 1 - analysis.sell_leg.vwap_price,
+        contracts: analysis.contracts,
+        fees_usd: analysis.total_fees_usd,
+      };
+  
+  const costUsd = leg.contracts * (leg.yes_price + leg.no_price);
+  const grossPnlUsd = leg.contracts - costUsd;
+  const netPnlUsd = grossPnlUsd - leg.fees_usd;
+  const capital = costUsd + leg.fees_usd;
+  
+  return {
+    pair_id: step.pair.pair_id,
+    category: step.pair.category,
+    entry_time: step.timestamp,
+    settle_time: settleTime,
+    regime: step.regime,
+    hour: getLocalHour(step.timestamp, step.timezone),
+    ...leg,
+    cost_usd: costUsd,
+    gross_pnl_usd: grossPnlUsd,
+    net_pnl_usd: netPnlUsd,
+    return_pct: capital > 0 ? (netPnlUsd / capital) * 100 : 0,
+    reason: analysis.reason,
+  };
+}
+
+/**
+ * Mark an open position at the latest mids
+ */
+function markToMarket(position: OpenPosition, mids: { kalshi: number; polymarket: number }): number {
+  const { trade } = position;
+  const yesMid = trade.yes_venue === 'KALSHI' ? mids.kalshi : mids.polymarket;
+  const noMid = 1 - (trade.no_venue === 'KALSHI' ? mids.kalshi : mids.polymarket);
+  return trade.contracts * (yesMid + noMid);
+}
+
+/**
+ * Replay pair histories through the live decision logic.
+ * 
+ * At most one position per pair is open at a time, and a position is
+ * only opened if cash covers its cost plus fees. Positions settle at the
+ * pair's settles_at (or its last snapshot), paying $1 per contract.
+ */
+export async function backtestPairs(
+  pairs: BacktestPairData[],
+  params: Partial<BacktestParams> = {}
+): Promise<BacktestResult> {
+  const p = { ...DEFAULT_BACKTEST_PARAMS, ...params };
+  const steps = buildSteps(pairs, p);
+  
+  const settleTimes = new Map<string, string>();
+  for (const pair of pairs) {
+    const last = pair.kalshi.reduce<string | undefined>(
+      (latest, s) => !latest || Date.parse(s.timestamp) > Date.parse(latest) ? s.timestamp : latest,
+      undefined
+    );
+    const settle = pair.settles_at ?? last;
+    if (settle) settleTimes.set(pair.pair_id, settle);
+  }
+  
+  let cash = p.initial_capital_usd;
+  let peakDeployed = 0;
+  let skippedForCapital = 0;
+  const signals: BacktestResult['signals'] = { EXECUTE: 0, WAIT: 0, SKIP: 0 };
+  const open = new Map<string, OpenPosition>();
+  const mids = new Map<string, { kalshi: number; polymarket: number }>();
+  const trades: BacktestTrade[] = [];
+  const equityCurve: BacktestResult['equity_curve'] = [];
+  
+  const settleDue = (nowMs: number) => {
+    for (const [pairId, position] of open) {
+      if (Date.parse(position.trade.settle_time) <= nowMs) {
+        cash += position.trade.contracts;
+        trades.push(position.trade);
+        open.delete(pairId);
+      }
+    }
+  };
+  
+  const equity = () => {
+    let value = cash;
+    for (const [pairId, position] of open) {
+      const m = mids.get(pairId);
+      value += m ? markToMarket(position, m) : position.capital_usd;
+    }
+    return value;
+  };
+  
+  for (const step of steps) {
+    const pairId = step.pair.pair_id;
+    settleDue(Date.parse(step.timestamp));
+    mids.set(pairId, { kalshi: step.kalshi.mid_price, polymarket: step.polymarket.mid_price });
+    
+    if (!open.has(pairId)) {
+      const analysis = await analyzeArbBooks(
+        withTopOfBookLadders(step.kalshi),
+        withTopOfBookLadders(step.polymarket),
+        { size_usd: p.size_usd, min_net_profit_pct: p.min_net_profit_pct, optimize_size: p.optimize_size }
+      );
+      signals[analysis.action]++;
+      
+      const settleTime = settleTimes.get(pairId) ?? step.timestamp;
+      if (analysis.action === 'EXECUTE' && Date.parse(settleTime) > Date.parse(step.timestamp)) {
+        const trade = openTrade(step, analysis, settleTime);
+        const capital = trade.cost_usd + trade.fees_usd;
+        
+        if (trade.contracts > 0 && capital <= cash) {
+          cash -= capital;
+          open.set(pairId, { trade, capital_usd: capital });
+          const deployed = [...open.values()].reduce((sum, o) => sum + o.capital_usd, 0);
+          peakDeployed = Math.max(peakDeployed, deployed);
+        } else if (capital > cash) {
+          skippedForCapital++;
+        }
+      }
+    }
+    
+    equityCurve.push({ timestamp: step.timestamp, equity_usd: equity() });
+  }
+  
+  // Everything still open settles at the end of the replay
+  settleDue(Infinity);
+  const lastStep = steps[steps.length - 1];
+  if (lastStep) {
+    equityCurve.push({ timestamp: lastStep.timestamp, equity_usd: cash });
+  }
+  
+  trades.sort((a, b) => Date.parse(a.entry_time) - Date.parse(b.entry_time));
+  const totals = breakdown('all', trades);
+  const drawdown = maxDrawdown([p.initial_capital_usd, ...equityCurve.map(e => e.equity_usd)]);
+  
+  return {
+    start_time: steps[0]?.timestamp ?? null,
+    end_time: lastStep?.timestamp ?? null,
+    steps_evaluated: steps.length,
+    signals,
+    skipped_for_capital: skippedForCapital,
+    summary: {
+      trade_count: totals.trades,
+      wins: totals.wins,
+      hit_rate: totals.hit_rate,
+      gross_pnl_usd: totals.gross_pnl_usd,
+      fees_paid_usd: totals.fees_usd,
+      net_pnl_usd: totals.net_pnl_usd,
+      initial_capital_usd: p.initial_capital_usd,
+      final_equity_usd: cash,
+      return_on_capital_pct: p.initial_capital_usd > 0 ? ((cash - p.initial_capital_usd) / p.initial_capital_usd) * 100 : 0,
+      max_drawdown_usd: drawdown.usd,
+      max_drawdown_pct: drawdown.pct,
+      peak_capital_deployed_usd: peakDeployed,
+    },
+    by_regime: groupTrades(trades, t => t.regime),
+    by_hour: groupTrades(trades, t => String(t.hour)).sort((a, b) => Number(a.key) - Number(b.key)),
+    by_category: groupTrades(trades, t => t.category),
+    trades,
+    equity_curve: equityCurve,
+  };
+}
+
+function breakdown(key: string, trades: BacktestTrade[]): BacktestBreakdown {
+  const wins = trades.filter(t => t.net_pnl_usd > 0).length;
+  const gross = trades.reduce((sum, t) => sum + t.gross_pnl_usd, 0);
+  const fees = trades.reduce((sum, t) => sum + t.fees_usd, 0);
+  const net = trades.reduce((sum, t) => sum + t.net_pnl_usd, 0);
+  
+  return {
+    key,
+    trades: trades.length,
+    wins,
+    hit_rate: trades.length > 0 ? wins / trades.length : 0,
+    gross_pnl_usd: gross,
+    fees_usd: fees,
+    net_pnl_usd: net,
+    avg_net_pnl_usd: trades.length > 0 ? net / trades.length : 0,
+  };
+}
+
+function groupTrades(trades: BacktestTrade[], keyOf: (t: BacktestTrade) => string): BacktestBreakdown[] {
+  const groups = new Map<string, BacktestTrade[]>();
+  for (const t of trades) {
+    const key = keyOf(t);
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+  return [...groups.entries()].map(([key, group]) => breakdown(key, group));
+}
+
+/**
+ * Largest peak-to-trough fall in an equity series
+ */
+export function maxDrawdown(equity: number[]): { usd: number; pct: number } {
+  let peak = -Infinity;
+  let worstUsd = 0;
+  let worstPct = 0;
+  
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    const fall = peak - value;
+    if (fall > worstUsd) worstUsd = fall;
+    if (peak > 0 && (fall / peak) * 100 > worstPct) worstPct = (fall / peak) * 100;
+  }
+  
+  return { usd: worstUsd, pct: worstPct };
+}
@@ -0,0 +1,81 @@
+/**
+ * Capital Lockup
+ * 
+ * A cross-venue arb ties up capital on both venues until the markets
+ * resolve. These helpers turn a per-trade net return into an annualized
+ * one and charge a cost of capital over the lockup, so opportunities
+ * settling at different dates can be compared.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+// Settlement and withdrawal take at least a day, so shorter lockups
+// don't get annualized into absurd numbers
+const MIN_LOCKUP_DAYS = 1;
+
+export const DEFAULT_COST_OF_CAPITAL_PCT = 5;  // Annual
+
+export interface CapitalLockup {
+  resolution_date: string | null;      // Later of the venue close dates
+  days_to_resolution: number | null;
+  annualized_return_pct: number | null;
+  return_net_of_capital_pct: number | null;  // Net return minus cost of capital over the lockup
+}
+
+/**
+ * Resolution date for a pair: the later of the venue close dates, since
+ * capital on the earlier venue stays tied up until the other settles.
+ * Returns null when no date is known.
+ */
+export function resolutionDate(closeDates: (string | undefined)[]): string | null {
+  const times = closeDates
+    .filter((d): d is string => d !== undefined)
+    .map(d => Date.parse(d))
+    .filter(t => !Number.isNaN(t));
+  
+  return times.length > 0 ? new Date(Math.max(...times)).toISOString() : null;
+}
+
+/**
+ * Days between now and a resolution date, floored at MIN_LOCKUP_DAYS
+ */
+export function daysToResolution(resolution: string, now: Date = new Date()): number {
+  return Math.max(MIN_LOCKUP_DAYS, (Date.parse(resolution) - now.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Simple (non-compounding) annualization of a per-trade return
+ */
+export function annualizeReturnPct(returnPct: number, days: number): number {
+  return returnPct * (DAYS_PER_YEAR / Math.max(MIN_LOCKUP_DAYS, days));
+}
+
+/**
+ * Lockup metrics for a trade returning netProfitPct that settles when
+ * the last of closeDates resolves
+ */
+export function computeCapitalLockup(
+  netProfitPct: number,
+  closeDates: (string | undefined)[],
+  costOfCapitalPct: number = DEFAULT_COST_OF_CAPITAL_PCT,
+  now: Date = new Date()
+): CapitalLockup {
+  const resolution = resolutionDate(closeDates);
+  if (!resolution) {
+    return {
+      resolution_date: null,
+      days_to_resolution: null,
+      annualized_return_pct: null,
+      return_net_of_capital_pct: null,
+    };
+  }
+  
+  const days = daysToResolution(resolution, now);
+  return {
+    resolution_date: resolution,
+    days_to_resolution: days,
+    annualized_return_pct: annualizeReturnPct(netProfitPct, days),
+    return_net_of_capital_pct: netProfitPct - costOfCapitalPct * (days / DAYS_PER_YEAR),
+  };
+}
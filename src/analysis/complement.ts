@@ -0,0 +1,152 @@
+/**
+ * YES/NO Complement Arbitrage
+ * 
+ * A cross-venue arb on a binary market: buy YES on one venue and NO on
+ * the other. Exactly one side pays $1, so if YES ask + NO ask < $1 the
+ * difference is locked in regardless of outcome - no selling required.
+ */
+
+import { z } from 'zod';
+import { getOracle } from 'replay-fee-oracle';
+import { walkBook, type FillResult } from './depth';
+import type { OrderbookLevel, OrderbookSnapshot, Venue } from '../types';
+
+type BookSnapshot = Pick<OrderbookSnapshot, 'mid_price' | 'bids' | 'asks'>;
+
+export const complementLegsSchema = z.object({
+  yes_venue: z.enum(['KALSHI', 'POLYMARKET']),
+  no_venue: z.enum(['KALSHI', 'POLYMARKET']),
+  yes_price: z.number().describe('YES VWAP fill price (0-1)'),
+  no_price: z.number().describe('NO VWAP fill price (0-1)'),
+  contracts: z.number().describe('Matched YES/NO contract pairs'),
+  
+  // Locked-in economics
+  guaranteed_payout_usd: z.number().describe('$1 per matched pair, paid whichever side wins'),
+  cost_basis_usd: z.number().describe('Total cost of both legs'),
+  locked_profit_per_contract: z.number().describe('1 - (YES price + NO price)'),
+  gross_profit_usd: z.number(),
+  
+  // Fee-adjusted (replay-fee-oracle)
+  total_fees_usd: z.number(),
+  net_profit_usd: z.number(),
+  net_profit_pct: z.number().describe('Net profit as % of cost basis'),
+  is_profitable: z.boolean(),
+  can_fill: z.boolean().describe('True if both books can absorb the size'),
+});
+
+export const complementStrategySchema = z.object({
+  type: z.literal('yes_no_complement'),
+  best: complementLegsSchema.describe('Direction with the highest net profit'),
+  directions: z.array(complementLegsSchema).describe('YES Kalshi + NO Polymarket, and YES Polymarket + NO Kalshi'),
+});
+
+export type ComplementLegs = z.infer<typeof complementLegsSchema>;
+export type ComplementStrategy = z.infer<typeof complementStrategySchema>;
+
+/**
+ * NO ask ladder implied by a YES book: a YES bid at p is a NO offer at 1 - p
+ */
+export function noAskLadder(yesBids: OrderbookLevel[] | undefined): OrderbookLevel[] | undefined {
+  return yesBids?.map(l => ({ price: 1 - l.price, size: l.size }));
+}
+
+/**
+ * Walk YES asks on one book and implied NO asks on the other for a
+ * combined cost of sizeUsd, matching contract counts across legs.
+ */
+export function simulateComplementFills(
+  yesBook: BookSnapshot,
+  noSourceBook: BookSnapshot,
+  sizeUsd: number
+): { yesFill: FillResult; noFill: FillResult } {
+  const noBook: BookSnapshot = {
+    mid_price: 1 - noSourceBook.mid_price,
+    asks: noAskLadder(noSourceBook.bids),
+  };
+  
+  // Target contracts from top-of-book pair cost, then walk both ladders
+  const topCost = (yesBook.asks?.[0]?.price ?? yesBook.mid_price) + (noBook.asks?.[0]?.price ?? noBook.mid_price);
+  const targetContracts = topCost > 0 ? sizeUsd / topCost : 0;
+  
+  let yesFill = walkBook(yesBook, 'BUY', { contracts: targetContracts });
+  let noFill = walkBook(noBook, 'BUY', { contracts: targetContracts });
+  
+  const matched = Math.min(yesFill.filled_contracts, noFill.filled_contracts);
+  if (yesFill.filled_contracts > matched) {
+    yesFill = { ...walkBook(yesBook, 'BUY', { contracts: matched }), fully_filled: false };
+  }
+  if (noFill.filled_contracts > matched) {
+    noFill = { ...walkBook(noBook, 'BUY', { contracts: matched }), fully_filled: false };
+  }
+  
+  return { yesFill, noFill };
+}
+
+/**
+ * Price one complement direction, fee-adjusted
+ */
+export async function analyzeComplementDirection(
+  yesVenue: Venue,
+  yesBook: BookSnapshot,
+  noBook: BookSnapshot,
+  sizeUsd: number,
+  minNetProfitPct: number
+): Promise<ComplementLegs> {
+  const noVenue: Venue = yesVenue === 'KALSHI' ? 'POLYMARKET' : 'KALSHI';
+  const { yesFill, noFill } = simulateComplementFills(yesBook, noBook, sizeUsd);
+  
+  const contracts = Math.min(yesFill.filled_contracts, noFill.filled_contracts);
+  const costBasis = yesFill.filled_usd + noFill.filled_usd;
+  const payout = contracts;
+  const grossProfit = payout - costBasis;
+  
+  const oracle = getOracle();
+  const analysis = await oracle.analyzeArbitrage(
+    [
+      { venue: yesVenue, direction: 'BUY', size_usd: yesFill.filled_usd, price: yesFill.vwap_price },
+      { venue: noVenue, direction: 'BUY', size_usd: noFill.filled_usd, price: noFill.vwap_price },
+    ],
+    grossProfit,
+    minNetProfitPct
+  );
+  
+  return {
+    yes_venue: yesVenue,
+    no_venue: noVenue,
+    yes_price: yesFill.vwap_price,
+    no_price: noFill.vwap_price,
+    contracts,
+    guaranteed_payout_usd: payout,
+    cost_basis_usd: costBasis,
+    locked_profit_per_contract: 1 - (yesFill.vwap_price + noFill.vwap_price),
+    gross_profit_usd: grossProfit,
+    total_fees_usd: analysis.total_fees_usd,
+    net_profit_usd: analysis.net_profit_usd,
+    net_profit_pct: analysis.net_profit_pct,
+    is_profitable: analysis.is_profitable,
+    can_fill: yesFill.fully_filled && noFill.fully_filled,
+  };
+}
+
+/**
+ * Evaluate both complement directions and pick the better one
+ */
+export async function analyzeComplementArb(
+  kalshiBook: BookSnapshot,
+  polyBook: BookSnapshot,
+  sizeUsd: number,
+  minNetProfitPct: number
+): Promise<ComplementStrategy> {
+  const directions = await Promise.all([
+    analyzeComplementDirection('KALSHI', kalshiBook, polyBook, sizeUsd, minNetProfitPct),
+    analyzeComplementDirection('POLYMARKET', polyBook, kalshiBook, sizeUsd, minNetProfitPct),
+  ]);
+  
+  const best = [...directions].sort((a, b) => b.net_profit_usd - a.net_profit_usd)[0]!;
+  
+  return {
+    type: 'yes_no_complement',
+    best,
+    directions,
+  };
+}
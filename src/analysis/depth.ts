@@ -0,0 +1,120 @@
+/**
+ * Orderbook Depth Analysis
+ * 
+ * Walks ask/bid ladders to price a trade at its volume-weighted
+ * execution price instead of the mid.
+ */
+
+import type { OrderbookLevel, OrderbookSnapshot } from '../types';
+
+export type TradeSide = 'BUY' | 'SELL';
+
+/**
+ * Result of walking one side of a book
+ */
+export interface FillResult {
+  side: TradeSide;
+  mid_price: number;
+  vwap_price: number;
+  slippage_pct: number;      // vs mid, positive = worse than mid
+  filled_contracts: number;
+  filled_usd: number;
+  levels_consumed: number;
+  fully_filled: boolean;
+}
+
+/**
+ * Walk the book for a trade.
+ * 
+ * BUY consumes asks (cheapest first), SELL consumes bids (highest first).
+ * The target is either a USD notional or a number of contracts.
+ * 
+ * When the snapshot has no ladder for that side, the trade is priced at
+ * the mid and reported as not fully filled (depth unknown).
+ */
+export function walkBook(
+  book: Pick<OrderbookSnapshot, 'mid_price' | 'bids' | 'asks'>,
+  side: TradeSide,
+  target: { usd: number } | { contracts: number }
+): FillResult {
+  const ladder = side === 'BUY' ? book.asks : book.bids;
+  
+  if (!ladder || ladder.length === 0) {
+    const contracts = 'usd' in target
+      ? (book.mid_price > 0 ? target.usd / book.mid_price : 0)
+      : target.contracts;
+    return {
+      side,
+      mid_price: book.mid_price,
+      vwap_price: book.mid_price,
+      slippage_pct: 0,
+      filled_contracts: contracts,
+      filled_usd: contracts * book.mid_price,
+      levels_consumed: 0,
+      fully_filled: false,
+    };
+  }
+  
+  const levels = sortLevels(ladder, side);
+  let remaining = 'usd' in target ? target.usd : target.contracts;
+  let filledContracts = 0;
+  let filledUsd = 0;
+  let levelsConsumed = 0;
+  
+  for (const level of levels) {
+    if (remaining <= 1e-9) break;
+    if (level.size <= 0 || level.price <= 0) continue;
+    
+    const levelContracts = 'usd' in target
+      ? Math.min(level.size, remaining / level.price)
+      : Math.min(level.size, remaining);
+    
+    filledContracts += levelContracts;
+    filledUsd += levelContracts * level.price;
+    remaining -= 'usd' in target ? levelContracts * level.price : levelContracts;
+    levelsConsumed++;
+  }
+  
+  const vwap = filledContracts > 0 ? filledUsd / filledContracts : book.mid_price;
+  
+  return {
+    side,
+    mid_price: book.mid_price,
+    vwap_price: vwap,
+    slippage_pct: computeSlippagePct(vwap, book.mid_price, side),
+    filled_contracts: filledContracts,
+    filled_usd: filledUsd,
+    levels_consumed: levelsConsumed,
+    fully_filled: remaining <= 1e-9,
+  };
+}
+
+/**
+ * Slippage vs mid as a percentage, signed so positive means a worse fill
+ */
+export function computeSlippagePct(vwap: number, mid: number, side: TradeSide): number {
+  if (mid <= 0) return 0;
+  const diff = side === 'BUY' ? vwap - mid : mid - vwap;
+  return (diff / mid) * 100;
+}
+
+function sortLevels(levels: OrderbookLevel[], side: TradeSide): OrderbookLevel[] {
+  return [...levels].sort((a, b) => side === 'BUY' ? a.price - b.price : b.price - a.price);
+}
+
+/**
+ * Fill in single-level ladders for a snapshot that only carries
+ * aggregate depth (e.g. orderbook history): all bid depth at the best
+ * bid, all ask depth at the best ask. Snapshots with ladders pass
+ * through unchanged.
+ */
+export function withTopOfBookLadders<T extends Pick<OrderbookSnapshot, 'mid_price' | 'spread' | 'bid_depth' | 'ask_depth' | 'bids' | 'asks'>>(
+  snapshot: T
+): T {
+  const halfSpread = snapshot.spread / 2;
+  return {
+    ...snapshot,
+    bids: snapshot.bids?.length ? snapshot.bids : [{ price: snapshot.mid_price - halfSpread, size: snapshot.bid_depth }],
+    asks: snapshot.asks?.length ? snapshot.asks : [{ price: snapshot.mid_price + halfSpread, size: snapshot.ask_depth }],
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Fee-Adjusted Cross-Venue Arbitrage at Mid Prices
+ * 
+ * Buy-low/sell-high between Kalshi and Polymarket priced at the mids,
+ * with fees from replay-fee-oracle. Used where only mid prices are
+ * available (scans, historical snapshots).
+ */
+
+import { getOracle } from 'replay-fee-oracle';
+import type { Venue } from '../types';
+
+export interface MidPriceArbAnalysis {
+  buy_venue: Venue;
+  sell_venue: Venue;
+  gross_spread_pct: number;
+  gross_profit_usd: number;
+  total_fees_usd: number;
+  net_profit_usd: number;
+  net_profit_pct: number;
+  is_profitable: boolean;
+}
+
+/**
+ * Gross spread % between two mids, relative to the cheaper one
+ */
+export function midSpreadPct(kalshiPrice: number, polymarketPrice: number): number {
+  const buyPrice = Math.min(kalshiPrice, polymarketPrice);
+  return buyPrice > 0 ? (Math.abs(kalshiPrice - polymarketPrice) / buyPrice) * 100 : 0;
+}
+
+/**
+ * Price a buy-low/sell-high trade of sizeUsd at the two mids, fee-adjusted
+ */
+export async function analyzeMidPriceArb(
+  kalshiPrice: number,
+  polymarketPrice: number,
+  sizeUsd: number,
+  minNetProfitPct: number
+): Promise<MidPriceArbAnalysis> {
+  const buyVenue: Venue = kalshiPrice < polymarketPrice ? 'KALSHI' : 'POLYMARKET';
+  const sellVenue: Venue = buyVenue === 'KALSHI' ? 'POLYMARKET' : 'KALSHI';
+  const buyPrice = Math.min(kalshiPrice, polymarketPrice);
+  const sellPrice = Math.max(kalshiPrice, polymarketPrice);
+  const grossSpreadPct = midSpreadPct(kalshiPrice, polymarketPrice);
+  const grossProfitUsd = sizeUsd * grossSpreadPct / 100;
+  
+  const oracle = getOracle();
+  const analysis = await oracle.analyzeArbitrage(
+    [
+      { venue: 'KALSHI', direction: buyVenue === 'KALSHI' ? 'BUY' : 'SELL', size_usd: sizeUsd, price: buyVenue === 'KALSHI' ? buyPrice : sellPrice },
+      { venue: 'POLYMARKET', direction: buyVenue === 'POLYMARKET' ? 'BUY' : 'SELL', size_usd: sizeUsd, price: buyVenue === 'POLYMARKET' ? buyPrice : sellPrice },
+    ],
+    grossProfitUsd,
+    minNetProfitPct
+  );
+  
+  return {
+    buy_venue: buyVenue,
+    sell_venue: sellVenue,
+    gross_spread_pct: grossSpreadPct,
+    gross_profit_usd: grossProfitUsd,
+    total_fees_usd: analysis.total_fees_usd,
+    net_profit_usd: analysis.net_profit_usd,
+    net_profit_pct: analysis.net_profit_pct,
+    is_profitable: analysis.is_profitable,
+  };
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import type { MarketCategory, SpreadDataPoint } from '../types';
+import {
+  DEFAULT_HYPOTHESIS_PARAMS,
+  runAllHypotheses,
+  testH1Overnight,
+  testH3Compression,
+  testH5Category,
+} from './hypotheses';
+import { benjaminiHochberg, createRng, mannWhitneyU, median, proportionZTest } from './statistics';
+
+/**
+ * Hourly UTC points for one market: 100bps plus `overnightBump` from
+ * 00:00 to 05:59, with seeded noise
+ */
+function spreadData(marketId: string, seed: number, days: number, overnightBump: number): SpreadDataPoint[] {
+  const rng = createRng(seed);
+  const points: SpreadDataPoint[] = [];
+  for (let i = 0; i < days * 24; i++) {
+    const ts = new Date(Date.UTC(2024, 0, 1) + i * 3600000);
+    const hour = ts.getUTCHours();
+    const noise = (rng() + rng() + rng() - 1.5) * 80;
+    points.push({
+      timestamp: ts.toISOString(),
+      market_id: marketId,
+      spread_bps: 100 + (hour < 6 ? overnightBump : 0) + noise,
+      mid_price: 0.5,
+      bid_depth: 100,
+      ask_depth: 100,
+      hour_of_day: hour,
+      day_of_week: ts.getUTCDay(),
+      is_weekend: ts.getUTCDay() === 0 || ts.getUTCDay() === 6,
+    });
+  }
+  return points;
+}
+
+const params = { ...DEFAULT_HYPOTHESIS_PARAMS, h1_min_pct_wider: 0 };
+
+/**
+ * Each category's overnight / business-hours-median ratios against all
+ * other categories', as H5 compares them
+ */
+function categoryPValues(data: SpreadDataPoint[], categories: Map<string, MarketCategory>): number[] {
+  const ratios = new Map<MarketCategory, number[]>();
+  for (const marketId of new Set(data.map(p => p.market_id))) {
+    const points = data.filter(p => p.market_id === marketId);
+    const base = median(points.filter(p => p.hour_of_day >= 9 && p.hour_of_day < 17).map(p => p.spread_bps));
+    const category = categories.get(marketId)!;
+    ratios.set(category, [
+      ...(ratios.get(category) ?? []),
+      ...points.filter(p => p.hour_of_day < 6).map(p => p.spread_bps / base),
+    ]);
+  }
+  return [...ratios.keys()].map(c =>
+    mannWhitneyU(ratios.get(c)!, [...ratios].filter(([other]) => other !== c).flatMap(([, r]) => r)).p_value
+  );
+}
+
+describe('runAllHypotheses', () => {
+  it('builds conclusions from the BH-adjusted p', () => {
+    // Marginal overnight effect: raw p ~0.026, adjusted ~0.13
+    const data = spreadData('M', 5, 6, 12);
+    const alone = testH1Overnight(data, params);
+    const h1 = runAllHypotheses(data, new Map([['M', 'other']]), params).find(r => r.id === 'H1')!;
+
+    expect(alone.is_significant).toBe(true);
+    expect(alone.conclusion).toMatch(/ SUPPORTED/);
+    expect(alone.conclusion).not.toMatch(/NOT SUPPORTED/);
+
+    expect(h1.p_value).toBe(alone.p_value);
+    expect(h1.p_value_adjusted!).toBeGreaterThan(0.05);
+    expect(h1.is_significant).toBe(false);
+    expect(h1.conclusion).toMatch(/NOT SUPPORTED .*BH-adjusted p=0\.1\d\d/);
+  });
+
+  it('agrees with is_significant on every conclusion', () => {
+    const data = [...spreadData('A', 1, 14, 80), ...spreadData('B', 2, 14, 0)];
+    const categories = new Map([['A', 'sports' as const], ['B', 'politics' as const]]);
+
+    for (const result of runAllHypotheses(data, categories, params)) {
+      const supported = /SUPPORTED/.test(result.conclusion) && !/NOT SUPPORTED|NOT TESTABLE/.test(result.conclusion);
+      if (supported) expect(result.is_significant).toBe(true);
+      expect(result.is_significant).toBe((result.p_value_adjusted ?? 1) < 0.05);
+    }
+  });
+});
+
+describe('testH5Category', () => {
+  const data = [...spreadData('A', 1, 14, 80), ...spreadData('B', 2, 14, 0)];
+  const categories = new Map([['A', 'sports' as const], ['B', 'politics' as const]]);
+
+  it('reports the raw minimum p and corrects it once', () => {
+    const alone = testH5Category(data, categories);
+    const inFamily = runAllHypotheses(data, categories, params).find(r => r.id === 'H5')!;
+
+    expect(alone.is_significant).toBe(true);
+    expect(inFamily.p_value).toBe(alone.p_value);
+    expect(alone.p_value_adjusted!).toBeGreaterThanOrEqual(alone.p_value);
+    // Never BH applied on top of BH
+    expect(inFamily.p_value_adjusted!).toBeLessThanOrEqual(alone.p_value * 5);
+  });
+
+  it('counts two categories as one comparison', () => {
+    const family = runAllHypotheses(data, categories, params);
+    const h5 = family.find(r => r.id === 'H5')!;
+    expect(family.map(r => r.id)).toEqual(['H1', 'H2', 'H3', 'H4', 'H5']);
+
+    // A vs B and B vs A are the same test - one p-value, so nothing to correct alone
+    expect(testH5Category(data, categories).p_value_adjusted).toBe(h5.p_value);
+    // The family is H1-H4 plus that one p-value
+    expect(family.map(r => r.p_value_adjusted)).toEqual(benjaminiHochberg(family.map(r => r.p_value)));
+  });
+
+  it('enters one p-value per category with three or more', () => {
+    const three = [...data, ...spreadData('C', 3, 14, 30)];
+    const threeCategories = new Map([...categories, ['C', 'crypto' as const]]);
+    const pValues = categoryPValues(three, threeCategories);
+    const family = runAllHypotheses(three, threeCategories, params);
+    const others = family.filter(r => r.id !== 'H5').map(r => r.p_value);
+
+    expect(pValues).toHaveLength(3);
+    expect(testH5Category(three, threeCategories).p_value_adjusted).toBeCloseTo(Math.min(...benjaminiHochberg(pValues)), 12);
+    expect(family.find(r => r.id === 'H5')!.p_value_adjusted).toBeCloseTo(
+      Math.min(...benjaminiHochberg([...others, ...pValues]).slice(4)),
+      12
+    );
+  });
+
+  it('is not testable with a single category and enters no p-value', () => {
+    const one = new Map([['A', 'sports' as const], ['B', 'sports' as const]]);
+    const family = runAllHypotheses(data, one, params);
+    const h5 = family.find(r => r.id === 'H5')!;
+
+    expect(h5.conclusion).toMatch(/^NOT TESTABLE/);
+    expect(h5.p_value_adjusted).toBe(1);
+    expect(family.find(r => r.id === 'H1')!.p_value_adjusted).toBe(
+      benjaminiHochberg(family.filter(r => r.id !== 'H5').map(r => r.p_value))[0]
+    );
+  });
+});
+
+describe('testH3Compression', () => {
+  /**
+   * Hourly points, 300bps from 00:00 to 05:59 and 100bps otherwise, so
+   * each day has six thin hours whose 8h exits have all compressed
+   */
+  function thinEpisodes(days: number): SpreadDataPoint[] {
+    return spreadData('M', 1, days, 0).map(p => ({ ...p, spread_bps: p.hour_of_day < 6 ? 300 : 100 }));
+  }
+
+  it('counts one entry per non-overlapping horizon', () => {
+    const result = testH3Compression(thinEpisodes(10));
+
+    // 00:00 each day; 01:00-05:00 fall inside its 8h window
+    expect(result.conclusion).toMatch(/^100% of 10 non-overlapping thin windows compressed/);
+    expect(result.statistic).toBeCloseTo(proportionZTest(10, 10, 0.5, 'greater').statistic, 12);
+  });
+
+  it('keeps every entry once they are a horizon apart', () => {
+    const result = testH3Compression(thinEpisodes(10), { ...DEFAULT_HYPOTHESIS_PARAMS, h3_horizon_hours: 1 });
+
+    // 1h exits only compress from 05:00, but all 60 thin hours are counted
+    expect(result.conclusion).toMatch(/^17% of 60 non-overlapping thin windows/);
+  });
+});
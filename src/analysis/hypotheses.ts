@@ -0,0 +1,467 @@
+/**
+ * Hypothesis Tests H1-H5
+ * 
+ * Runs the liquidity timing hypotheses from LIQUIDITY_TIMING_PLAN.md
+ * against SpreadDataPoint history and returns HypothesisResults.
+ * 
+ * H1: Spreads wider overnight (0-6 local) than business hours (9-17 local)
+ * H2: Spreads wider on weekends
+ * H3: Thin windows (> p75) compress within 8h
+ * H4: Thin windows are followed by larger price drift
+ * H5: The overnight effect differs by category
+ * 
+ * Each test builds its statistics first and its verdict (significance
+ * and SUPPORTED / NOT SUPPORTED) from whichever p decides it: the raw p
+ * when run alone, the BH-adjusted p when run as a family.
+ */
+
+import type { HypothesisResult, MarketCategory, SpreadDataPoint } from '../types';
+import {
+  benjaminiHochberg,
+  bootstrapCI,
+  cohensD,
+  mannWhitneyU,
+  mean,
+  median,
+  proportionZTest,
+  quantile,
+  welchTTest,
+} from './statistics';
+
+const ALPHA = 0.05;
+
+export interface HypothesisParams {
+  h1_min_pct_wider: number;       // Overnight median vs business hours
+  h2_min_pct_wider: number;       // Weekend median vs weekday
+  h3_horizon_hours: number;       // How long after entry to measure
+  h3_min_compression_pct: number; // Compression counted as "compressed"
+  h3_min_rate: number;            // Share of windows that must compress
+  h4_min_pct_higher: number;      // Drift after thin vs baseline
+  thin_percentile: number;        // Entry threshold for H3/H4
+  bootstrap_iterations: number;
+}
+
+export const DEFAULT_HYPOTHESIS_PARAMS: HypothesisParams = {
+  h1_min_pct_wider: 20,
+  h2_min_pct_wider: 15,
+  h3_horizon_hours: 8,
+  h3_min_compression_pct: 30,
+  h3_min_rate: 0.6,
+  h4_min_pct_higher: 25,
+  thin_percentile: 0.75,
+  bootstrap_iterations: 1000,
+};
+
+function isOvernight(p: SpreadDataPoint): boolean {
+  return p.hour_of_day >= 0 && p.hour_of_day < 6;
+}
+
+function isBusinessHours(p: SpreadDataPoint): boolean {
+  return p.hour_of_day >= 9 && p.hour_of_day < 17;
+}
+
+function pctDiff(a: number, b: number): number {
+  return b > 0 ? ((a - b) / b) * 100 : 0;
+}
+
+type Verdict = Pick<HypothesisResult, 'is_significant' | 'conclusion'>;
+
+/**
+ * A test's statistics before its verdict. `p_values` are the raw
+ * p-values it contributes to a BH family (one per test, one per
+ * category comparison for H5).
+ */
+interface HypothesisDraft {
+  result: Omit<HypothesisResult, 'is_significant' | 'conclusion'>;
+  p_values: number[];
+  verdict: (p: number, adjusted: boolean) => Verdict;
+}
+
+function finalize(draft: HypothesisDraft, pAdjusted?: number): HypothesisResult {
+  const verdict = pAdjusted === undefined
+    ? draft.verdict(draft.result.p_value, false)
+    : draft.verdict(pAdjusted, true);
+  return {
+    ...draft.result,
+    ...(pAdjusted === undefined ? {} : { p_value_adjusted: pAdjusted }),
+    ...verdict,
+  };
+}
+
+function formatP(p: number, adjusted: boolean): string {
+  return `${adjusted ? 'BH-adjusted p' : 'p'}=${p.toFixed(3)}`;
+}
+
+/**
+ * Two-group "A is wider than B" test shared by H1 and H2.
+ * Welch's t-test for significance, Cohen's d for effect size and a
+ * bootstrap CI on the median difference.
+ */
+function compareWider(
+  id: string,
+  description: string,
+  labelA: string,
+  labelB: string,
+  a: number[],
+  b: number[],
+  minPctWider: number,
+  iterations: number
+): HypothesisDraft {
+  const test = welchTTest(a, b, 'greater');
+  const medianA = median(a);
+  const medianB = median(b);
+  const diffPct = pctDiff(medianA, medianB);
+  const ci = bootstrapCI(a, b, (x, y) => median(x) - median(y), { iterations });
+  
+  return {
+    result: {
+      id,
+      description,
+      test_type: 't-test',
+      group_a: labelA,
+      group_b: labelB,
+      statistic: test.statistic,
+      p_value: test.p_value,
+      effect_size: cohensD(a, b),
+      confidence_interval: { lower: ci.lower, upper: ci.upper, confidence: 0.95 },
+    },
+    p_values: [test.p_value],
+    verdict: (p, adjusted) => {
+      const isSignificant = p < ALPHA;
+      const supported = isSignificant && diffPct >= minPctWider;
+      return {
+        is_significant: isSignificant,
+        conclusion: `${labelA} median ${medianA.toFixed(0)}bps vs ${labelB} ${medianB.toFixed(0)}bps (${diffPct >= 0 ? '+' : ''}${diffPct.toFixed(0)}%). ` +
+          (supported ? `SUPPORTED (threshold: >=${minPctWider}%)` : `NOT SUPPORTED (threshold: >=${minPctWider}%, ${formatP(p, adjusted)})`),
+      };
+    },
+  };
+}
+
+/**
+ * H1: Overnight spreads wider than business hours
+ */
+export function testH1Overnight(
+  data: SpreadDataPoint[],
+  params: HypothesisParams = DEFAULT_HYPOTHESIS_PARAMS
+): HypothesisResult {
+  return finalize(h1Draft(data, params));
+}
+
+function h1Draft(data: SpreadDataPoint[], params: HypothesisParams): HypothesisDraft {
+  return compareWider(
+    'H1',
+    'Spreads are wider overnight (0-6 local) than during business hours (9-17 local)',
+    'overnight',
+    'business_hours',
+    data.filter(isOvernight).map(p => p.spread_bps),
+    data.filter(isBusinessHours).map(p => p.spread_bps),
+    params.h1_min_pct_wider,
+    params.bootstrap_iterations
+  );
+}
+
+/**
+ * H2: Weekend spreads wider than weekdays
+ */
+export function testH2Weekend(
+  data: SpreadDataPoint[],
+  params: HypothesisParams = DEFAULT_HYPOTHESIS_PARAMS
+): HypothesisResult {
+  return finalize(h2Draft(data, params));
+}
+
+function h2Draft(data: SpreadDataPoint[], params: HypothesisParams): HypothesisDraft {
+  return compareWider(
+    'H2',
+    'Spreads are wider on weekends than weekdays',
+    'weekend',
+    'weekday',
+    data.filter(p => p.is_weekend).map(p => p.spread_bps),
+    data.filter(p => !p.is_weekend).map(p => p.spread_bps),
+    params.h2_min_pct_wider,
+    params.bootstrap_iterations
+  );
+}
+
+/**
+ * Entry/exit pairs: every point, matched to the same market's point
+ * closest to `horizonHours` later (within half an hour).
+ */
+interface ForwardPair {
+  entry: SpreadDataPoint;
+  exit: SpreadDataPoint;
+  is_thin: boolean;
+}
+
+function buildForwardPairs(
+  data: SpreadDataPoint[],
+  horizonHours: number,
+  thinPercentile: number
+): ForwardPair[] {
+  const byMarket = new Map<string, SpreadDataPoint[]>();
+  for (const p of data) {
+    if (!byMarket.has(p.market_id)) byMarket.set(p.market_id, []);
+    byMarket.get(p.market_id)!.push(p);
+  }
+  
+  const horizonMs = horizonHours * 3600000;
+  const toleranceMs = 30 * 60000;
+  const pairs: ForwardPair[] = [];
+  
+  for (const points of byMarket.values()) {
+    points.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    const times = points.map(p => Date.parse(p.timestamp));
+    const thinThreshold = quantile(points.map(p => p.spread_bps), thinPercentile);
+    
+    let j = 0;
+    for (let i = 0; i < points.length; i++) {
+      const target = times[i]! + horizonMs;
+      while (j < points.length - 1 && times[j]! < target) j++;
+      
+      const candidates = [j - 1, j].filter(k => k > i && k < points.length);
+      let exitIdx = -1;
+      let bestGap = Infinity;
+      for (const k of candidates) {
+        const gap = Math.abs(times[k]! - target);
+        if (gap < bestGap) {
+          bestGap = gap;
+          exitIdx = k;
+        }
+      }
+      if (exitIdx < 0 || bestGap > toleranceMs) continue;
+      
+      pairs.push({
+        entry: points[i]!,
+        exit: points[exitIdx]!,
+        is_thin: points[i]!.spread_bps > thinThreshold,
+      });
+    }
+  }
+  
+  return pairs;
+}
+
+/**
+ * Greedy per-market subsample of forward pairs (oldest first, as built)
+ * whose windows don't overlap: each kept entry is at least one horizon
+ * after, and no earlier than the exit of, the previous one kept
+ */
+function nonOverlapping(pairs: ForwardPair[], horizonHours: number): ForwardPair[] {
+  const horizonMs = horizonHours * 3600000;
+  const nextEntry = new Map<string, number>();
+  
+  return pairs.filter(p => {
+    const entry = Date.parse(p.entry.timestamp);
+    if (entry < (nextEntry.get(p.entry.market_id) ?? -Infinity)) return false;
+    nextEntry.set(p.entry.market_id, Math.max(entry + horizonMs, Date.parse(p.exit.timestamp)));
+    return true;
+  });
+}
+
+/**
+ * H3: Thin windows compress within the horizon.
+ * 
+ * Consecutive thin hours share most of their forward window, so only
+ * non-overlapping entries count - otherwise one episode is tested as
+ * several independent trials.
+ */
+export function testH3Compression(
+  data: SpreadDataPoint[],
+  params: HypothesisParams = DEFAULT_HYPOTHESIS_PARAMS
+): HypothesisResult {
+  return finalize(h3Draft(data, params));
+}
+
+function h3Draft(data: SpreadDataPoint[], params: HypothesisParams): HypothesisDraft {
+  const thin = nonOverlapping(
+    buildForwardPairs(data, params.h3_horizon_hours, params.thin_percentile).filter(p => p.is_thin),
+    params.h3_horizon_hours
+  );
+  const compressions = thin.map(p =>
+    p.entry.spread_bps > 0 ? ((p.entry.spread_bps - p.exit.spread_bps) / p.entry.spread_bps) * 100 : 0
+  );
+  const compressed = compressions.filter(c => c >= params.h3_min_compression_pct).length;
+  const rate = thin.length > 0 ? compressed / thin.length : 0;
+  
+  // Is compression more likely than not?
+  const test = proportionZTest(compressed, thin.length, 0.5, 'greater');
+  
+  return {
+    result: {
+      id: 'H3',
+      description: `Thin windows (>p${params.thin_percentile * 100}) compress >=${params.h3_min_compression_pct}% within ${params.h3_horizon_hours}h`,
+      test_type: 'comparison',
+      group_a: 'thin_entry',
+      group_b: `exit_${params.h3_horizon_hours}h`,
+      statistic: test.statistic,
+      p_value: test.p_value,
+      effect_size: mean(compressions),
+    },
+    p_values: [test.p_value],
+    verdict: (p, adjusted) => {
+      const isSignificant = p < ALPHA;
+      const supported = isSignificant && rate >= params.h3_min_rate;
+      return {
+        is_significant: isSignificant,
+        conclusion: `${(rate * 100).toFixed(0)}% of ${thin.length} non-overlapping thin windows compressed >=${params.h3_min_compression_pct}% ` +
+          `(avg compression ${mean(compressions).toFixed(0)}%). ` +
+          (supported ? `SUPPORTED (threshold: >=${params.h3_min_rate * 100}%)` : `NOT SUPPORTED (threshold: >=${params.h3_min_rate * 100}%, ${formatP(p, adjusted)})`),
+      };
+    },
+  };
+}
+
+/**
+ * H4: Thin windows are followed by larger price drift than baseline
+ */
+export function testH4Drift(
+  data: SpreadDataPoint[],
+  params: HypothesisParams = DEFAULT_HYPOTHESIS_PARAMS
+): HypothesisResult {
+  return finalize(h4Draft(data, params));
+}
+
+function h4Draft(data: SpreadDataPoint[], params: HypothesisParams): HypothesisDraft {
+  const pairs = buildForwardPairs(data, params.h3_horizon_hours, params.thin_percentile);
+  const drift = (p: ForwardPair) => Math.abs(p.exit.mid_price - p.entry.mid_price) * 100;
+  const thinDrift = pairs.filter(p => p.is_thin).map(drift);
+  const baselineDrift = pairs.filter(p => !p.is_thin).map(drift);
+  
+  const test = mannWhitneyU(thinDrift, baselineDrift, 'greater');
+  const diffPct = pctDiff(mean(thinDrift), mean(baselineDrift));
+  
+  return {
+    result: {
+      id: 'H4',
+      description: `Thin windows are followed by larger ${params.h3_horizon_hours}h price drift`,
+      test_type: 'comparison',
+      group_a: 'after_thin',
+      group_b: 'baseline',
+      statistic: test.statistic,
+      p_value: test.p_value,
+      effect_size: test.effect_size,
+    },
+    p_values: [test.p_value],
+    verdict: (p, adjusted) => {
+      const isSignificant = p < ALPHA;
+      const supported = isSignificant && diffPct >= params.h4_min_pct_higher;
+      return {
+        is_significant: isSignificant,
+        conclusion: `Avg |drift| after thin ${mean(thinDrift).toFixed(2)}pp vs baseline ${mean(baselineDrift).toFixed(2)}pp ` +
+          `(${diffPct >= 0 ? '+' : ''}${diffPct.toFixed(0)}%). ` +
+          (supported ? `SUPPORTED (threshold: >=${params.h4_min_pct_higher}%)` : `NOT SUPPORTED (threshold: >=${params.h4_min_pct_higher}%, ${formatP(p, adjusted)})`),
+      };
+    },
+  };
+}
+
+/**
+ * H5: The overnight effect differs by category.
+ * 
+ * Each overnight point is normalized by its market's business-hours
+ * median, then each category's ratios are compared against all other
+ * categories (Mann-Whitney) - a single comparison when there are only
+ * two, none with one. p_value is the smallest raw p; the adjusted p is
+ * BH-corrected across the comparisons, or across them and H1-H4
+ * together when run as a family (never corrected twice).
+ */
+export function testH5Category(
+  data: SpreadDataPoint[],
+  marketCategories: Map<string, MarketCategory>
+): HypothesisResult {
+  const draft = h5Draft(data, marketCategories);
+  const adjusted = benjaminiHochberg(draft.p_values);
+  return finalize(draft, adjusted.length > 0 ? Math.min(...adjusted) : 1);
+}
+
+function h5Draft(data: SpreadDataPoint[], marketCategories: Map<string, MarketCategory>): HypothesisDraft {
+  const businessMedian = new Map<string, number>();
+  const byMarket = new Map<string, number[]>();
+  for (const p of data.filter(isBusinessHours)) {
+    if (!byMarket.has(p.market_id)) byMarket.set(p.market_id, []);
+    byMarket.get(p.market_id)!.push(p.spread_bps);
+  }
+  for (const [marketId, spreads] of byMarket) {
+    businessMedian.set(marketId, median(spreads));
+  }
+  
+  const ratiosByCategory = new Map<MarketCategory, number[]>();
+  for (const p of data.filter(isOvernight)) {
+    const base = businessMedian.get(p.market_id);
+    if (!base) continue;
+    const category = marketCategories.get(p.market_id) ?? 'other';
+    if (!ratiosByCategory.has(category)) ratiosByCategory.set(category, []);
+    ratiosByCategory.get(category)!.push(p.spread_bps / base);
+  }
+  
+  const categories = [...ratiosByCategory.keys()];
+  const tests = categories.map(category => {
+    const inside = ratiosByCategory.get(category) ?? [];
+    const outside = categories.filter(c => c !== category).flatMap(c => ratiosByCategory.get(c) ?? []);
+    return { category, test: mannWhitneyU(inside, outside), premium: (median(inside) - 1) * 100 };
+  });
+  
+  // With two categories, each vs the rest is the same comparison - count it once
+  const comparisons = tests.length < 2 ? [] : tests.length === 2 ? tests.slice(0, 1) : tests;
+  
+  // BH preserves the order of raw p-values, so the smallest raw p is
+  // also the smallest adjusted one
+  const bestIdx = comparisons.reduce((best, t, i) => t.test.p_value < (comparisons[best]?.test.p_value ?? 1) ? i : best, 0);
+  const best = comparisons[bestIdx];
+  
+  const breakdown = tests
+    .map(t => `${t.category}: overnight ${t.premium >= 0 ? '+' : ''}${t.premium.toFixed(0)}%`)
+    .join(', ');
+  
+  return {
+    result: {
+      id: 'H5',
+      description: 'The overnight spread effect varies by market category',
+      test_type: 'comparison',
+      group_a: best?.category ?? 'none',
+      group_b: 'other_categories',
+      statistic: best?.test.z ?? 0,
+      p_value: best?.test.p_value ?? 1,
+      effect_size: best?.test.effect_size,
+    },
+    p_values: comparisons.map(t => t.test.p_value),
+    verdict: (p, adjusted) => {
+      const isSignificant = tests.length >= 2 && p < ALPHA;
+      return {
+        is_significant: isSignificant,
+        conclusion: tests.length < 2
+          ? 'NOT TESTABLE: need at least two categories with overnight data'
+          : `${breakdown}. ${isSignificant ? `SUPPORTED (${best?.category} differs, ${formatP(p, adjusted)})` : `NOT SUPPORTED (no category differs${adjusted ? ' after BH correction' : ''})`}`,
+      };
+    },
+  };
+}
+
+/**
+ * Run H1-H5 as a family, with Benjamini-Hochberg adjusted significance
+ * and conclusions. H5 enters with one p-value per category comparison;
+ * its adjusted p is the smallest of theirs.
+ */
+export function runAllHypotheses(
+  data: SpreadDataPoint[],
+  marketCategories: Map<string, MarketCategory>,
+  params: Partial<HypothesisParams> = {}
+): HypothesisResult[] {
+  const p = { ...DEFAULT_HYPOTHESIS_PARAMS, ...params };
+  const drafts = [
+    h1Draft(data, p),
+    h2Draft(data, p),
+    h3Draft(data, p),
+    h4Draft(data, p),
+    h5Draft(data, marketCategories),
+  ];
+  
+  const adjusted = benjaminiHochberg(drafts.flatMap(d => d.p_values));
+  let offset = 0;
+  return drafts.map(draft => {
+    const own = adjusted.slice(offset, offset + draft.p_values.length);
+    offset += draft.p_values.length;
+    return finalize(draft, own.length > 0 ? Math.min(...own) : 1);
+  });
+}
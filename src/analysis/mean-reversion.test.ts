@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { expectedCompression, fitMeanReversion } from './mean-reversion';
+import { createRng } from './statistics';
+
+/**
+ * 30 days of hourly AR(1) log spreads around 2%, rounded to 0.5% so many
+ * points sit exactly at the median
+ */
+function tickedHistory(): { timestamp: string; spread_pct: number }[] {
+  const rng = createRng(9);
+  const data: { timestamp: string; spread_pct: number }[] = [];
+  let x = 0;
+  for (let i = 0; i < 24 * 30; i++) {
+    x = 0.8 * x + 0.3 * (rng() + rng() + rng() - 1.5);
+    data.push({ timestamp: new Date(Date.UTC(2025, 0, 1) + i * 3600000).toISOString(), spread_pct: Math.round(4 * Math.exp(x)) / 2 });
+  }
+  return data;
+}
+
+describe('expectedCompression', () => {
+  const model = fitMeanReversion(tickedHistory());
+
+  it('compares a barely wide spread only with points above normal', () => {
+    expect(model.normal_spread_pct).toBe(2);
+
+    for (const spread of [2.02, 2.2, 2.5]) {
+      const result = expectedCompression(model, spread);
+      expect(result.is_wide).toBe(true);
+      expect(result.method).toBe('empirical');
+      expect(result.hours_to_normal).toBeGreaterThan(0);
+      expect(result.survival[0]!.probability_wide).toBeGreaterThan(0.5);
+    }
+  });
+
+  it('takes longer to normalize from wider spreads', () => {
+    expect(expectedCompression(model, 5).hours_to_normal)
+      .toBeGreaterThanOrEqual(expectedCompression(model, 2.5).hours_to_normal);
+  });
+
+  it('reports 0 hours for a spread at or below normal', () => {
+    const result = expectedCompression(model, 1.5);
+    expect(result.is_wide).toBe(false);
+    expect(result.hours_to_normal).toBe(0);
+    expect(result.latest_spread_pct).toBe(1.5);
+  });
+});
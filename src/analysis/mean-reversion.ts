@@ -0,0 +1,387 @@
+/**
+ * Spread Mean-Reversion Modeling
+ * 
+ * Estimates how long a wide spread is likely to persist and how much it
+ * is likely to compress (the plan's H3 / `expected_compression`):
+ * - Empirical: for every historical point, hours until spread next fell
+ *   to the market's normal level (median), right-censored at data gaps
+ *   and the end of history. Points above normal whose spread was
+ *   closest to the current spread form a Kaplan-Meier survival curve;
+ *   hours_to_normal is its median.
+ * - Ornstein-Uhlenbeck: AR(1) fit on log spread between consecutive
+ *   points, giving a half-life. Used when too few comparable points
+ *   reached normal to read the survival median.
+ * 
+ * compression_pct is the expected % reduction from the current spread
+ * over `horizon_hours` (negative = expected to widen).
+ */
+
+import type { SpreadDataPoint } from '../types';
+import { median, quantile } from './statistics';
+
+const HOUR_MS = 3600000;
+
+export interface MeanReversionParams {
+  normal_quantile: number;             // "Normal" spread level (0.5 = median)
+  horizon_hours: number;               // Compression horizon (H3 uses 8h)
+  max_gap_hours: number;               // Larger gaps end (censor) an episode
+  neighbors: number;                   // Comparable points used for the current spread
+  min_events: number;                  // Uncensored neighbors needed for the empirical estimate
+  normal_band_pct: number;             // OU: "normal" once within this % of the normal level
+  max_horizon_hours: number;           // Cap on hours_to_normal
+  survival_hours: number[];            // Points reported on the survival curve
+  confidence_k: number;                // confidence = n / (n + k)
+}
+
+export const DEFAULT_MEAN_REVERSION_PARAMS: MeanReversionParams = {
+  normal_quantile: 0.5,
+  horizon_hours: 8,
+  max_gap_hours: 3,
+  neighbors: 40,
+  min_events: 8,
+  normal_band_pct: 10,
+  max_horizon_hours: 168,
+  survival_hours: [1, 2, 4, 8, 12, 24, 48],
+  confidence_k: 10,
+};
+
+/**
+ * What happened after one historical point
+ */
+interface PointOutcome {
+  spread_pct: number;
+  hours_to_normal: number;             // Censored: hours observed without reaching normal
+  censored: boolean;
+  spread_after_horizon_pct: number | null;
+}
+
+export interface OrnsteinUhlenbeckFit {
+  phi: number;                         // AR(1) coefficient per step
+  mean_log_spread: number;
+  sigma_log: number;                   // Residual std per step
+  step_hours: number;                  // Median spacing between points
+  half_life_hours: number | null;      // null when the series does not revert (phi >= 1)
+  transitions: number;
+}
+
+export interface MeanReversionModel {
+  normal_spread_pct: number;
+  samples: number;
+  ou: OrnsteinUhlenbeckFit | null;
+  outcomes: PointOutcome[];
+  params: MeanReversionParams;
+}
+
+export interface SurvivalPoint {
+  hours: number;
+  probability_wide: number;            // P(spread still above normal after `hours`)
+}
+
+export interface ExpectedCompression {
+  latest_spread_pct: number;           // Spread being assessed (predict: latest point of the history series)
+  normal_spread_pct: number;
+  is_wide: boolean;
+  hours_to_normal: number;             // 0 when already at or below normal
+  compression_pct: number;             // Expected % reduction over horizon_hours
+  horizon_hours: number;
+  half_life_hours: number | null;
+  survival: SurvivalPoint[];           // Empty for the OU method
+  method: 'empirical' | 'ou' | 'none';
+  confidence: number;                  // 0-1, from comparable sample size
+  sample_size: number;
+}
+
+/**
+ * Spread history from SpreadDataPoints (spread_bps -> spread_pct)
+ */
+export function toSpreadSeries(data: SpreadDataPoint[]): { timestamp: string; spread_pct: number }[] {
+  return data.map(p => ({ timestamp: p.timestamp, spread_pct: p.spread_bps / 100 }));
+}
+
+/**
+ * Fit the empirical outcomes and the OU process from one market's
+ * spread history (spread_pct, as returned by getHistoricalSpreads)
+ */
+export function fitMeanReversion(
+  data: { timestamp: string; spread_pct: number }[],
+  params: Partial<MeanReversionParams> = {}
+): MeanReversionModel {
+  const p = { ...DEFAULT_MEAN_REVERSION_PARAMS, ...params };
+  const points = data
+    .filter(d => Number.isFinite(d.spread_pct) && d.spread_pct > 0)
+    .map(d => ({ ts: Date.parse(d.timestamp), spread_pct: d.spread_pct }))
+    .sort((a, b) => a.ts - b.ts);
+  
+  const normal = quantile(points.map(d => d.spread_pct), p.normal_quantile);
+  
+  return {
+    normal_spread_pct: normal,
+    samples: points.length,
+    ou: fitOrnsteinUhlenbeck(points, p.max_gap_hours),
+    outcomes: buildOutcomes(points, normal, p),
+    params: p,
+  };
+}
+
+/**
+ * Expected time-to-normal and compression for the current spread
+ */
+export function expectedCompression(model: MeanReversionModel, currentSpreadPct: number): ExpectedCompression {
+  const p = model.params;
+  const normal = model.normal_spread_pct;
+  const isWide = model.samples > 0 && currentSpreadPct > normal;
+  const base = {
+    latest_spread_pct: currentSpreadPct,
+    normal_spread_pct: normal,
+    is_wide: isWide,
+    horizon_hours: p.horizon_hours,
+    half_life_hours: model.ou?.half_life_hours ?? null,
+  };
+  
+  if (model.outcomes.length === 0 || !(currentSpreadPct > 0)) {
+    return { ...base, hours_to_normal: 0, compression_pct: 0, survival: [], method: 'none', confidence: 0, sample_size: 0 };
+  }
+  
+  // Comparable points: closest spread level on a log scale. A wide spread
+  // is only compared with points that were also above normal - points at
+  // normal "reach" it at hour 0 and would pull the survival median to 0
+  const logCurrent = Math.log(currentSpreadPct);
+  const candidates = isWide ? model.outcomes.filter(o => o.spread_pct > normal) : model.outcomes;
+  const neighbors = [...candidates]
+    .sort((a, b) => Math.abs(Math.log(a.spread_pct) - logCurrent) - Math.abs(Math.log(b.spread_pct) - logCurrent))
+    .slice(0, p.neighbors);
+  
+  const forward = neighbors.filter(o => o.spread_after_horizon_pct !== null);
+  const empiricalCompression = forward.length > 0
+    ? median(forward.map(o => (1 - o.spread_after_horizon_pct! / o.spread_pct) * 100))
+    : null;
+  
+  const events = neighbors.filter(o => !o.censored).length;
+  const survival = kaplanMeier(neighbors);
+  const survivalMedian = survival.find(s => s.probability_wide <= 0.5)?.hours;
+  
+  if (isWide && events >= p.min_events && survivalMedian !== undefined) {
+    return {
+      ...base,
+      hours_to_normal: Math.min(survivalMedian, p.max_horizon_hours),
+      compression_pct: empiricalCompression ?? ouCompression(model, currentSpreadPct) ?? 0,
+      survival: p.survival_hours.map(hours => ({ hours, probability_wide: survivalAt(survival, hours) })),
+      method: 'empirical',
+      confidence: events / (events + p.confidence_k),
+      sample_size: neighbors.length,
+    };
+  }
+  
+  if (!isWide) {
+    return {
+      ...base,
+      hours_to_normal: 0,
+      compression_pct: empiricalCompression ?? ouCompression(model, currentSpreadPct) ?? 0,
+      survival: [],
+      method: empiricalCompression !== null ? 'empirical' : model.ou ? 'ou' : 'none',
+      confidence: forward.length / (forward.length + p.confidence_k),
+      sample_size: forward.length,
+    };
+  }
+  
+  // Wide, but too few comparable points reached normal: fall back to OU
+  const ou = model.ou;
+  if (!ou) {
+    return { ...base, hours_to_normal: p.max_horizon_hours, compression_pct: empiricalCompression ?? 0, survival: [], method: 'none', confidence: 0, sample_size: neighbors.length };
+  }
+  
+  return {
+    ...base,
+    hours_to_normal: ouHoursToNormal(ou, currentSpreadPct, normal, p),
+    compression_pct: ouCompression(model, currentSpreadPct) ?? 0,
+    survival: [],
+    method: 'ou',
+    // Half weight: the OU shape is an assumption, not an observed outcome
+    confidence: 0.5 * ou.transitions / (ou.transitions + p.confidence_k),
+    sample_size: ou.transitions,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EMPIRICAL OUTCOMES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * One backward pass: for each point, the next point at or below normal
+ * and the end of its gap-free segment
+ */
+function buildOutcomes(
+  points: { ts: number; spread_pct: number }[],
+  normal: number,
+  p: MeanReversionParams
+): PointOutcome[] {
+  const maxGapMs = p.max_gap_hours * HOUR_MS;
+  const horizonMs = p.horizon_hours * HOUR_MS;
+  const outcomes: PointOutcome[] = new Array(points.length);
+  
+  let nextNormalTs: number | null = null;
+  let segmentEndTs = points[points.length - 1]?.ts ?? 0;
+  
+  for (let i = points.length - 1; i >= 0; i--) {
+    const point = points[i]!;
+    const next = points[i + 1];
+    if (next && next.ts - point.ts > maxGapMs) {
+      nextNormalTs = null;
+      segmentEndTs = point.ts;
+    }
+    
+    const atNormal = point.spread_pct <= normal;
+    const censored = !atNormal && nextNormalTs === null;
+    const reachedTs = atNormal ? point.ts : nextNormalTs ?? segmentEndTs;
+    
+    outcomes[i] = {
+      spread_pct: point.spread_pct,
+      hours_to_normal: (reachedTs - point.ts) / HOUR_MS,
+      censored,
+      spread_after_horizon_pct: point.ts + horizonMs <= segmentEndTs
+        ? spreadAt(points, i, point.ts + horizonMs)
+        : null,
+    };
+    
+    if (atNormal) nextNormalTs = point.ts;
+  }
+  
+  return outcomes;
+}
+
+/**
+ * Spread at the first point at or after `ts`, searching forward from `from`
+ */
+function spreadAt(points: { ts: number; spread_pct: number }[], from: number, ts: number): number | null {
+  for (let j = from + 1; j < points.length; j++) {
+    if (points[j]!.ts >= ts) return points[j]!.spread_pct;
+  }
+  return null;
+}
+
+/**
+ * Kaplan-Meier estimate of P(still above normal) at each event time
+ */
+function kaplanMeier(outcomes: PointOutcome[]): SurvivalPoint[] {
+  const sorted = [...outcomes].sort((a, b) => a.hours_to_normal - b.hours_to_normal);
+  const curve: SurvivalPoint[] = [];
+  let atRisk = sorted.length;
+  let survival = 1;
+  
+  for (let i = 0; i < sorted.length; ) {
+    const t = sorted[i]!.hours_to_normal;
+    let events = 0;
+    let leaving = 0;
+    while (i < sorted.length && sorted[i]!.hours_to_normal === t) {
+      if (!sorted[i]!.censored) events++;
+      leaving++;
+      i++;
+    }
+    if (events > 0 && atRisk > 0) {
+      survival *= 1 - events / atRisk;
+      curve.push({ hours: t, probability_wide: survival });
+    }
+    atRisk -= leaving;
+  }
+  
+  return curve;
+}
+
+function survivalAt(curve: SurvivalPoint[], hours: number): number {
+  let value = 1;
+  for (const point of curve) {
+    if (point.hours > hours) break;
+    value = point.probability_wide;
+  }
+  return value;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ORNSTEIN-UHLENBECK
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * AR(1) least squares on log spread between consecutive points less
+ * than `maxGapHours` apart: x[t+1] = a + phi * x[t] + e
+ */
+function fitOrnsteinUhlenbeck(
+  points: { ts: number; spread_pct: number }[],
+  maxGapHours: number
+): OrnsteinUhlenbeckFit | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const steps: number[] = [];
+  
+  for (let i = 1; i < points.length; i++) {
+    const dtHours = (points[i]!.ts - points[i - 1]!.ts) / HOUR_MS;
+    if (dtHours <= 0 || dtHours > maxGapHours) continue;
+    xs.push(Math.log(points[i - 1]!.spread_pct));
+    ys.push(Math.log(points[i]!.spread_pct));
+    steps.push(dtHours);
+  }
+  if (xs.length < 3) return null;
+  
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i]! - meanX) ** 2;
+    sxy += (xs[i]! - meanX) * (ys[i]! - meanY);
+  }
+  if (sxx === 0) return null;
+  
+  const phi = sxy / sxx;
+  const intercept = meanY - phi * meanX;
+  const residualSs = xs.reduce((sum, x, i) => sum + (ys[i]! - intercept - phi * x) ** 2, 0);
+  const stepHours = median(steps);
+  const reverts = phi > 0 && phi < 1;
+  
+  return {
+    phi,
+    mean_log_spread: reverts ? intercept / (1 - phi) : meanX,
+    sigma_log: Math.sqrt(residualSs / Math.max(1, n - 2)),
+    step_hours: stepHours,
+    half_life_hours: reverts ? (-Math.LN2 / Math.log(phi)) * stepHours : null,
+    transitions: n,
+  };
+}
+
+/**
+ * Expected log spread after `hours`: mu + (x0 - mu) * phi^(hours / step)
+ */
+function ouExpectedLog(ou: OrnsteinUhlenbeckFit, spreadPct: number, hours: number): number {
+  const x0 = Math.log(spreadPct);
+  if (ou.half_life_hours === null) return x0;
+  return ou.mean_log_spread + (x0 - ou.mean_log_spread) * ou.phi ** (hours / ou.step_hours);
+}
+
+function ouCompression(model: MeanReversionModel, spreadPct: number): number | null {
+  if (!model.ou) return null;
+  const expected = Math.exp(ouExpectedLog(model.ou, spreadPct, model.params.horizon_hours));
+  return (1 - expected / spreadPct) * 100;
+}
+
+/**
+ * Hours until the expected log spread is within normal_band_pct of the
+ * normal level, or of the OU mean if that is higher (capped at
+ * max_horizon_hours)
+ */
+function ouHoursToNormal(
+  ou: OrnsteinUhlenbeckFit,
+  spreadPct: number,
+  normal: number,
+  p: MeanReversionParams
+): number {
+  if (ou.half_life_hours === null) return p.max_horizon_hours;
+  
+  // Normal sits at or below the OU mean: measure the band from the mean instead
+  const band = Math.log(1 + p.normal_band_pct / 100);
+  const gap = Math.log(spreadPct) - ou.mean_log_spread;
+  const target = Math.max(Math.log(normal) + band - ou.mean_log_spread, band);
+  if (gap <= target) return 0;
+  
+  const steps = Math.log(target / gap) / Math.log(ou.phi);
+  return Math.min(steps * ou.step_hours, p.max_horizon_hours);
+}
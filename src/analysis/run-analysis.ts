@@ -12,6 +12,20 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { execSync } from 'child_process';
+import { getMarketPairRegistry } from '../registry/market-pairs';
+import { getLocalTimeParts, getTimezoneFor } from '../utils/time';
+import { getTimeSeriesStore } from '../store/timeseries-store';
+import { getTransport } from '../client/http';
+import { TIME_WINDOW_PARAMS, withFixtures } from '../client/fixtures';
+import {
+  kalshiBatchCandlestickSchema,
+  kalshiBatchCandlesticksResponseSchema,
+  polymarketPricesHistoryResponseSchema,
+  semanticSearchResponseSchema,
+  validateResponse,
+  type KalshiBatchCandlestick,
+} from '../client/schemas';
+import { z } from 'zod';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CONFIGURATION
@@ -21,6 +35,7 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const DEPLOYMENT_URL = 'https://replay-lab.preview.recall.network';
+const BASE_URL = process.env.REPLAY_LABS_API_URL || DEPLOYMENT_URL;
 const API_KEY = process.env.REPLAY_LABS_API_KEY || 'rn_JOMhskPDoihvsPkVTawOFLHeUfPgLLTxutXYIBMyKrIfrLChqtSFMvSsjiVdxLyj';
 
 const RESULTS_DIR = path.join(__dirname, '../../results');
@@ -30,14 +45,6 @@ const DAYS_BACK = 30;
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
-interface SemanticSearchResult {
-  venue: 'KALSHI' | 'POLYMARKET';
-  id: string;
-  question: string;
-  isOpen: boolean;
-  similarity?: number;
-}
-
 interface MarketPair {
   question: string;
   kalshi_id: string;
@@ -45,16 +52,9 @@ interface MarketPair {
   similarity: number;
 }
 
-interface KalshiCandlestick {
-  end_period_ts: number;
-  yes_bid: { close: number | null; close_dollars: string | null };
-  yes_ask: { close: number | null; close_dollars: string | null };
-  volume: number;
-}
-
 interface SpreadDataPoint {
   timestamp: Date;
-  hour: number;  // 0-23 EST
+  hour: number;  // 0-23 local (America/New_York by default)
   dayOfWeek: number;  // 0=Sun, 6=Sat
   dayName: string;
   kalshi_mid?: number;
@@ -87,7 +87,10 @@ interface DailyStats {
 // API HELPERS
 // ═══════════════════════════════════════════════════════════════════════════
 
-async function apiFetch<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
+// Windows end at the current time, so recordings are keyed without them
+const analysisTransport = withFixtures(getTransport(), { ignoreParams: TIME_WINDOW_PARAMS });
+
+async function apiFetch<S extends z.ZodTypeAny>(schema: S, endpoint: string, params?: Record<string, string>): Promise<z.infer<S>> {
   const url = new URL(endpoint, BASE_URL);
   if (params) {
     Object.entries(params).forEach(([k, v]) => url.searchParams.set(k, v));
@@ -100,14 +103,10 @@ async function apiFetch<T>(endpoint: string, params?: Record<string, string>): P
   
   console.log(`  → GET ${url.pathname}${url.search}`);
   
-  const res = await fetch(url.toString(), { headers });
-  
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`API ${res.status}: ${text}`);
-  }
-  
-  return res.json();
+  // Shared transport handles timeouts, retries and rate limiting;
+  // REPLAY_LABS_MODE=record|replay captures or replays fixtures
+  const data = await analysisTransport.requestJson<unknown>(url.toString(), { headers });
+  return validateResponse(schema, data, { endpoint: `GET ${url.pathname}` });
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -138,7 +137,8 @@ async function findMatchingMarkets(): Promise<MarketPair[]> {
     console.log(`\nSearching: "${query}"`);
     
     try {
-      const results = await apiFetch<SemanticSearchResult[]>(
+      const results = await apiFetch(
+        semanticSearchResponseSchema,
         '/api/markets/semantic-search',
         { q: query, limit: '10' }
       );
@@ -166,9 +166,6 @@ async function findMatchingMarkets(): Promise<MarketPair[]> {
     } catch (err: any) {
       console.log(`  ✗ Error: ${err.message}`);
     }
-    
-    // Rate limit
-    await new Promise(r => setTimeout(r, 200));
   }
   
   console.log(`\n→ Found ${pairs.length} market pairs`);
@@ -179,25 +176,43 @@ async function findMatchingMarkets(): Promise<MarketPair[]> {
 // STEP 2: FETCH HISTORICAL DATA
 // ═══════════════════════════════════════════════════════════════════════════
 
-async function fetchKalshiHistory(ticker: string, startTs: number, endTs: number): Promise<KalshiCandlestick[]> {
+// History is cached in the local time-series store - only missing ranges are fetched
+async function fetchKalshiHistory(ticker: string, startTs: number, endTs: number): Promise<KalshiBatchCandlestick[]> {
   try {
-    const response = await apiFetch<{ candlesticks: Record<string, KalshiCandlestick[]> }>(
-      '/api/kalshi/markets/candlesticks',
-      {
-        market_tickers: ticker,
-        start_ts: startTs.toString(),
-        end_ts: endTs.toString(),
-        period_interval: '60', // 1 hour
+    const records = await getTimeSeriesStore().backfill(
+      { kind: 'batch_candles', venue: 'KALSHI', market_id: ticker, interval: '1h' },
+      { start: startTs * 1000, end: endTs * 1000 },
+      async (start, end) => {
+        const response = await apiFetch(
+          kalshiBatchCandlesticksResponseSchema,
+          '/api/kalshi/markets/candlesticks',
+          {
+            market_tickers: ticker,
+            start_ts: Math.floor(start.getTime() / 1000).toString(),
+            end_ts: Math.floor(end.getTime() / 1000).toString(),
+            period_interval: '60', // 1 hour
+          }
+        );
+        return response.candlesticks[ticker] ?? [];
       }
     );
-    
-    return response.candlesticks[ticker] ?? [];
+    // Stored records are only known to carry end_period_ts - check the rest
+    return validateResponse(z.array(kalshiBatchCandlestickSchema), records, {
+      endpoint: `store batch_candles/KALSHI/${ticker}`,
+    });
   } catch (err: any) {
     console.log(`    ✗ Kalshi error: ${err.message}`);
     return [];
   }
 }
 
+// Close price in 0-1: `close` is in cents; some candles only carry close_dollars
+function candleClose(side: KalshiBatchCandlestick['yes_bid']): number | undefined {
+  if (side.close !== null) return side.close / 100;
+  if (side.close_dollars !== null) return Number(side.close_dollars);
+  return undefined;
+}
+
 interface PolymarketPricePoint {
   t: number;  // timestamp
   p: number;  // price (0-1)
@@ -205,17 +220,23 @@ interface PolymarketPricePoint {
 
 async function fetchPolymarketHistory(tokenId: string, startTs: number, endTs: number): Promise<PolymarketPricePoint[]> {
   try {
-    const response = await apiFetch<{ history: PolymarketPricePoint[] }>(
-      '/api/polymarket/clob/prices-history',
-      {
-        market: tokenId,
-        startTs: startTs.toString(),
-        endTs: endTs.toString(),
-        interval: '1h',
+    return await getTimeSeriesStore().backfill(
+      { kind: 'prices', venue: 'POLYMARKET', market_id: tokenId, interval: '1h' },
+      { start: startTs * 1000, end: endTs * 1000 },
+      async (start, end) => {
+        const response = await apiFetch(
+          polymarketPricesHistoryResponseSchema,
+          '/api/polymarket/clob/prices-history',
+          {
+            market: tokenId,
+            startTs: Math.floor(start.getTime() / 1000).toString(),
+            endTs: Math.floor(end.getTime() / 1000).toString(),
+            interval: '1h',
+          }
+        );
+        return response.history ?? [];
       }
     );
-    
-    return response.history ?? [];
   } catch (err: any) {
     console.log(`    ✗ Polymarket error: ${err.message}`);
     return [];
@@ -239,8 +260,6 @@ async function fetchHistoricalData(pairs: MarketPair[]): Promise<Map<string, Spr
     const kalshiCandles = await fetchKalshiHistory(pair.kalshi_id, startTs, endTs);
     console.log(`  Kalshi: ${kalshiCandles.length} candles`);
     
-    await new Promise(r => setTimeout(r, 100));
-    
     const polyPrices = await fetchPolymarketHistory(pair.polymarket_id, startTs, endTs);
     console.log(`  Polymarket: ${polyPrices.length} price points`);
     
@@ -260,14 +279,11 @@ async function fetchHistoricalData(pairs: MarketPair[]): Promise<Map<string, Spr
       const hourKey = Math.floor(ts / 3600) * 3600;
       const date = new Date(ts * 1000);
       
-      // Convert to EST (UTC-5)
-      const estDate = new Date(date.getTime() - 5 * 60 * 60 * 1000);
-      const hour = estDate.getUTCHours();
-      const dow = estDate.getUTCDay();
+      // Bucket by local wall-clock time (DST-aware)
+      const { hour, day_of_week: dow } = getLocalTimeParts(date, getTimezoneFor());
       
-      // Kalshi prices are in cents (0-100), convert to 0-1
-      const kalshiBid = candle.yes_bid.close !== null ? candle.yes_bid.close / 100 : undefined;
-      const kalshiAsk = candle.yes_ask.close !== null ? candle.yes_ask.close / 100 : undefined;
+      const kalshiBid = candleClose(candle.yes_bid);
+      const kalshiAsk = candleClose(candle.yes_ask);
       
       const kalshiMid = kalshiBid !== undefined && kalshiAsk !== undefined
         ? (kalshiBid + kalshiAsk) / 2
@@ -297,8 +313,6 @@ async function fetchHistoricalData(pairs: MarketPair[]): Promise<Map<string, Spr
     
     dataByPair.set(pair.question, dataPoints);
     console.log(`  Combined: ${dataPoints.length} data points`);
-    
-    await new Promise(r => setTimeout(r, 200));
   }
   
   return dataByPair;
@@ -379,7 +393,7 @@ function printResults(hourly: HourlyStats[], daily: DailyStats[]) {
   const overallAvgCrossVenue = avg(hourly.filter(h => h.count > 0).map(h => h.avg_cross_venue_diff));
   const overallAvgKalshiSpread = avg(hourly.filter(h => h.count > 0).map(h => h.avg_kalshi_spread));
   
-  console.log('📊 HOURLY PATTERNS (EST)\n');
+  console.log(`📊 HOURLY PATTERNS (${getTimezoneFor()})\n`);
   console.log('Hour │ Samples │ Kalshi Spread │ Cross-Venue Diff │ vs Avg');
   console.log('─────┼─────────┼───────────────┼──────────────────┼────────');
   
@@ -427,7 +441,7 @@ function printResults(hourly: HourlyStats[], daily: DailyStats[]) {
   
   if (sortedHours.length >= 3) {
     const topHours = sortedHours.slice(0, 5);
-    console.log('Best hours for arb opportunities (EST):');
+    console.log(`Best hours for arb opportunities (${getTimezoneFor()}):`);
     topHours.forEach(h => {
       const pct = overallAvgCrossVenue > 0 
         ? ((h.avg_cross_venue_diff - overallAvgCrossVenue) / overallAvgCrossVenue * 100).toFixed(0)
@@ -523,6 +537,10 @@ async function main() {
   printResults(hourly, daily);
   saveResults(pairs, hourly, daily);
   
+  // Track discovered pairs so scan-opportunities can use them
+  const added = getMarketPairRegistry().importDiscovered(pairs);
+  console.log(`Registered ${added.length} new market pairs`);
+  
   console.log('✅ Analysis complete!\n');
 }
 
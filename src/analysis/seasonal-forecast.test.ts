@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SEASONAL_FORECAST_PARAMS,
+  fitSeasonalModel,
+  forecastSpreadWindows,
+  maxEffectiveSamples,
+} from './seasonal-forecast';
+
+const HOUR_MS = 3600000;
+const NOW = new Date('2025-03-03T00:00:00Z');   // Monday midnight UTC
+
+/**
+ * Hourly UTC history: 5% spread from 00:00 to 05:59 (or wherever `isWide`
+ * says), 1% otherwise, with a small deterministic wobble
+ */
+function seasonalHistory(
+  weeks: number,
+  isWide: (dayOfWeek: number, hour: number) => boolean = (_, hour) => hour < 6
+): { timestamp: string; spread_pct: number }[] {
+  const data: { timestamp: string; spread_pct: number }[] = [];
+  const startMs = NOW.getTime() - weeks * 7 * 24 * HOUR_MS;
+  for (let ms = startMs; ms < NOW.getTime(); ms += HOUR_MS) {
+    const date = new Date(ms);
+    const wobble = 0.1 * Math.sin(ms / HOUR_MS);
+    data.push({ timestamp: date.toISOString(), spread_pct: (isWide(date.getUTCDay(), date.getUTCHours()) ? 5 : 1) + wobble });
+  }
+  return data;
+}
+
+describe('maxEffectiveSamples', () => {
+  it('is (1+r)/(1-r) for weekly samples', () => {
+    const r = Math.pow(2, -7 / 14);
+    expect(maxEffectiveSamples(14)).toBeCloseTo((1 + r) / (1 - r), 10);
+    expect(maxEffectiveSamples(14)).toBeCloseTo(5.83, 2);
+  });
+
+  it('bounds the n_eff of a bucket with long history', () => {
+    const model = fitSeasonalModel(seasonalHistory(52), 'UTC', { now: NOW });
+    for (const bucket of Object.values(model.buckets)) {
+      expect(bucket.effective_samples).toBeLessThanOrEqual(model.max_effective_samples + 1e-9);
+      expect(bucket.effective_samples).toBeGreaterThan(0.99 * model.max_effective_samples);
+    }
+  });
+});
+
+describe('forecastSpreadWindows', () => {
+  it('recovers a clean overnight pattern with high confidence', () => {
+    const forecast = forecastSpreadWindows(seasonalHistory(8), 'UTC', 24, { now: NOW, threshold_pct: 3 });
+    const [top] = forecast.windows;
+
+    expect(top).toBeDefined();
+    expect(top!.start).toBe('2025-03-03T01:00:00.000Z');   // 00:00 has already started
+    expect(top!.end).toBe('2025-03-03T06:00:00.000Z');
+    expect(top!.confidence).toBe('high');
+    expect(top!.exceedance_probability).toBeGreaterThan(0.8);
+    expect(top!.expected_spread_pct).toBeGreaterThan(4);
+
+    const daytime = forecast.hourly.filter(h => h.hour >= 6);
+    expect(Math.max(...daytime.map(h => h.exceedance_probability))).toBeLessThan(DEFAULT_SEASONAL_FORECAST_PARAMS.min_window_probability);
+  });
+
+  it('reports lower confidence for the same pattern with little history', () => {
+    const twoWeeks = forecastSpreadWindows(seasonalHistory(2), 'UTC', 24, { now: NOW, threshold_pct: 3 });
+    const fourWeeks = forecastSpreadWindows(seasonalHistory(4), 'UTC', 24, { now: NOW, threshold_pct: 3 });
+
+    expect(twoWeeks.windows[0]!.confidence).toBe('low');
+    expect(fourWeeks.windows[0]!.confidence).toBe('medium');
+  });
+
+  it('shrinks sparse buckets toward their hour of day', () => {
+    // Sunday noon only
+    const isWide = (dayOfWeek: number, hour: number) => dayOfWeek === 0 && hour === 12;
+    const oneWeek = fitSeasonalModel(seasonalHistory(1, isWide), 'UTC', { now: NOW, threshold_pct: 3 });
+    const eightWeeks = fitSeasonalModel(seasonalHistory(8, isWide), 'UTC', { now: NOW, threshold_pct: 3 });
+
+    expect(oneWeek.buckets['0-12']!.exceedance).toBeLessThan(eightWeeks.buckets['0-12']!.exceedance);
+    expect(oneWeek.buckets['0-12']!.exceedance).toBeGreaterThan(0.4);
+    expect(eightWeeks.buckets['0-12']!.exceedance).toBeGreaterThan(0.8);
+
+    // Other noons borrow a little from Sunday's, other hours not at all
+    expect(eightWeeks.buckets['1-12']!.exceedance).toBeGreaterThan(0);
+    expect(eightWeeks.buckets['1-12']!.exceedance).toBeLessThan(0.2);
+    expect(eightWeeks.buckets['1-11']!.exceedance).toBeLessThan(eightWeeks.buckets['1-12']!.exceedance);
+  });
+
+  it('only forecasts hours that start inside the horizon', () => {
+    const forecast = forecastSpreadWindows(seasonalHistory(8), 'UTC', 24, { now: NOW, threshold_pct: 3 });
+    const horizonEnd = NOW.getTime() + 24 * HOUR_MS;
+
+    expect(forecast.hourly).toHaveLength(23);
+    for (const h of forecast.hourly) expect(Date.parse(h.start)).toBeLessThan(horizonEnd);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Seasonal Spread Forecasting
+ * 
+ * Forecasts a market's spread for each future hour from its history:
+ * - Hour x day-of-week buckets (local time), so "Sunday 3am" and
+ *   "Tuesday 3am" are modelled separately
+ * - Exponential recency weighting (half-life in days)
+ * - Weighted p50 / p90 per bucket and the probability that spread
+ *   exceeds a threshold (default: the market's weighted p75)
+ * - Shrinkage of sparse buckets toward their hour of day (all days
+ *   pooled), and of that toward market-wide values, by effective
+ *   sample size: w = n_eff / (n_eff + k)
+ * 
+ * A bucket gets one hourly sample a week, so with ratio r = 2^(-7/h)
+ * between consecutive weights its n_eff can never pass (1+r)/(1-r)
+ * (5.83 at the default 14-day half-life) however long the history.
+ * Shrinkage k and the confidence cutoffs are set as shares of that
+ * ceiling rather than as absolute sample counts.
+ * 
+ * Consecutive high-probability hours are merged into variable-length
+ * windows and ranked.
+ */
+
+import { getLocalTimeParts } from '../utils/time';
+
+export interface SeasonalForecastParams {
+  half_life_days: number;              // Weight halves every N days of age
+  shrinkage_share: number;             // Pseudo-observations pulling buckets to the market-wide values, as a share of max n_eff
+  threshold_quantile: number;          // Default exceedance threshold (weighted quantile of all history)
+  min_window_probability: number;      // Hours at or above this join a window
+  max_windows: number;
+}
+
+// Window confidence by its thinnest bucket's n_eff as a share of the
+// ceiling: at the default half-life 0.75 takes ~6 weeks of history, 0.45 ~3
+const HIGH_CONFIDENCE_SHARE = 0.75;
+const MEDIUM_CONFIDENCE_SHARE = 0.45;
+
+export const DEFAULT_SEASONAL_FORECAST_PARAMS: SeasonalForecastParams = {
+  half_life_days: 14,
+  shrinkage_share: 0.25,
+  threshold_quantile: 0.75,
+  min_window_probability: 0.4,
+  max_windows: 5,
+};
+
+interface BucketStats {
+  effective_samples: number;
+  p50: number;
+  p90: number;
+  exceedance: number;                  // Share of weight above the threshold
+}
+
+export interface SeasonalModel {
+  timezone: string;
+  threshold_pct: number;
+  max_effective_samples: number;       // n_eff ceiling of an hour x day bucket
+  overall: BucketStats & { mean: number };
+  buckets: Record<string, BucketStats>;    // `${day_of_week}-${hour}`, shrunk
+  params: SeasonalForecastParams;
+}
+
+export interface HourForecast {
+  start: string;
+  hour: number;
+  day_of_week: number;
+  p50_spread_pct: number;
+  p90_spread_pct: number;
+  exceedance_probability: number;
+  effective_samples: number;
+}
+
+export interface ForecastWindow {
+  start: string;
+  end: string;
+  hours: number;
+  expected_spread_pct: number;         // Mean p50 over the window
+  p90_spread_pct: number;              // Highest hourly p90
+  exceedance_probability: number;      // Mean hourly probability spread > threshold
+  peak_probability: number;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface SpreadForecast {
+  model: SeasonalModel;
+  hourly: HourForecast[];
+  windows: ForecastWindow[];           // Most likely first
+}
+
+export interface SeasonalForecastOptions {
+  params?: Partial<SeasonalForecastParams>;
+  threshold_pct?: number;
+  now?: Date;
+}
+
+/**
+ * Fit, forecast and rank windows in one step (what predict mode runs)
+ */
+export function forecastSpreadWindows(
+  data: { timestamp: string; spread_pct: number }[],
+  timeZone: string,
+  hoursAhead: number,
+  options: SeasonalForecastOptions = {}
+): SpreadForecast {
+  const now = options.now ?? new Date();
+  const model = fitSeasonalModel(data, timeZone, { ...options, now });
+  const hourly = forecastHours(model, hoursAhead, now);
+  return { model, hourly, windows: findForecastWindows(hourly, model.params) };
+}
+
+/**
+ * Fit bucket statistics from spread history (spread_pct, as returned by
+ * getHistoricalSpreads)
+ */
+export function fitSeasonalModel(
+  data: { timestamp: string; spread_pct: number }[],
+  timeZone: string,
+  options: SeasonalForecastOptions = {}
+): SeasonalModel {
+  const params = { ...DEFAULT_SEASONAL_FORECAST_PARAMS, ...options.params };
+  const nowMs = (options.now ?? new Date()).getTime();
+  const decay = Math.LN2 / (params.half_life_days * 24 * 3600000);
+  
+  const samples = data
+    .filter(d => Number.isFinite(d.spread_pct))
+    .map(d => {
+      const local = getLocalTimeParts(d.timestamp, timeZone);
+      const age = Math.max(0, nowMs - Date.parse(d.timestamp));
+      return {
+        key: bucketKey(local.day_of_week, local.hour),
+        hour: local.hour,
+        value: d.spread_pct,
+        weight: Math.exp(-decay * age),
+      };
+    });
+  
+  const threshold = options.threshold_pct ?? weightedQuantile(samples, params.threshold_quantile);
+  const overall = bucketStats(samples, threshold);
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+  const overallMean = totalWeight > 0 ? samples.reduce((sum, s) => sum + s.value * s.weight, 0) / totalWeight : 0;
+  
+  const byHour = groupBy(samples, s => s.hour);
+  const grouped = groupBy(samples, s => s.key);
+  
+  // Two levels: hour of day toward the market, then hour x day toward
+  // its hour of day (which pools all seven days, so a sparse Sunday 3am
+  // borrows from other 3ams rather than from the whole day)
+  const maxEffective = maxEffectiveSamples(params.half_life_days);
+  const k = params.shrinkage_share * maxEffective;
+  const hourly = new Map<number, BucketStats>();
+  for (const [hour, group] of byHour) {
+    hourly.set(hour, shrink(bucketStats(group, threshold), overall, k));
+  }
+  
+  const buckets: Record<string, BucketStats> = {};
+  for (const [key, group] of grouped) {
+    buckets[key] = shrink(bucketStats(group, threshold), hourly.get(group[0]!.hour)!, k);
+  }
+  
+  return {
+    timezone: timeZone,
+    threshold_pct: threshold,
+    max_effective_samples: maxEffective,
+    overall: { ...overall, mean: overallMean },
+    buckets,
+    params,
+  };
+}
+
+/**
+ * Effective sample size an hour x day bucket approaches with unlimited
+ * history: one sample a week, each weighted r = 2^(-7/h) of the next
+ */
+export function maxEffectiveSamples(halfLifeDays: number): number {
+  const r = Math.pow(2, -7 / halfLifeDays);
+  return (1 + r) / (1 - r);
+}
+
+/**
+ * Forecast each local hour starting after `from` and before `hoursAhead`
+ * later (an hour starting at the horizon end would run past it).
+ * Buckets with no history fall back to the market-wide values.
+ */
+export function forecastHours(model: SeasonalModel, hoursAhead: number, from: Date = new Date()): HourForecast[] {
+  const fromMs = from.getTime();
+  const topOfUtcHour = Math.floor(fromMs / 3600000) * 3600000;
+  const forecasts: HourForecast[] = [];
+  
+  for (let k = 0; k <= hoursAhead; k++) {
+    const candidate = topOfUtcHour + k * 3600000;
+    const local = getLocalTimeParts(candidate, model.timezone);
+    const start = candidate - local.minute * 60000;
+    if (start <= fromMs || start - fromMs >= hoursAhead * 3600000) continue;
+    
+    const bucket = model.buckets[bucketKey(local.day_of_week, local.hour)];
+    forecasts.push({
+      start: new Date(start).toISOString(),
+      hour: local.hour,
+      day_of_week: local.day_of_week,
+      p50_spread_pct: bucket?.p50 ?? model.overall.p50,
+      p90_spread_pct: bucket?.p90 ?? model.overall.p90,
+      exceedance_probability: bucket?.exceedance ?? model.overall.exceedance,
+      effective_samples: bucket?.effective_samples ?? 0,
+    });
+  }
+  
+  return forecasts;
+}
+
+/**
+ * Merge consecutive hours at or above `min_window_probability` into
+ * windows, ranked by mean exceedance probability (then sooner first).
+ * If no hour qualifies, the single most likely hour is returned.
+ */
+export function findForecastWindows(forecasts: HourForecast[], params: Partial<SeasonalForecastParams> = {}): ForecastWindow[] {
+  const p = { ...DEFAULT_SEASONAL_FORECAST_PARAMS, ...params };
+  const maxEffective = maxEffectiveSamples(p.half_life_days);
+  const runs: HourForecast[][] = [];
+  let current: HourForecast[] = [];
+  
+  for (const f of forecasts) {
+    if (f.exceedance_probability >= p.min_window_probability) {
+      current.push(f);
+    } else if (current.length > 0) {
+      runs.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) runs.push(current);
+  
+  if (runs.length === 0 && forecasts.length > 0) {
+    const best = forecasts.reduce((a, b) => b.exceedance_probability > a.exceedance_probability ? b : a);
+    runs.push([best]);
+  }
+  
+  return runs
+    .map(run => toWindow(run, maxEffective))
+    .sort((a, b) => b.exceedance_probability - a.exceedance_probability || a.start.localeCompare(b.start))
+    .slice(0, p.max_windows);
+}
+
+function toWindow(hours: HourForecast[], maxEffective: number): ForecastWindow {
+  const first = hours[0]!;
+  const last = hours[hours.length - 1]!;
+  const share = Math.min(...hours.map(h => h.effective_samples)) / maxEffective;
+  
+  return {
+    start: first.start,
+    end: new Date(Date.parse(last.start) + 3600000).toISOString(),
+    hours: hours.length,
+    expected_spread_pct: hours.reduce((sum, h) => sum + h.p50_spread_pct, 0) / hours.length,
+    p90_spread_pct: Math.max(...hours.map(h => h.p90_spread_pct)),
+    exceedance_probability: hours.reduce((sum, h) => sum + h.exceedance_probability, 0) / hours.length,
+    peak_probability: Math.max(...hours.map(h => h.exceedance_probability)),
+    confidence: share >= HIGH_CONFIDENCE_SHARE ? 'high' : share >= MEDIUM_CONFIDENCE_SHARE ? 'medium' : 'low',
+  };
+}
+
+function bucketKey(dayOfWeek: number, hour: number): string {
+  return `${dayOfWeek}-${hour}`;
+}
+
+/**
+ * w = n_eff / (n_eff + k) toward `prior`; keeps the bucket's own n_eff
+ */
+function shrink(raw: BucketStats, prior: BucketStats, k: number): BucketStats {
+  const w = raw.effective_samples / (raw.effective_samples + k);
+  return {
+    effective_samples: raw.effective_samples,
+    p50: w * raw.p50 + (1 - w) * prior.p50,
+    p90: w * raw.p90 + (1 - w) * prior.p90,
+    exceedance: w * raw.exceedance + (1 - w) * prior.exceedance,
+  };
+}
+
+function groupBy<T, K>(items: T[], keyOf: (item: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(item);
+  }
+  return groups;
+}
+
+function bucketStats(samples: { value: number; weight: number }[], threshold: number): BucketStats {
+  const sumW = samples.reduce((sum, s) => sum + s.weight, 0);
+  const sumW2 = samples.reduce((sum, s) => sum + s.weight ** 2, 0);
+  const above = samples.filter(s => s.value > threshold).reduce((sum, s) => sum + s.weight, 0);
+  
+  return {
+    effective_samples: sumW2 > 0 ? sumW ** 2 / sumW2 : 0,
+    p50: weightedQuantile(samples, 0.5),
+    p90: weightedQuantile(samples, 0.9),
+    exceedance: sumW > 0 ? above / sumW : 0,
+  };
+}
+
+/**
+ * Weighted quantile: smallest value whose cumulative weight reaches q
+ */
+function weightedQuantile(samples: { value: number; weight: number }[], q: number): number {
+  if (samples.length === 0) return 0;
+  const sorted = [...samples].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, s) => sum + s.weight, 0);
+  
+  let cumulative = 0;
+  for (const s of sorted) {
+    cumulative += s.weight;
+    if (cumulative >= q * total) return s.value;
+  }
+  return sorted[sorted.length - 1]!.value;
+}
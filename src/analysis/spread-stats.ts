@@ -5,40 +5,19 @@
  */
 
 import type { SpreadDataPoint, SpreadStats, OrderbookSnapshot, MarketCategory } from '../types';
+import { getLocalTimeParts, getTimezoneFor } from '../utils/time';
+import type { CalendarTag, MarketCalendar } from '../calendar';
 
 /**
- * Convert timestamp to EST hour (0-23)
- */
-export function getHourEST(timestamp: string): number {
-  const date = new Date(timestamp);
-  // EST is UTC-5 (ignoring DST for simplicity)
-  const utcHour = date.getUTCHours();
-  const estHour = (utcHour - 5 + 24) % 24;
-  return estHour;
-}
-
-/**
- * Get day of week (0=Sunday, 6=Saturday)
- */
-export function getDayOfWeek(timestamp: string): number {
-  return new Date(timestamp).getUTCDay();
-}
-
-/**
- * Check if timestamp is weekend
- */
-export function isWeekend(timestamp: string): boolean {
-  const dow = getDayOfWeek(timestamp);
-  return dow === 0 || dow === 6;
-}
-
-/**
- * Convert orderbook snapshot to spread data point
+ * Convert orderbook snapshot to spread data point.
+ * Time buckets use the market's configured timezone.
  */
 export function toSpreadDataPoint(
   snapshot: OrderbookSnapshot,
-  marketId: string
+  marketId: string,
+  timeZone: string = getTimezoneFor(marketId)
 ): SpreadDataPoint {
+  const local = getLocalTimeParts(snapshot.timestamp, timeZone);
   return {
     timestamp: snapshot.timestamp,
     market_id: marketId,
@@ -46,9 +25,9 @@ export function toSpreadDataPoint(
     mid_price: snapshot.mid_price,
     bid_depth: snapshot.bid_depth,
     ask_depth: snapshot.ask_depth,
-    hour_of_day: getHourEST(snapshot.timestamp),
-    day_of_week: getDayOfWeek(snapshot.timestamp),
-    is_weekend: isWeekend(snapshot.timestamp),
+    hour_of_day: local.hour,
+    day_of_week: local.day_of_week,
+    is_weekend: local.is_weekend,
   };
 }
 
@@ -203,7 +182,7 @@ export function statsByCategory(
 }
 
 /**
- * Compute spread stats for late night (12am-6am EST) vs business hours (9am-5pm EST)
+ * Compute spread stats for late night (12am-6am local) vs business hours (9am-5pm local)
  */
 export function statsLateNightVsBusinessHours(data: SpreadDataPoint[]): {
   late_night: SpreadStats;
@@ -223,6 +202,56 @@ export function statsLateNightVsBusinessHours(data: SpreadDataPoint[]): {
   };
 }
 
+/**
+ * Calendar tag of each point ('holiday', 'event' or null), scoped to its
+ * market and category
+ */
+export function tagCalendarHours(
+  data: SpreadDataPoint[],
+  calendar: MarketCalendar,
+  marketCategories: Map<string, MarketCategory> = new Map()
+): (CalendarTag | null)[] {
+  return data.map(p => calendar.tagAt(p.timestamp, {
+    market_id: p.market_id,
+    category: marketCategories.get(p.market_id),
+  }));
+}
+
+/**
+ * Drop points that fall on a holiday or inside a scheduled event, so
+ * hour / day baselines reflect ordinary trading
+ */
+export function excludeCalendarHours(
+  data: SpreadDataPoint[],
+  calendar: MarketCalendar,
+  marketCategories?: Map<string, MarketCategory>,
+  tags: CalendarTag[] = ['holiday', 'event']
+): SpreadDataPoint[] {
+  const tagged = tagCalendarHours(data, calendar, marketCategories);
+  return data.filter((_, i) => {
+    const tag = tagged[i];
+    return !tag || !tags.includes(tag);
+  });
+}
+
+/**
+ * Compute spread stats for holiday vs event vs ordinary hours
+ */
+export function statsByCalendar(
+  data: SpreadDataPoint[],
+  calendar: MarketCalendar,
+  marketCategories?: Map<string, MarketCategory>
+): { holiday: SpreadStats; event: SpreadStats; normal: SpreadStats } {
+  const tagged = tagCalendarHours(data, calendar, marketCategories);
+  const spreadsWith = (tag: CalendarTag | null) => data.filter((_, i) => tagged[i] === tag).map(p => p.spread_bps);
+  
+  return {
+    holiday: computeStats(spreadsWith('holiday'), 'calendar_holiday'),
+    event: computeStats(spreadsWith('event'), 'calendar_event'),
+    normal: computeStats(spreadsWith(null), 'calendar_normal'),
+  };
+}
+
 /**
  * Compute Z-score for a spread value given historical data
  */
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  benjaminiHochberg,
+  cohensD,
+  logGamma,
+  mannWhitneyU,
+  normalCdf,
+  pearsonCorrelation,
+  proportionZTest,
+  quantile,
+  rank,
+  regularizedIncompleteBeta,
+  studentTCdf,
+  variance,
+  welchTTest,
+} from './statistics';
+
+describe('descriptive', () => {
+  it('uses the n - 1 variance and interpolated quantiles', () => {
+    expect(variance([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(32 / 7, 12);
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([1, 2, 3, 4], 0.25)).toBe(1.75);
+  });
+
+  it('gives ties their average rank', () => {
+    expect(rank([10, 20, 20, 30])).toEqual([1, 2.5, 2.5, 4]);
+  });
+});
+
+describe('distributions', () => {
+  it('matches reference values', () => {
+    expect(normalCdf(1.96)).toBeCloseTo(0.9750021, 6);
+    expect(normalCdf(-1)).toBeCloseTo(0.1586553, 6);
+    expect(studentTCdf(2.228139, 10)).toBeCloseTo(0.975, 6);
+    expect(studentTCdf(-2.570582, 5)).toBeCloseTo(0.025, 6);
+    expect(logGamma(0.5)).toBeCloseTo(Math.log(Math.sqrt(Math.PI)), 9);
+    expect(logGamma(10)).toBeCloseTo(Math.log(362880), 9);
+    // I_0.5(2, 3) = (6 + 4 + 1) / 16
+    expect(regularizedIncompleteBeta(0.5, 2, 3)).toBeCloseTo(0.6875, 10);
+  });
+});
+
+describe('welchTTest', () => {
+  // Wikipedia, "Welch's t-test", example 1
+  const a1 = [27.5, 21.0, 19.0, 23.6, 17.0, 17.9, 16.9, 20.1, 21.9, 22.6, 23.1, 19.6, 19.0, 21.7, 21.4];
+  const a2 = [27.1, 22.0, 20.8, 23.4, 23.4, 23.5, 25.8, 22.0, 24.8, 20.2, 21.9, 22.1, 22.9, 20.5, 24.4];
+
+  it('matches the published two-sided result', () => {
+    const result = welchTTest(a1, a2);
+    expect(result.statistic).toBeCloseTo(-2.455, 3);
+    expect(result.df).toBeCloseTo(24.99, 2);
+    expect(result.p_value).toBeCloseTo(0.0214, 4);
+  });
+
+  it('halves the p-value for the matching one-sided alternative', () => {
+    expect(welchTTest(a1, a2, 'less').p_value).toBeCloseTo(0.0107, 4);
+    expect(welchTTest(a1, a2, 'greater').p_value).toBeCloseTo(0.9893, 4);
+  });
+
+  it('returns p = 1 when either group is too small', () => {
+    expect(welchTTest([1], [2, 3]).p_value).toBe(1);
+  });
+});
+
+describe('mannWhitneyU', () => {
+  // R: wilcox.test(x, y, alternative = "greater") example data
+  const x = [0.80, 0.83, 1.89, 1.04, 1.45, 1.38, 1.91, 1.64, 0.73, 1.46];
+  const y = [1.15, 0.88, 0.90, 0.74, 1.21];
+
+  it('matches R (W = 35, normal approximation with continuity correction)', () => {
+    const result = mannWhitneyU(x, y, 'greater');
+    expect(result.statistic).toBe(35);
+    expect(result.p_value).toBeCloseTo(0.1223, 4);
+    expect(result.effect_size).toBeCloseTo(0.4, 10);
+  });
+});
+
+describe('correlation and proportions', () => {
+  it('pearsonCorrelation matches the closed-form df = 3 p-value', () => {
+    const result = pearsonCorrelation([1, 2, 3, 4, 5], [2, 4, 5, 4, 5]);
+    expect(result.r).toBeCloseTo(6 / Math.sqrt(60), 12);
+    expect(result.statistic).toBeCloseTo(2.1213, 4);
+    expect(result.p_value).toBeCloseTo(0.1240, 4);
+  });
+
+  it('proportionZTest', () => {
+    const result = proportionZTest(60, 100, 0.5, 'greater');
+    expect(result.statistic).toBeCloseTo(2, 12);
+    expect(result.p_value).toBeCloseTo(0.02275, 5);
+  });
+
+  it('cohensD uses the pooled standard deviation', () => {
+    expect(cohensD([2, 4, 6], [1, 2, 3])).toBeCloseTo(2 / Math.sqrt(2.5), 12);
+  });
+});
+
+describe('benjaminiHochberg', () => {
+  it('matches p.adjust(method = "BH") and keeps input order', () => {
+    const adjusted = benjaminiHochberg([0.01, 0.04, 0.03, 0.005]);
+    expect(adjusted[0]).toBeCloseTo(0.02, 12);
+    expect(adjusted[1]).toBeCloseTo(0.04, 12);
+    expect(adjusted[2]).toBeCloseTo(0.04, 12);
+    expect(adjusted[3]).toBeCloseTo(0.02, 12);
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Statistical Tests
+ * 
+ * Pure-TS hypothesis testing: Welch's t-test, Mann-Whitney U,
+ * Pearson/Spearman correlation, Cohen's d, bootstrap confidence
+ * intervals and Benjamini-Hochberg correction.
+ */
+
+export type Alternative = 'two-sided' | 'greater' | 'less';
+
+export interface TestResult {
+  statistic: number;
+  p_value: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// DESCRIPTIVE
+// ═══════════════════════════════════════════════════════════════
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Sample variance (n - 1 denominator)
+ */
+export function variance(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, x) => sum + (x - m) ** 2, 0) / (n - 1);
+}
+
+export function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+/**
+ * Linear-interpolated quantile (q in 0-1)
+ */
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  const loVal = sorted[lo] ?? 0;
+  const hiVal = sorted[hi] ?? loVal;
+  return loVal + (hiVal - loVal) * (pos - lo);
+}
+
+/**
+ * Ranks (1-based), ties get the average rank
+ */
+export function rank(values: number[]): number[] {
+  const indexed = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks = new Array<number>(values.length);
+  
+  let i = 0;
+  while (i < indexed.length) {
+    let j = i;
+    while (j + 1 < indexed.length && indexed[j + 1]!.v === indexed[i]!.v) j++;
+    const avgRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[indexed[k]!.i] = avgRank;
+    i = j + 1;
+  }
+  
+  return ranks;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// DISTRIBUTIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 26.2.17, |error| < 7.5e-8)
+ */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989422804014327 * Math.exp(-z * z / 2);
+  const tail = d * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Student's t CDF with df degrees of freedom
+ */
+export function studentTCdf(t: number, df: number): number {
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+export function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) series += c / ++y;
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+/**
+ * Regularized incomplete beta I_x(a, b) via continued fraction
+ */
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  
+  // Continued fraction converges fastest for x < (a + 1) / (a + b + 2)
+  if (x < (a + 1) / (a + b + 2)) {
+    return front * betaContinuedFraction(x, a, b) / a;
+  }
+  return 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const MAX_ITERATIONS = 200;
+  const EPSILON = 3e-14;
+  const TINY = 1e-300;
+  
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    
+    // Even step
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+    
+    // Odd step
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  
+  return h;
+}
+
+/**
+ * p-value for a statistic given its CDF value
+ */
+function pFromCdf(cdf: number, alternative: Alternative): number {
+  if (alternative === 'greater') return 1 - cdf;
+  if (alternative === 'less') return cdf;
+  return Math.min(1, 2 * Math.min(cdf, 1 - cdf));
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Welch's unequal-variance t-test. 'greater' tests mean(a) > mean(b).
+ */
+export function welchTTest(
+  a: number[],
+  b: number[],
+  alternative: Alternative = 'two-sided'
+): TestResult & { df: number } {
+  const na = a.length;
+  const nb = b.length;
+  if (na < 2 || nb < 2) return { statistic: 0, p_value: 1, df: 0 };
+  
+  const va = variance(a) / na;
+  const vb = variance(b) / nb;
+  const se = Math.sqrt(va + vb);
+  if (se === 0) return { statistic: 0, p_value: 1, df: na + nb - 2 };
+  
+  const t = (mean(a) - mean(b)) / se;
+  const df = (va + vb) ** 2 / (va ** 2 / (na - 1) + vb ** 2 / (nb - 1));
+  
+  return { statistic: t, p_value: pFromCdf(studentTCdf(t, df), alternative), df };
+}
+
+/**
+ * Mann-Whitney U test (normal approximation with tie and continuity
+ * correction). 'greater' tests that a tends to be larger than b.
+ * Effect size is the rank-biserial correlation (-1 to 1).
+ */
+export function mannWhitneyU(
+  a: number[],
+  b: number[],
+  alternative: Alternative = 'two-sided'
+): TestResult & { z: number; effect_size: number } {
+  const na = a.length;
+  const nb = b.length;
+  if (na === 0 || nb === 0) return { statistic: 0, p_value: 1, z: 0, effect_size: 0 };
+  
+  const ranks = rank([...a, ...b]);
+  const rankSumA = ranks.slice(0, na).reduce((s, r) => s + r, 0);
+  const u = rankSumA - na * (na + 1) / 2;
+  
+  // Tie correction for the variance
+  const n = na + nb;
+  const tieCounts = new Map<number, number>();
+  for (const r of ranks) tieCounts.set(r, (tieCounts.get(r) ?? 0) + 1);
+  const tieTerm = [...tieCounts.values()].reduce((s, t) => s + (t ** 3 - t), 0);
+  const sigma = Math.sqrt((na * nb / 12) * ((n + 1) - tieTerm / (n * (n - 1))));
+  
+  const meanU = na * nb / 2;
+  const effectSize = 2 * u / (na * nb) - 1;
+  if (sigma === 0) return { statistic: u, p_value: 1, z: 0, effect_size: effectSize };
+  
+  const diff = u - meanU;
+  const correction = alternative === 'two-sided' ? Math.sign(diff) * 0.5 : alternative === 'greater' ? 0.5 : -0.5;
+  const z = (diff - correction) / sigma;
+  
+  return { statistic: u, p_value: pFromCdf(normalCdf(z), alternative), z, effect_size: effectSize };
+}
+
+/**
+ * Pearson correlation with t-distribution p-value
+ */
+export function pearsonCorrelation(
+  x: number[],
+  y: number[],
+  alternative: Alternative = 'two-sided'
+): TestResult & { r: number } {
+  const n = Math.min(x.length, y.length);
+  if (n < 3) return { statistic: 0, p_value: 1, r: 0 };
+  
+  const mx = mean(x.slice(0, n));
+  const my = mean(y.slice(0, n));
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i]! - mx;
+    const dy = y[i]! - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  if (sxx === 0 || syy === 0) return { statistic: 0, p_value: 1, r: 0 };
+  
+  const r = Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+  if (Math.abs(r) === 1) return { statistic: Math.sign(r) * Infinity, p_value: 0, r };
+  
+  const t = r * Math.sqrt((n - 2) / (1 - r * r));
+  return { statistic: t, p_value: pFromCdf(studentTCdf(t, n - 2), alternative), r };
+}
+
+/**
+ * Spearman rank correlation (Pearson on ranks)
+ */
+export function spearmanCorrelation(
+  x: number[],
+  y: number[],
+  alternative: Alternative = 'two-sided'
+): TestResult & { r: number } {
+  const n = Math.min(x.length, y.length);
+  return pearsonCorrelation(rank(x.slice(0, n)), rank(y.slice(0, n)), alternative);
+}
+
+/**
+ * One-sample proportion z-test: is the success rate above/below p0?
+ */
+export function proportionZTest(
+  successes: number,
+  n: number,
+  p0: number,
+  alternative: Alternative = 'greater'
+): TestResult {
+  if (n === 0) return { statistic: 0, p_value: 1 };
+  const se = Math.sqrt(p0 * (1 - p0) / n);
+  const z = (successes / n - p0) / se;
+  return { statistic: z, p_value: pFromCdf(normalCdf(z), alternative) };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EFFECT SIZE & INTERVALS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Cohen's d with pooled standard deviation
+ */
+export function cohensD(a: number[], b: number[]): number {
+  const na = a.length;
+  const nb = b.length;
+  if (na < 2 || nb < 2) return 0;
+  const pooled = Math.sqrt(((na - 1) * variance(a) + (nb - 1) * variance(b)) / (na + nb - 2));
+  return pooled > 0 ? (mean(a) - mean(b)) / pooled : 0;
+}
+
+/**
+ * Seeded PRNG (mulberry32) so bootstrap results are reproducible
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Percentile bootstrap CI for a two-sample statistic (e.g. median difference)
+ */
+export function bootstrapCI(
+  a: number[],
+  b: number[],
+  statistic: (a: number[], b: number[]) => number,
+  options: { iterations?: number; confidence?: number; seed?: number } = {}
+): { estimate: number; lower: number; upper: number } {
+  const { iterations = 1000, confidence = 0.95, seed = 42 } = options;
+  const estimate = statistic(a, b);
+  if (a.length === 0 || b.length === 0) return { estimate, lower: estimate, upper: estimate };
+  
+  const rng = createRng(seed);
+  const resample = (values: number[]) =>
+    values.map(() => values[Math.floor(rng() * values.length)]!);
+  
+  const samples: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    samples.push(statistic(resample(a), resample(b)));
+  }
+  
+  const alpha = (1 - confidence) / 2;
+  return {
+    estimate,
+    lower: quantile(samples, alpha),
+    upper: quantile(samples, 1 - alpha),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// MULTIPLE COMPARISONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Benjamini-Hochberg adjusted p-values (same order as input)
+ */
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+  
+  let running = 1;
+  for (let k = m - 1; k >= 0; k--) {
+    const { p, i } = order[k]!;
+    running = Math.min(running, (p * m) / (k + 1));
+    adjusted[i] = running;
+  }
+  
+  return adjusted;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { testH1Overnight, testH2Weekend } from './hypotheses';
+import { forecastSpreadWindows } from './seasonal-forecast';
+import { mean } from './statistics';
+import { generateSyntheticMarket, toHistoricalSpreads } from './synthetic';
+
+const TIMEZONE = 'America/New_York';
+const NOW = new Date('2025-03-03T06:00:00Z');   // Monday 01:00 local, an hour after the last point
+
+/**
+ * Eight weeks of hourly spreads with `overnight` applied from 00:00 to
+ * 05:59 local and `weekend` on Saturday and Sunday; no regimes, jumps or
+ * price drift, and a fine tick so quantization doesn't blur the ratios
+ */
+function seasonalMarket(overnight: number, weekend: number) {
+  return generateSyntheticMarket({
+    market_id: 'SEASONAL',
+    start: '2025-01-06T05:00:00.000Z',
+    hours: 24 * 56,
+    timezone: TIMEZONE,
+    seed: 3,
+    latent_volatility: 0,
+    regime_switch_prob: 0,
+    jump_rate_per_day: 0,
+    venues: { KALSHI: { tick: 0.001 } },
+    hourly_seasonality: Array.from({ length: 24 }, (_, h) => (h < 6 ? overnight : 1)),
+    weekly_seasonality: [weekend, 1, 1, 1, 1, 1, weekend],
+  });
+}
+
+/** Median % difference from a compareWider conclusion ("... (+94%). ...") */
+function pctWider(conclusion: string): number {
+  return Number(/\(([+-]?\d+)%\)/.exec(conclusion)![1]);
+}
+
+const isBusinessHour = (hour: number) => hour >= 9 && hour < 17;
+const isWeekend = (day: number) => day === 0 || day === 6;
+
+describe('hypotheses on injected seasonality', () => {
+  it('H1 and H2 recover a 2x overnight and 1.5x weekend multiplier', () => {
+    const points = seasonalMarket(2, 1.5).kalshi_points;
+    const h1 = testH1Overnight(points);
+    const h2 = testH2Weekend(points);
+
+    expect(h1.is_significant).toBe(true);
+    expect(h1.conclusion).toMatch(/ SUPPORTED/);
+    expect(pctWider(h1.conclusion)).toBeGreaterThanOrEqual(85);
+    expect(pctWider(h1.conclusion)).toBeLessThanOrEqual(115);
+
+    expect(h2.is_significant).toBe(true);
+    expect(h2.conclusion).toMatch(/ SUPPORTED/);
+    expect(pctWider(h2.conclusion)).toBeGreaterThanOrEqual(40);
+    expect(pctWider(h2.conclusion)).toBeLessThanOrEqual(60);
+  });
+
+  it('supports neither on a flat market', () => {
+    const points = seasonalMarket(1, 1).kalshi_points;
+
+    expect(testH1Overnight(points).is_significant).toBe(false);
+    expect(testH2Weekend(points).is_significant).toBe(false);
+  });
+});
+
+describe('forecast on injected seasonality', () => {
+  const history = toHistoricalSpreads(seasonalMarket(2, 1.5).kalshi);
+  const forecast = forecastSpreadWindows(history, TIMEZONE, 168, { now: NOW });
+  const p50 = (keep: (h: { hour: number; day_of_week: number }) => boolean) =>
+    mean(forecast.hourly.filter(keep).map(h => h.p50_spread_pct));
+
+  it('scales local overnight and weekend hours by the injected multipliers', () => {
+    const weekdayBusiness = p50(h => !isWeekend(h.day_of_week) && isBusinessHour(h.hour));
+    const weekdayOvernight = p50(h => !isWeekend(h.day_of_week) && h.hour < 6);
+    const weekendBusiness = p50(h => isWeekend(h.day_of_week) && isBusinessHour(h.hour));
+
+    expect(weekdayOvernight / weekdayBusiness).toBeGreaterThan(1.8);
+    expect(weekdayOvernight / weekdayBusiness).toBeLessThan(2.2);
+    expect(weekendBusiness / weekdayBusiness).toBeGreaterThan(1.35);
+    expect(weekendBusiness / weekdayBusiness).toBeLessThan(1.65);
+  });
+
+  it('ranks overnight windows first', () => {
+    const top = forecast.hourly.find(h => h.start === forecast.windows[0]!.start)!;
+
+    expect(top.hour).toBeLessThan(6);
+    expect(forecast.windows[0]!.exceedance_probability).toBeGreaterThan(0.9);
+    const weekdayBusiness = forecast.hourly.filter(h => !isWeekend(h.day_of_week) && isBusinessHour(h.hour));
+    expect(Math.max(...weekdayBusiness.map(h => h.exceedance_probability))).toBeLessThan(0.1);
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * Synthetic Market Data Generator
+ * 
+ * Paired Kalshi / Polymarket orderbook histories with known structure,
+ * as ground truth for computeMarketStats, predict mode, the hypothesis
+ * tests and the backtester:
+ * - Shared latent probability (logit random walk) with venue-specific
+ *   noise and a configurable lead-lag between venues
+ * - Intraday and weekly spread seasonality (local time)
+ * - Markov regime switches scaling spread and depth
+ * - Mean-reverting depth
+ * - Event jumps (price move + spread shock that decays) and resolution
+ * 
+ * Seeded, so the same params always produce the same series. The `truth`
+ * block records what was injected so recovered patterns can be checked.
+ */
+
+import type { LiquidityRegime, MarketCategory, OrderbookLevel, OrderbookSnapshot, SpreadDataPoint, Venue } from '../types';
+import { createRng } from './statistics';
+import { toSpreadDataPoint } from './spread-stats';
+import type { BacktestPairData } from './backtest';
+import { DEFAULT_TIMEZONE, getLocalTimeParts } from '../utils/time';
+
+// ═══════════════════════════════════════════════════════════════
+// PARAMS
+// ═══════════════════════════════════════════════════════════════
+
+export interface SyntheticVenueParams {
+  base_spread_bps: number;             // Spread before seasonality / regime
+  price_noise: number;                 // Std of venue-specific mid noise (price units)
+  lag_steps: number;                   // Steps behind the latent probability (lead-lag)
+  base_depth: number;                  // Mean contracts on each side
+  tick: number;                        // Price increment
+}
+
+export interface SyntheticRegimeState {
+  regime: LiquidityRegime;
+  spread_multiplier: number;
+  depth_multiplier: number;
+}
+
+export interface SyntheticMarketParams {
+  market_id: string;
+  kalshi_ticker: string;
+  polymarket_token_id: string;
+  category: MarketCategory;
+  start: string;                       // ISO start time
+  hours: number;                       // Length of the series
+  step_minutes: number;
+  timezone: string;                    // Seasonality is applied in local time
+  seed: number;
+  
+  initial_probability: number;
+  latent_volatility: number;           // Logit-space std per sqrt(hour)
+  
+  venues: Record<Venue, SyntheticVenueParams>;
+  
+  hourly_seasonality: number[];        // 24 spread multipliers by local hour
+  weekly_seasonality: number[];        // 7 spread multipliers by local day (0=Sun)
+  spread_noise: number;                // Lognormal std of per-step spread noise
+  
+  regimes: SyntheticRegimeState[];     // First state is the starting regime
+  regime_switch_prob: number;          // Per-step chance of leaving the current regime
+  
+  depth_persistence: number;           // AR(1) coefficient on log depth (0-1)
+  depth_volatility: number;            // Std of log depth innovations
+  
+  jump_rate_per_day: number;
+  jump_size: number;                   // Logit-space std of a jump
+  jump_spread_multiplier: number;      // Spread shock at the jump
+  jump_decay_hours: number;            // e-folding time of the shock
+  
+  resolves_at?: string;                // Series ends here, converged to `outcome`
+  outcome?: 0 | 1;                     // Defaults to a draw from the final probability
+  resolution_ramp_hours: number;       // Convergence period before resolution
+}
+
+export const DEFAULT_SYNTHETIC_PARAMS: Omit<SyntheticMarketParams, 'market_id' | 'kalshi_ticker' | 'polymarket_token_id'> = {
+  category: 'other',
+  start: '2024-01-01T00:00:00.000Z',
+  hours: 24 * 30,
+  step_minutes: 60,
+  timezone: DEFAULT_TIMEZONE,
+  seed: 42,
+  
+  initial_probability: 0.5,
+  latent_volatility: 0.05,
+  
+  venues: {
+    KALSHI: { base_spread_bps: 300, price_noise: 0.004, lag_steps: 0, base_depth: 500, tick: 0.01 },
+    POLYMARKET: { base_spread_bps: 150, price_noise: 0.003, lag_steps: 1, base_depth: 800, tick: 0.001 },
+  },
+  
+  // 0-5 overnight 1.6x, 6-8 1.2x, 9-16 business 1x, 17-23 evening 1.15x
+  hourly_seasonality: Array.from({ length: 24 }, (_, h) =>
+    h < 6 ? 1.6 : h < 9 ? 1.2 : h < 17 ? 1 : 1.15
+  ),
+  weekly_seasonality: [1.3, 1, 1, 1, 1, 1, 1.3],
+  spread_noise: 0.1,
+  
+  regimes: [
+    { regime: 'normal', spread_multiplier: 1, depth_multiplier: 1 },
+    { regime: 'thick', spread_multiplier: 0.7, depth_multiplier: 1.6 },
+    { regime: 'thin', spread_multiplier: 1.8, depth_multiplier: 0.5 },
+    { regime: 'very_thin', spread_multiplier: 3, depth_multiplier: 0.25 },
+  ],
+  regime_switch_prob: 0.02,
+  
+  depth_persistence: 0.9,
+  depth_volatility: 0.15,
+  
+  jump_rate_per_day: 0.2,
+  jump_size: 0.6,
+  jump_spread_multiplier: 2.5,
+  jump_decay_hours: 3,
+  
+  resolution_ramp_hours: 24,
+};
+
+// ═══════════════════════════════════════════════════════════════
+// OUTPUT
+// ═══════════════════════════════════════════════════════════════
+
+export interface SyntheticMarketSeries {
+  market_id: string;
+  kalshi_ticker: string;
+  polymarket_token_id: string;
+  category: MarketCategory;
+  kalshi: OrderbookSnapshot[];
+  polymarket: OrderbookSnapshot[];
+  kalshi_points: SpreadDataPoint[];
+  polymarket_points: SpreadDataPoint[];
+  
+  // What was injected, step-aligned with the snapshots
+  truth: {
+    timestamps: string[];
+    probability: number[];             // Latent probability
+    regimes: LiquidityRegime[];
+    jumps: string[];                   // Jump timestamps
+    resolved_at?: string;
+    outcome?: 0 | 1;
+    hourly_seasonality: number[];
+    weekly_seasonality: number[];
+  };
+}
+
+export interface SyntheticDataset {
+  series: SyntheticMarketSeries[];
+  spread_points: SpreadDataPoint[];    // Kalshi points for every market, time-ordered
+  categories: Map<string, MarketCategory>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// GENERATOR
+// ═══════════════════════════════════════════════════════════════
+
+const LEVELS = 5;
+
+/**
+ * Generate one paired market. Nested params (venues) merge per venue;
+ * other params replace the defaults.
+ */
+export function generateSyntheticMarket(
+  params: Partial<Omit<SyntheticMarketParams, 'venues'>> & {
+    market_id: string;
+    venues?: Partial<Record<Venue, Partial<SyntheticVenueParams>>>;
+  }
+): SyntheticMarketSeries {
+  const p: SyntheticMarketParams = {
+    ...DEFAULT_SYNTHETIC_PARAMS,
+    kalshi_ticker: params.market_id,
+    polymarket_token_id: `${params.market_id}-poly`,
+    ...params,
+    venues: {
+      KALSHI: { ...DEFAULT_SYNTHETIC_PARAMS.venues.KALSHI, ...params.venues?.KALSHI },
+      POLYMARKET: { ...DEFAULT_SYNTHETIC_PARAMS.venues.POLYMARKET, ...params.venues?.POLYMARKET },
+    },
+  };
+  
+  const rng = createRng(p.seed);
+  const normal = () => gaussian(rng);
+  const stepMs = p.step_minutes * 60_000;
+  const stepHours = p.step_minutes / 60;
+  const startMs = Date.parse(p.start);
+  const resolvesMs = p.resolves_at ? Date.parse(p.resolves_at) : Infinity;
+  const steps = Math.floor(Math.min(p.hours * 60 * 60_000, resolvesMs - startMs) / stepMs) + 1;
+  
+  // ─── Latent path, regimes and jumps ───
+  const timestamps: string[] = [];
+  const logits: number[] = [];
+  const regimes: SyntheticRegimeState[] = [];
+  const shocks: number[] = [];
+  const jumps: string[] = [];
+  
+  let logit = toLogit(p.initial_probability);
+  let regime = p.regimes[0]!;
+  let shock = 0;
+  const jumpProb = (p.jump_rate_per_day / 24) * stepHours;
+  const shockDecay = Math.exp(-stepHours / p.jump_decay_hours);
+  
+  for (let i = 0; i < steps; i++) {
+    const t = startMs + i * stepMs;
+    timestamps.push(new Date(t).toISOString());
+    
+    if (i > 0) {
+      logit += p.latent_volatility * Math.sqrt(stepHours) * normal();
+      shock *= shockDecay;
+      if (rng() < jumpProb) {
+        logit += p.jump_size * normal();
+        shock = 1;
+        jumps.push(timestamps[i]!);
+      }
+      if (p.regimes.length > 1 && rng() < p.regime_switch_prob) {
+        const others = p.regimes.filter(r => r !== regime);
+        regime = others[Math.floor(rng() * others.length)]!;
+      }
+    }
+    
+    logits.push(logit);
+    regimes.push(regime);
+    shocks.push(shock);
+  }
+  
+  // ─── Resolution: converge to the outcome over the ramp ───
+  let outcome = p.outcome;
+  let resolvedAt: string | undefined;
+  if (Number.isFinite(resolvesMs)) {
+    outcome ??= rng() < sigmoid(logits[logits.length - 1] ?? 0) ? 1 : 0;
+    resolvedAt = new Date(resolvesMs).toISOString();
+    const target = toLogit(outcome === 1 ? 0.99 : 0.01);
+    const rampMs = p.resolution_ramp_hours * 60 * 60_000;
+    for (let i = 0; i < steps; i++) {
+      const w = rampMs > 0 ? 1 - (resolvesMs - (startMs + i * stepMs)) / rampMs : 1;
+      if (w > 0) logits[i] = logits[i]! * (1 - Math.min(1, w)) + target * Math.min(1, w);
+    }
+  }
+  
+  const probability = logits.map(sigmoid);
+  
+  // ─── Venue books ───
+  const buildVenue = (venue: Venue) => {
+    const v = p.venues[venue];
+    const snapshots: OrderbookSnapshot[] = [];
+    let logDepthDev = 0;
+    
+    for (let i = 0; i < steps; i++) {
+      const local = getLocalTimeParts(timestamps[i]!, p.timezone);
+      const r = regimes[i]!;
+      
+      const lagged = probability[Math.max(0, i - v.lag_steps)]!;
+      const mid = clamp(lagged + v.price_noise * normal(), v.tick, 1 - v.tick);
+      
+      const seasonal = (p.hourly_seasonality[local.hour] ?? 1) * (p.weekly_seasonality[local.day_of_week] ?? 1);
+      const shockFactor = 1 + (p.jump_spread_multiplier - 1) * shocks[i]!;
+      const spreadBps = v.base_spread_bps * seasonal * r.spread_multiplier * shockFactor * Math.exp(p.spread_noise * normal());
+      
+      // Thin hours carry less depth as well as wider spreads
+      logDepthDev = p.depth_persistence * logDepthDev + p.depth_volatility * normal();
+      const depth = v.base_depth * r.depth_multiplier * Math.exp(logDepthDev) / seasonal;
+      const imbalance = clamp(0.2 * normal(), -0.8, 0.8);
+      
+      snapshots.push(buildSnapshot(timestamps[i]!, mid, spreadBps, depth, imbalance, v.tick));
+    }
+    return snapshots;
+  };
+  
+  const kalshi = buildVenue('KALSHI');
+  const polymarket = buildVenue('POLYMARKET');
+  
+  return {
+    market_id: p.market_id,
+    kalshi_ticker: p.kalshi_ticker,
+    polymarket_token_id: p.polymarket_token_id,
+    category: p.category,
+    kalshi,
+    polymarket,
+    kalshi_points: kalshi.map(s => toSpreadDataPoint(s, p.market_id, p.timezone)),
+    polymarket_points: polymarket.map(s => toSpreadDataPoint(s, p.market_id, p.timezone)),
+    truth: {
+      timestamps,
+      probability,
+      regimes: regimes.map(r => r.regime),
+      jumps,
+      resolved_at: resolvedAt,
+      outcome,
+      hourly_seasonality: p.hourly_seasonality,
+      weekly_seasonality: p.weekly_seasonality,
+    },
+  };
+}
+
+/**
+ * Generate several markets (each seeded from the base seed and its index)
+ */
+export function generateSyntheticDataset(
+  markets: Parameters<typeof generateSyntheticMarket>[0][]
+): SyntheticDataset {
+  const series = markets.map((m, i) => generateSyntheticMarket({ ...m, seed: m.seed ?? DEFAULT_SYNTHETIC_PARAMS.seed + i }));
+  return {
+    series,
+    spread_points: series
+      .flatMap(s => s.kalshi_points)
+      .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)),
+    categories: new Map(series.map(s => [s.market_id, s.category])),
+  };
+}
+
+/**
+ * Spread history in the shape getHistoricalSpreads returns (predict mode input)
+ */
+export function toHistoricalSpreads(snapshots: OrderbookSnapshot[]): { timestamp: string; spread_pct: number }[] {
+  return snapshots.map(s => ({ timestamp: s.timestamp, spread_pct: s.spread_bps / 100 }));
+}
+
+/**
+ * Backtester input for a generated pair
+ */
+export function toBacktestPairData(series: SyntheticMarketSeries): BacktestPairData {
+  return {
+    pair_id: series.market_id,
+    category: series.category,
+    kalshi: series.kalshi,
+    polymarket: series.polymarket,
+    settles_at: series.truth.resolved_at,
+  };
+}
+
+/**
+ * Snapshots keyed by symbol, for serving from a stand-in API
+ * (MockServerConfig.history)
+ */
+export function toSymbolHistory(series: SyntheticMarketSeries[]): Record<string, OrderbookSnapshot[]> {
+  const history: Record<string, OrderbookSnapshot[]> = {};
+  for (const s of series) {
+    history[s.kalshi_ticker] = s.kalshi;
+    history[s.polymarket_token_id] = s.polymarket;
+  }
+  return history;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+function buildSnapshot(
+  timestamp: string,
+  mid: number,
+  spreadBps: number,
+  depth: number,
+  imbalance: number,
+  tick: number
+): OrderbookSnapshot {
+  const halfSpread = (spreadBps / 10000) * mid / 2;
+  const bestBid = Math.max(tick, floorTo(mid - halfSpread, tick));
+  const bestAsk = Math.min(1 - tick, Math.max(ceilTo(mid + halfSpread, tick), roundTo(bestBid + tick, tick)));
+  
+  // Depth split by imbalance, growing away from the touch
+  const weights = Array.from({ length: LEVELS }, (_, i) => 1 + 0.5 * i);
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const ladder = (best: number, side: 1 | -1, sideDepth: number): OrderbookLevel[] =>
+    weights
+      .map((w, i) => ({ price: roundTo(best + side * i * tick, tick), size: Math.max(1, Math.round(sideDepth * w / totalWeight)) }))
+      .filter(l => l.price > 0 && l.price < 1);
+  
+  const bids = ladder(bestBid, -1, depth * (1 + imbalance));
+  const asks = ladder(bestAsk, 1, depth * (1 - imbalance));
+  const bidDepth = bids.reduce((sum, l) => sum + l.size, 0);
+  const askDepth = asks.reduce((sum, l) => sum + l.size, 0);
+  const actualMid = (bestBid + bestAsk) / 2;
+  const spread = bestAsk - bestBid;
+  
+  return {
+    timestamp,
+    mid_price: actualMid,
+    spread,
+    spread_bps: actualMid > 0 ? (spread / actualMid) * 10000 : 0,
+    imbalance: (bidDepth - askDepth) / (bidDepth + askDepth),
+    bid_depth: bidDepth,
+    ask_depth: askDepth,
+    bids,
+    asks,
+  };
+}
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+function gaussian(rng: () => number): number {
+  const u = Math.max(rng(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+function toLogit(p: number): number {
+  const q = clamp(p, 1e-6, 1 - 1e-6);
+  return Math.log(q / (1 - q));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function clamp(x: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, x));
+}
+
+function roundTo(x: number, tick: number): number {
+  return Number((Math.round(x / tick) * tick).toFixed(6));
+}
+
+function floorTo(x: number, tick: number): number {
+  return Number((Math.floor(x / tick + 1e-9) * tick).toFixed(6));
+}
+
+function ceilTo(x: number, tick: number): number {
+  return Number((Math.ceil(x / tick - 1e-9) * tick).toFixed(6));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateForecasts } from './walk-forward';
+import { generateSyntheticMarket, toHistoricalSpreads } from './synthetic';
+
+/**
+ * 120 days of seasonal spreads (overnight and weekend wide) with no
+ * regime switches, jumps or price drift
+ */
+function seasonalMarket(seed: number) {
+  const series = generateSyntheticMarket({
+    market_id: `WF-${seed}`,
+    hours: 24 * 120,
+    timezone: 'UTC',
+    seed,
+    latent_volatility: 0,
+    regime_switch_prob: 0,
+    jump_rate_per_day: 0,
+  });
+  return { market_id: series.market_id, timezone: 'UTC', history: toHistoricalSpreads(series.kalshi) };
+}
+
+describe('evaluateForecasts', () => {
+  it('beats the random and always-overnight baselines on a clean seasonal market', () => {
+    const report = evaluateForecasts([seasonalMarket(42), seasonalMarket(1)]);
+    const { model, baselines } = report.overall;
+
+    expect(report.overall.cutoffs).toBeGreaterThan(200);
+    expect(model.hit_rate!).toBeGreaterThanOrEqual(baselines.always_overnight.hit_rate!);
+    expect(model.hit_rate!).toBeGreaterThan(baselines.random_hour.hit_rate! + 0.3);
+  });
+
+  it('scores every top window against realized data inside the horizon', () => {
+    const report = evaluateForecasts([seasonalMarket(42)]);
+    const high = report.overall.calibration.find(c => c.confidence === 'high')!;
+    const medium = report.overall.calibration.find(c => c.confidence === 'medium')!;
+
+    // A window starting at the horizon end has no data and always misses
+    expect(report.overall.model.mean_realized_exceedance!).toBeGreaterThan(0.3);
+    expect(high.count).toBeGreaterThan(medium.count);
+    expect(high.hit_rate!).toBeGreaterThanOrEqual(medium.hit_rate!);
+  });
+
+  it('reports null rather than 0 for empty buckets', () => {
+    const report = evaluateForecasts([{ market_id: 'EMPTY', timezone: 'UTC', history: [] }]);
+
+    expect(report.overall.cutoffs).toBe(0);
+    expect(report.overall.model.hit_rate).toBeNull();
+    expect(report.overall.model.mean_predicted_probability).toBeNull();
+    expect(report.overall.model.p90_coverage).toBeNull();
+    expect(report.overall.baselines.random_hour.hit_rate).toBeNull();
+    for (const bucket of report.overall.calibration) {
+      expect(bucket.count).toBe(0);
+      expect(bucket.hit_rate).toBeNull();
+      expect(bucket.mean_predicted_probability).toBeNull();
+      expect(bucket.mean_realized_exceedance).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Walk-Forward Evaluation of Predict-Mode Forecasts
+ * 
+ * Re-runs the predict-mode forecast (forecastSpreadWindows) at many
+ * historical cutoffs using only data before each cutoff, then scores it
+ * against what happened over the following `hours_ahead`:
+ * - Window hit rate: did spread exceed the threshold during the
+ *   top-ranked window (next_likely_window)?
+ * - Realized exceedance vs predicted probability
+ * - Hourly spread error (p50 MAE / bias) and p90 coverage
+ * - Calibration by confidence label (high / medium / low)
+ * 
+ * Baselines get a window of the same length so hit rates compare fairly:
+ * a random start hour, and always the next local overnight hour.
+ * 
+ * Rates and means over no forecasts are null rather than 0, so an empty
+ * calibration bucket can't read as a 0% hit rate.
+ */
+
+import type { MarketCategory } from '../types';
+import { createRng, mean } from './statistics';
+import { forecastSpreadWindows, type ForecastWindow, type SeasonalForecastParams } from './seasonal-forecast';
+import { getTimezoneFor } from '../utils/time';
+
+const HOUR_MS = 3600000;
+
+export interface WalkForwardParams {
+  hours_ahead: number;
+  step_hours: number;                  // Spacing between cutoffs
+  lookback_days: number;               // History visible at each cutoff (predict fetches 90d)
+  min_history_days: number;            // First cutoff needs this much history
+  overnight_hours: [number, number];   // Local [start, end) hours for the always-overnight baseline
+  seed: number;                        // Random-hour baseline
+  forecast?: Partial<SeasonalForecastParams>;
+}
+
+export const DEFAULT_WALK_FORWARD_PARAMS: WalkForwardParams = {
+  hours_ahead: 24,
+  step_hours: 24,
+  lookback_days: 90,
+  min_history_days: 14,
+  overnight_hours: [0, 6],
+  seed: 7,
+};
+
+export interface WalkForwardMarket {
+  market_id: string;
+  category?: MarketCategory;
+  timezone?: string;                   // Defaults to getTimezoneFor(market_id, category)
+  history: { timestamp: string; spread_pct: number }[];
+}
+
+export interface StrategyScore {
+  forecasts: number;
+  hit_rate: number | null;                    // Share of windows where spread exceeded the threshold
+  mean_realized_exceedance: number | null;    // Mean share of in-window points above the threshold
+}
+
+export interface CalibrationBucket {
+  confidence: ForecastWindow['confidence'];
+  count: number;
+  hit_rate: number | null;
+  mean_predicted_probability: number | null;
+  mean_realized_exceedance: number | null;
+}
+
+export interface WalkForwardMetrics {
+  cutoffs: number;
+  model: StrategyScore & {
+    mean_predicted_probability: number | null;
+    spread_mae_pct: number | null;     // |realized - p50| per forecast hour
+    spread_bias_pct: number | null;    // realized - p50 (positive = forecasts too low)
+    p90_coverage: number | null;       // Share of hours at or below p90 (ideal 0.9)
+  };
+  baselines: {
+    random_hour: StrategyScore;
+    always_overnight: StrategyScore;
+  };
+  calibration: CalibrationBucket[];
+}
+
+export interface WalkForwardReport {
+  params: WalkForwardParams;
+  markets: (WalkForwardMetrics & { market_id: string; category: MarketCategory })[];
+  categories: (WalkForwardMetrics & { category: MarketCategory })[];
+  overall: WalkForwardMetrics;
+}
+
+interface WindowScore {
+  hit: boolean;
+  realized_exceedance: number;
+}
+
+interface CutoffRecord {
+  model: WindowScore & { predicted_probability: number; confidence: ForecastWindow['confidence'] };
+  random_hour: WindowScore;
+  always_overnight: WindowScore;
+  hour_errors: { error: number; within_p90: boolean }[];
+}
+
+/**
+ * Walk forward through every market's history and build the report
+ */
+export function evaluateForecasts(
+  markets: WalkForwardMarket[],
+  params: Partial<WalkForwardParams> = {}
+): WalkForwardReport {
+  const p = { ...DEFAULT_WALK_FORWARD_PARAMS, ...params };
+  const rng = createRng(p.seed);
+  
+  const perMarket = markets.map(market => ({
+    market_id: market.market_id,
+    category: market.category ?? 'other',
+    records: walkMarket(market, p, rng),
+  }));
+  
+  const categories = [...new Set(perMarket.map(m => m.category))];
+  
+  return {
+    params: p,
+    markets: perMarket.map(m => ({ market_id: m.market_id, category: m.category, ...summarize(m.records) })),
+    categories: categories.map(category => ({
+      category,
+      ...summarize(perMarket.filter(m => m.category === category).flatMap(m => m.records)),
+    })),
+    overall: summarize(perMarket.flatMap(m => m.records)),
+  };
+}
+
+function walkMarket(market: WalkForwardMarket, p: WalkForwardParams, rng: () => number): CutoffRecord[] {
+  const history = market.history
+    .filter(d => Number.isFinite(d.spread_pct))
+    .map(d => ({ ...d, ts: Date.parse(d.timestamp) }))
+    .sort((a, b) => a.ts - b.ts);
+  if (history.length === 0) return [];
+  
+  const timeZone = market.timezone ?? getTimezoneFor(market.market_id, market.category);
+  const first = history[0]!.ts;
+  const last = history[history.length - 1]!.ts;
+  const records: CutoffRecord[] = [];
+  
+  for (
+    let cutoff = first + p.min_history_days * 24 * HOUR_MS;
+    cutoff + p.hours_ahead * HOUR_MS <= last;
+    cutoff += p.step_hours * HOUR_MS
+  ) {
+    const lookbackStart = cutoff - p.lookback_days * 24 * HOUR_MS;
+    const prior = history.filter(d => d.ts >= lookbackStart && d.ts < cutoff);
+    const future = history.filter(d => d.ts >= cutoff && d.ts < cutoff + p.hours_ahead * HOUR_MS);
+    if (prior.length === 0 || future.length === 0) continue;
+    
+    const { model, hourly, windows } = forecastSpreadWindows(prior, timeZone, p.hours_ahead, {
+      params: p.forecast,
+      now: new Date(cutoff),
+    });
+    const top = windows[0];
+    if (!top) continue;
+    
+    const threshold = model.threshold_pct;
+    const score = (startMs: number, hours: number): WindowScore => {
+      const inWindow = future.filter(d => d.ts >= startMs && d.ts < startMs + hours * HOUR_MS);
+      const above = inWindow.filter(d => d.spread_pct > threshold).length;
+      return { hit: above > 0, realized_exceedance: inWindow.length > 0 ? above / inWindow.length : 0 };
+    };
+    
+    // Baselines: same window length, different start
+    const starts = hourly.map(h => Date.parse(h.start));
+    const randomStart = starts[Math.floor(rng() * starts.length)] ?? cutoff;
+    const [overnightFrom, overnightTo] = p.overnight_hours;
+    const overnight = hourly.find(h => h.hour >= overnightFrom && h.hour < overnightTo);
+    const overnightStart = overnight ? Date.parse(overnight.start) : randomStart;
+    
+    const hourErrors: CutoffRecord['hour_errors'] = [];
+    for (const h of hourly) {
+      const startMs = Date.parse(h.start);
+      const realized = future.filter(d => d.ts >= startMs && d.ts < startMs + HOUR_MS).map(d => d.spread_pct);
+      if (realized.length === 0) continue;
+      const actual = mean(realized);
+      hourErrors.push({ error: actual - h.p50_spread_pct, within_p90: actual <= h.p90_spread_pct });
+    }
+    
+    records.push({
+      model: {
+        ...score(Date.parse(top.start), top.hours),
+        predicted_probability: top.exceedance_probability,
+        confidence: top.confidence,
+      },
+      random_hour: score(randomStart, top.hours),
+      always_overnight: score(overnightStart, top.hours),
+      hour_errors: hourErrors,
+    });
+  }
+  
+  return records;
+}
+
+function summarize(records: CutoffRecord[]): WalkForwardMetrics {
+  const errors = records.flatMap(r => r.hour_errors);
+  
+  return {
+    cutoffs: records.length,
+    model: {
+      ...strategyScore(records.map(r => r.model)),
+      mean_predicted_probability: meanOrNull(records.map(r => r.model.predicted_probability)),
+      spread_mae_pct: meanOrNull(errors.map(e => Math.abs(e.error))),
+      spread_bias_pct: meanOrNull(errors.map(e => e.error)),
+      p90_coverage: shareOrNull(errors, e => e.within_p90),
+    },
+    baselines: {
+      random_hour: strategyScore(records.map(r => r.random_hour)),
+      always_overnight: strategyScore(records.map(r => r.always_overnight)),
+    },
+    calibration: (['high', 'medium', 'low'] as const).map(confidence => {
+      const bucket = records.filter(r => r.model.confidence === confidence).map(r => r.model);
+      return {
+        confidence,
+        count: bucket.length,
+        hit_rate: shareOrNull(bucket, b => b.hit),
+        mean_predicted_probability: meanOrNull(bucket.map(b => b.predicted_probability)),
+        mean_realized_exceedance: meanOrNull(bucket.map(b => b.realized_exceedance)),
+      };
+    }),
+  };
+}
+
+function strategyScore(scores: WindowScore[]): StrategyScore {
+  return {
+    forecasts: scores.length,
+    hit_rate: shareOrNull(scores, s => s.hit),
+    mean_realized_exceedance: meanOrNull(scores.map(s => s.realized_exceedance)),
+  };
+}
+
+function meanOrNull(values: number[]): number | null {
+  return values.length > 0 ? mean(values) : null;
+}
+
+function shareOrNull<T>(items: T[], predicate: (item: T) => boolean): number | null {
+  return items.length > 0 ? items.filter(predicate).length / items.length : null;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { MarketCalendar } from '../calendar';
+import { classifyTrigger, detectLiquidityWindows } from './liquidity-window';
+import type { OrderbookSnapshot } from '../types';
+
+const TIMEZONE = 'America/New_York';
+
+// Wednesday 2025-03-12, 14:00-15:00 New York
+const midweekAfternoon = { start_time: '2025-03-12T18:00:00Z', end_time: '2025-03-12T19:00:00Z', avg_volume_zscore: 0 };
+
+function calendarWithFomc(): MarketCalendar {
+  const calendar = new MarketCalendar({ files: [] });
+  calendar.add([{
+    id: 'fomc-2025-03',
+    name: 'FOMC statement',
+    kind: 'event',
+    start: '2025-03-12T18:00:00Z',
+    end: '2025-03-12T18:30:00Z',
+    categories: ['economics'],
+  }]);
+  return calendar;
+}
+
+describe('classifyTrigger', () => {
+  it('labels a window nothing explains as unexplained, not event_specific', () => {
+    expect(classifyTrigger(midweekAfternoon, TIMEZONE)).toBe('unexplained');
+    expect(classifyTrigger(midweekAfternoon, TIMEZONE, { calendar: new MarketCalendar({ files: [] }) })).toBe('unexplained');
+  });
+
+  it('gives event_specific only for a scheduled event in scope', () => {
+    const calendar = calendarWithFomc();
+
+    expect(classifyTrigger(midweekAfternoon, TIMEZONE, { calendar, category: 'economics' })).toBe('event_specific');
+    expect(classifyTrigger(midweekAfternoon, TIMEZONE, { calendar, category: 'sports' })).toBe('unexplained');
+  });
+
+  it('prefers holidays, then time of day, then volume', () => {
+    const calendar = new MarketCalendar({ files: [] });
+    const thanksgiving = { start_time: '2025-11-27T18:00:00Z', end_time: '2025-11-27T19:00:00Z', avg_volume_zscore: 0 };
+    const lateNight = { start_time: '2025-03-12T04:00:00Z', end_time: '2025-03-12T05:00:00Z', avg_volume_zscore: -2 };
+    const saturday = { start_time: '2025-03-15T18:00:00Z', end_time: '2025-03-15T19:00:00Z', avg_volume_zscore: 0 };
+
+    expect(classifyTrigger(thanksgiving, TIMEZONE, { calendar })).toBe('holiday');
+    expect(classifyTrigger(saturday, TIMEZONE)).toBe('weekend');
+    expect(classifyTrigger(lateNight, TIMEZONE)).toBe('late_night');
+    expect(classifyTrigger({ ...midweekAfternoon, avg_volume_zscore: -1.5 }, TIMEZONE)).toBe('low_volume');
+  });
+});
+
+describe('detectLiquidityWindows', () => {
+  // Hourly, alternating 100 / 110 bps, with 300 bps spikes at hours 40-42 and 60-62
+  const start = Date.UTC(2025, 2, 10);
+  const hourly: OrderbookSnapshot[] = Array.from({ length: 80 }, (_, h) => {
+    const spike = (h >= 40 && h < 43) || (h >= 60 && h < 63);
+    const spreadBps = spike ? 300 : h % 2 === 0 ? 100 : 110;
+    return {
+      timestamp: new Date(start + h * 3600000).toISOString(),
+      mid_price: 0.5,
+      spread: spreadBps / 20000,
+      spread_bps: spreadBps,
+      imbalance: 0,
+      bid_depth: 1000,
+      ask_depth: 1000,
+    };
+  });
+  const at = (h: number) => new Date(start + h * 3600000).toISOString();
+
+  it('finds each spike once the baseline is full', () => {
+    const windows = detectLiquidityWindows(hourly, { timezone: TIMEZONE });
+    expect(windows.map(w => [w.start_time, w.end_time])).toEqual([[at(40), at(43)], [at(60), at(63)]]);
+  });
+
+  it('uses snapshots before from only as baseline', () => {
+    const windows = detectLiquidityWindows(hourly, { timezone: TIMEZONE, from: at(50) });
+    expect(windows.map(w => w.start_time)).toEqual([at(60)]);
+  });
+});
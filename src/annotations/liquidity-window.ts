@@ -0,0 +1,259 @@
+/**
+ * Liquidity Window Annotator
+ * 
+ * Walks a market's snapshot history, classifies each snapshot's
+ * liquidity regime against the preceding lookback, and emits contiguous
+ * thin / very_thin periods as `liquidity_window` annotations with a
+ * fee-adjusted count of cross-venue opportunities inside each window.
+ */
+
+import type { LiquidityRegime, LiquidityWindow, MarketCategory, OrderbookSnapshot } from '../types';
+import {
+  DEFAULT_LIQUIDITY_REGIME_PARAMS,
+  localizeSnapshots,
+  RollingLiquidityBaseline,
+  type LiquidityRegimeParams,
+} from '../indicators/liquidity-regime';
+import { getLocalTimeParts, getTimezoneFor } from '../utils/time';
+import { analyzeMidPriceArb } from '../analysis/fees';
+import { strongestTag, type MarketCalendar } from '../calendar';
+
+export interface LiquidityWindowParams extends LiquidityRegimeParams {
+  min_duration_minutes: number;        // Shorter runs are dropped
+  regime_threshold: 'thin' | 'very_thin';
+  min_baseline_samples: number;        // Skip snapshots without enough history
+  from?: string;                       // Earlier snapshots only feed the baseline
+  
+  // Cross-venue opportunity counting
+  size_usd: number;
+  min_spread_pct: number;              // Gross spread to count as "detected"
+  min_net_profit_pct: number;
+  max_alignment_minutes: number;       // Max gap between Kalshi and Polymarket snapshots
+}
+
+export const DEFAULT_LIQUIDITY_WINDOW_PARAMS: LiquidityWindowParams = {
+  ...DEFAULT_LIQUIDITY_REGIME_PARAMS,
+  min_duration_minutes: 30,
+  regime_threshold: 'thin',
+  min_baseline_samples: 24,
+  size_usd: 1000,
+  min_spread_pct: 2,
+  min_net_profit_pct: 0.5,
+  max_alignment_minutes: 30,
+};
+
+/**
+ * Regime ordering, thinnest last
+ */
+const REGIME_RANK: Record<LiquidityRegime, number> = {
+  thick: 0,
+  normal: 1,
+  thin: 2,
+  very_thin: 3,
+};
+
+/**
+ * A thin run before opportunity analysis
+ */
+export interface DetectedWindow {
+  start_time: string;
+  end_time: string;
+  regime: LiquidityRegime;
+  snapshots: OrderbookSnapshot[];
+  avg_spread_bps: number;
+  avg_volume_zscore: number;
+}
+
+/**
+ * Find contiguous thin periods in a snapshot history.
+ * 
+ * Each snapshot is classified only against snapshots before it, so the
+ * result matches what the indicator would have said live. A window ends
+ * at the first snapshot back above the threshold (or the last snapshot).
+ * Pass history from `from - lookback_hours` so the first windows have a
+ * full baseline; no window starts before `from`.
+ */
+export function detectLiquidityWindows(
+  snapshots: OrderbookSnapshot[],
+  params: Partial<LiquidityWindowParams> = {}
+): DetectedWindow[] {
+  const p = { ...DEFAULT_LIQUIDITY_WINDOW_PARAMS, ...params };
+  const sorted = [...snapshots].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const threshold = REGIME_RANK[p.regime_threshold];
+  
+  const windows: DetectedWindow[] = [];
+  let run: { snapshot: OrderbookSnapshot; regime: LiquidityRegime; volume_zscore: number }[] = [];
+  
+  const closeRun = (endTime: string) => {
+    const first = run[0];
+    if (!first) return;
+    
+    const durationMinutes = (Date.parse(endTime) - Date.parse(first.snapshot.timestamp)) / 60000;
+    if (durationMinutes >= p.min_duration_minutes) {
+      const worst = run.reduce((a, b) => REGIME_RANK[b.regime] > REGIME_RANK[a.regime] ? b : a);
+      windows.push({
+        start_time: first.snapshot.timestamp,
+        end_time: endTime,
+        regime: worst.regime,
+        snapshots: run.map(r => r.snapshot),
+        avg_spread_bps: run.reduce((sum, r) => sum + r.snapshot.spread_bps, 0) / run.length,
+        avg_volume_zscore: run.reduce((sum, r) => sum + r.volume_zscore, 0) / run.length,
+      });
+    }
+    run = [];
+  };
+  
+  // Local hour / day resolved once per snapshot; the baseline slides forward
+  const fromMs = p.from ? Date.parse(p.from) : -Infinity;
+  const baseline = new RollingLiquidityBaseline(p);
+  for (const local of localizeSnapshots(sorted, p.timezone ?? getTimezoneFor())) {
+    const { snapshot, ts } = local;
+    baseline.evictBefore(ts - p.lookback_hours * 3600000);
+    
+    if (ts < fromMs || baseline.size < p.min_baseline_samples) {
+      closeRun(snapshot.timestamp);
+    } else {
+      const indicator = baseline.indicator('', local);
+      if (REGIME_RANK[indicator.regime] >= threshold) {
+        run.push({ snapshot, regime: indicator.regime, volume_zscore: indicator.volume_zscore });
+      } else {
+        closeRun(snapshot.timestamp);
+      }
+    }
+    
+    baseline.add(local);
+  }
+  
+  const last = sorted[sorted.length - 1];
+  if (last) closeRun(last.timestamp);
+  
+  return windows;
+}
+
+/**
+ * Calendar lookup for trigger classification
+ */
+export interface TriggerCalendarContext {
+  calendar: MarketCalendar;
+  market_id?: string;
+  category?: MarketCategory;
+}
+
+/**
+ * Why the window happened.
+ * 
+ * With a calendar, a window overlapping a holiday is 'holiday' and one
+ * overlapping a scheduled event for the market is 'event_specific';
+ * otherwise the time-based triggers apply. Only a calendar match gives
+ * 'event_specific'; windows nothing explains are 'unexplained'.
+ */
+export function classifyTrigger(
+  window: Pick<DetectedWindow, 'start_time' | 'end_time' | 'avg_volume_zscore'>,
+  timeZone?: string,
+  context?: TriggerCalendarContext
+): LiquidityWindow['trigger'] {
+  if (context) {
+    const matches = context.calendar.between(window.start_time, window.end_time, {
+      market_id: context.market_id,
+      category: context.category,
+    });
+    const tag = strongestTag(matches);
+    if (tag === 'holiday') return 'holiday';
+    if (tag === 'event') return 'event_specific';
+  }
+  
+  const local = getLocalTimeParts(window.start_time, timeZone);
+  if (local.is_weekend) return 'weekend';
+  
+  if (local.hour >= 22 || local.hour < 6) return 'late_night';
+  
+  if (window.avg_volume_zscore <= -1) return 'low_volume';
+  
+  return 'unexplained';
+}
+
+/**
+ * Annotate a market's history with liquidity windows.
+ * 
+ * `polymarketSnapshots` are aligned to the Kalshi snapshots inside each
+ * window (nearest within max_alignment_minutes) and every aligned pair
+ * is priced through replay-fee-oracle the same way scan_now does.
+ * Pass a calendar to classify holiday and event-driven windows.
+ */
+export async function annotateLiquidityWindows(
+  marketId: string,
+  kalshiSnapshots: OrderbookSnapshot[],
+  polymarketSnapshots: OrderbookSnapshot[],
+  params: Partial<LiquidityWindowParams> = {},
+  calendar?: Omit<TriggerCalendarContext, 'market_id'>
+): Promise<LiquidityWindow[]> {
+  const p = { ...DEFAULT_LIQUIDITY_WINDOW_PARAMS, ...params };
+  const timeZone = p.timezone ?? getTimezoneFor(marketId, calendar?.category);
+  const detected = detectLiquidityWindows(kalshiSnapshots, { ...p, timezone: timeZone });
+  const polySorted = [...polymarketSnapshots].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  
+  const windows: LiquidityWindow[] = [];
+  for (const window of detected) {
+    let detectedCount = 0;
+    let profitableCount = 0;
+    let netProfitPctSum = 0;
+    
+    for (const kalshi of window.snapshots) {
+      const poly = findNearestSnapshot(polySorted, kalshi.timestamp, p.max_alignment_minutes);
+      if (!poly) continue;
+      
+      const analysis = await analyzeMidPriceArb(kalshi.mid_price, poly.mid_price, p.size_usd, p.min_net_profit_pct);
+      if (analysis.gross_spread_pct < p.min_spread_pct) continue;
+      
+      detectedCount++;
+      netProfitPctSum += analysis.net_profit_pct;
+      if (analysis.is_profitable) profitableCount++;
+    }
+    
+    windows.push({
+      market_id: marketId,
+      start_time: window.start_time,
+      end_time: window.end_time,
+      regime: window.regime,
+      avg_spread_bps: window.avg_spread_bps,
+      trigger: classifyTrigger(window, timeZone, calendar && { ...calendar, market_id: marketId }),
+      opportunities_detected: detectedCount,
+      opportunities_profitable: profitableCount,
+      avg_net_profit_pct: detectedCount > 0 ? netProfitPctSum / detectedCount : 0,
+    });
+  }
+  
+  return windows;
+}
+
+/**
+ * Nearest snapshot to a timestamp (binary search over a sorted list)
+ */
+export function findNearestSnapshot(
+  sorted: OrderbookSnapshot[],
+  timestamp: string,
+  maxGapMinutes: number
+): OrderbookSnapshot | undefined {
+  const target = Date.parse(timestamp);
+  let lo = 0;
+  let hi = sorted.length - 1;
+  
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (Date.parse(sorted[mid]!.timestamp) < target) lo = mid + 1;
+    else hi = mid;
+  }
+  
+  const candidates = [sorted[lo - 1], sorted[lo]].filter((s): s is OrderbookSnapshot => s !== undefined);
+  let best: OrderbookSnapshot | undefined;
+  let bestGap = Infinity;
+  for (const c of candidates) {
+    const gap = Math.abs(Date.parse(c.timestamp) - target);
+    if (gap < bestGap) {
+      best = c;
+      bestGap = gap;
+    }
+  }
+  
+  return bestGap <= maxGapMinutes * 60000 ? best : undefined;
+}
@@ -0,0 +1,217 @@
+/**
+ * Calendar Events and Event Files
+ * 
+ * Scheduled events (games, FOMC, CPI releases, ...) from user-supplied
+ * files, mapped to markets and/or categories:
+ * - JSON: `{ "version": 1, "events": [...] }` (see eventFileSchema)
+ * - ICS: VEVENTs; CATEGORIES naming a market category and an
+ *   X-ARB-MARKETS list (comma-separated market IDs) set the scope, and
+ *   the loader can apply a default scope to the whole file
+ * 
+ * An event with neither markets nor categories applies to every market.
+ */
+
+import * as fs from 'fs';
+import { z } from 'zod';
+import { zonedTimeToUtc } from '../utils/time';
+
+const DEFAULT_EVENT_MINUTES = 60;
+
+// ═══════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════
+
+const marketCategorySchema = z.enum(['politics', 'sports', 'crypto', 'economics', 'weather', 'other']);
+
+export const calendarEventSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(['federal_holiday', 'market_holiday', 'market_early_close', 'event']),
+  start: z.string().describe('ISO timestamp'),
+  end: z.string().describe('ISO timestamp (exclusive)'),
+  markets: z.array(z.string()).optional().describe('Market IDs this event applies to'),
+  categories: z.array(marketCategorySchema).optional().describe('Categories this event applies to'),
+  pre_minutes: z.number().min(0).optional().describe('Lead-in counted as part of the event (overrides the calendar default)'),
+  post_minutes: z.number().min(0).optional().describe('Tail counted as part of the event (overrides the calendar default)'),
+});
+
+const eventFileEntrySchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  start: z.string().refine(s => !Number.isNaN(Date.parse(s)), 'start must be an ISO timestamp').describe('Include an offset (Z or +hh:mm)'),
+  end: z.string().refine(s => !Number.isNaN(Date.parse(s)), 'end must be an ISO timestamp').optional(),
+  duration_minutes: z.number().positive().optional().describe(`Used when end is omitted (default ${DEFAULT_EVENT_MINUTES})`),
+  markets: z.array(z.string()).optional(),
+  categories: z.array(marketCategorySchema).optional(),
+  pre_minutes: z.number().min(0).optional(),
+  post_minutes: z.number().min(0).optional(),
+});
+
+export const eventFileSchema = z.object({
+  version: z.literal(1),
+  events: z.array(eventFileEntrySchema),
+});
+
+export type CalendarEvent = z.infer<typeof calendarEventSchema>;
+export type CalendarEventKind = CalendarEvent['kind'];
+export type EventFile = z.infer<typeof eventFileSchema>;
+
+/**
+ * Scope applied to every event in a file that doesn't set its own
+ */
+export interface EventScope {
+  markets?: string[];
+  categories?: CalendarEvent['categories'];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LOADING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Load an event file; `.ics` files are parsed as iCalendar (floating
+ * times in `timeZone`), anything else as JSON
+ */
+export function loadEventFile(filePath: string, scope: EventScope = {}, timeZone?: string): CalendarEvent[] {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  try {
+    return filePath.toLowerCase().endsWith('.ics') ? parseIcs(text, scope, timeZone) : parseEventJson(JSON.parse(text), scope);
+  } catch (err) {
+    throw new Error(`Invalid event file ${filePath}: ${(err as Error).message}`);
+  }
+}
+
+export function parseEventJson(raw: unknown, scope: EventScope = {}): CalendarEvent[] {
+  const parsed = eventFileSchema.safeParse(raw);
+  if (!parsed.success) throw new Error(parsed.error.message);
+  
+  return parsed.data.events.map(e => {
+    const start = new Date(e.start);
+    const end = e.end
+      ? new Date(e.end)
+      : new Date(start.getTime() + (e.duration_minutes ?? DEFAULT_EVENT_MINUTES) * 60000);
+    return withScope({
+      id: e.id ?? `${e.name}@${start.toISOString()}`,
+      name: e.name,
+      kind: 'event',
+      start: start.toISOString(),
+      end: end.toISOString(),
+      markets: e.markets,
+      categories: e.categories,
+      pre_minutes: e.pre_minutes,
+      post_minutes: e.post_minutes,
+    }, scope);
+  });
+}
+
+/**
+ * Minimal RFC 5545 reader: VEVENT UID / SUMMARY / DTSTART / DTEND /
+ * DURATION / CATEGORIES / X-ARB-MARKETS. DATE values are all-day events
+ * in `timeZone`; DATE-TIME values honour TZID, then a trailing Z, then
+ * `timeZone`. Recurrence rules are not expanded.
+ */
+export function parseIcs(text: string, scope: EventScope = {}, timeZone?: string): CalendarEvent[] {
+  // Unfold continuation lines (leading space or tab)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: CalendarEvent[] = [];
+  let current: Map<string, { params: Record<string, string>; value: string }> | null = null;
+  
+  for (const raw of lines) {
+    const line = raw.trimEnd();
+    if (line === 'BEGIN:VEVENT') {
+      current = new Map();
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current) events.push(icsToEvent(current, scope, timeZone));
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+    
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const [key, value] = part.split('=');
+      if (key && value) params[key.toUpperCase()] = value;
+    }
+    current.set(name!.toUpperCase(), { params, value: line.slice(colon + 1) });
+  }
+  
+  return events;
+}
+
+function icsToEvent(
+  props: Map<string, { params: Record<string, string>; value: string }>,
+  scope: EventScope,
+  timeZone?: string
+): CalendarEvent {
+  const dtstart = props.get('DTSTART');
+  if (!dtstart) throw new Error('VEVENT without DTSTART');
+  
+  const start = parseIcsDate(dtstart.value, dtstart.params, timeZone);
+  const dtend = props.get('DTEND');
+  const duration = props.get('DURATION');
+  const allDay = dtstart.params['VALUE'] === 'DATE' || /^\d{8}$/.test(dtstart.value);
+  
+  let end: Date;
+  if (dtend) end = parseIcsDate(dtend.value, dtend.params, timeZone);
+  else if (duration) end = new Date(start.getTime() + parseIcsDuration(duration.value));
+  else end = new Date(start.getTime() + (allDay ? 24 * 60 : DEFAULT_EVENT_MINUTES) * 60000);
+  
+  const categories = (props.get('CATEGORIES')?.value ?? '')
+    .split(',')
+    .map(c => c.trim().toLowerCase())
+    .filter((c): c is NonNullable<CalendarEvent['categories']>[number] => marketCategorySchema.safeParse(c).success);
+  const markets = (props.get('X-ARB-MARKETS')?.value ?? '')
+    .split(',')
+    .map(m => m.trim())
+    .filter(m => m.length > 0);
+  
+  const name = unescapeIcsText(props.get('SUMMARY')?.value ?? 'Untitled event');
+  return withScope({
+    id: props.get('UID')?.value ?? `${name}@${start.toISOString()}`,
+    name,
+    kind: 'event',
+    start: start.toISOString(),
+    end: end.toISOString(),
+    markets: markets.length > 0 ? markets : undefined,
+    categories: categories.length > 0 ? categories : undefined,
+  }, scope);
+}
+
+function parseIcsDate(value: string, params: Record<string, string>, timeZone?: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) throw new Error(`Unsupported ICS date "${value}"`);
+  
+  const [, y, mo, d, h = '00', mi = '00', s = '00', utc] = match;
+  if (utc) return new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)));
+  
+  const local = zonedTimeToUtc(`${y}-${mo}-${d}`, Number(h), Number(mi), params['TZID'] ?? timeZone);
+  return new Date(local.getTime() + Number(s) * 1000);
+}
+
+/**
+ * RFC 5545 DURATION (e.g. PT1H30M, P1D) in milliseconds
+ */
+function parseIcsDuration(value: string): number {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value);
+  if (!match) throw new Error(`Unsupported ICS duration "${value}"`);
+  const [, sign, w, d, h, m, s] = match;
+  const ms = ((Number(w ?? 0) * 7 + Number(d ?? 0)) * 86400 + Number(h ?? 0) * 3600 + Number(m ?? 0) * 60 + Number(s ?? 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+function withScope(event: CalendarEvent, scope: EventScope): CalendarEvent {
+  return {
+    ...event,
+    markets: event.markets ?? scope.markets,
+    categories: event.categories ?? scope.categories,
+  };
+}
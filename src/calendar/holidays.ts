@@ -0,0 +1,180 @@
+/**
+ * US Holidays by Rule
+ * 
+ * Federal holidays (5 U.S.C. 6103) and NYSE market holidays / early
+ * closes for any year, with no data file to keep current:
+ * - Fixed dates move to the nearest weekday when they fall on a weekend
+ *   (federal: Sat → Fri, Sun → Mon; NYSE skips a Saturday New Year's)
+ * - Nth-weekday rules (MLK, Presidents, Memorial, Labor, Columbus,
+ *   Thanksgiving)
+ * - Good Friday from the Gregorian Easter computus (NYSE only)
+ * 
+ * Each holiday spans the whole local day in the calendar's timezone;
+ * early closes span from the 1pm close to midnight.
+ */
+
+import { zonedTimeToUtc } from '../utils/time';
+import type { CalendarEvent } from './events';
+
+const EARLY_CLOSE_HOUR = 13;
+
+export interface HolidayDate {
+  name: string;
+  date: string;                        // YYYY-MM-DD (observed)
+}
+
+/**
+ * Federal, NYSE holiday and NYSE early-close events for one year
+ */
+export function getUsHolidays(year: number, timeZone: string): CalendarEvent[] {
+  const dayEvent = (kind: CalendarEvent['kind'], h: HolidayDate): CalendarEvent => ({
+    id: `${kind}:${h.date}`,
+    name: h.name,
+    kind,
+    start: zonedTimeToUtc(h.date, 0, 0, timeZone).toISOString(),
+    end: zonedTimeToUtc(addDays(h.date, 1), 0, 0, timeZone).toISOString(),
+  });
+  
+  return [
+    ...federalHolidays(year).map(h => dayEvent('federal_holiday', h)),
+    ...marketHolidays(year).map(h => dayEvent('market_holiday', h)),
+    ...marketEarlyCloses(year).map(h => ({
+      ...dayEvent('market_early_close', h),
+      start: zonedTimeToUtc(h.date, EARLY_CLOSE_HOUR, 0, timeZone).toISOString(),
+    })),
+  ];
+}
+
+/**
+ * Observed federal holidays (a Saturday New Year's is observed the
+ * previous December 31)
+ */
+export function federalHolidays(year: number): HolidayDate[] {
+  const holidays: HolidayDate[] = [
+    { name: "New Year's Day", date: observedFederal(ymd(year, 1, 1)) },
+    { name: 'Martin Luther King Jr. Day', date: nthWeekday(year, 1, 1, 3) },
+    { name: "Washington's Birthday", date: nthWeekday(year, 2, 1, 3) },
+    { name: 'Memorial Day', date: lastWeekday(year, 5, 1) },
+    { name: 'Independence Day', date: observedFederal(ymd(year, 7, 4)) },
+    { name: 'Labor Day', date: nthWeekday(year, 9, 1, 1) },
+    { name: 'Columbus Day', date: nthWeekday(year, 10, 1, 2) },
+    { name: 'Veterans Day', date: observedFederal(ymd(year, 11, 11)) },
+    { name: 'Thanksgiving Day', date: nthWeekday(year, 11, 4, 4) },
+    { name: 'Christmas Day', date: observedFederal(ymd(year, 12, 25)) },
+  ];
+  if (year >= 2021) {
+    holidays.push({ name: 'Juneteenth National Independence Day', date: observedFederal(ymd(year, 6, 19)) });
+  }
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * NYSE full-day closures
+ */
+export function marketHolidays(year: number): HolidayDate[] {
+  const holidays: HolidayDate[] = [
+    { name: 'Martin Luther King Jr. Day', date: nthWeekday(year, 1, 1, 3) },
+    { name: "Washington's Birthday", date: nthWeekday(year, 2, 1, 3) },
+    { name: 'Good Friday', date: addDays(easterSunday(year), -2) },
+    { name: 'Memorial Day', date: lastWeekday(year, 5, 1) },
+    { name: 'Independence Day', date: observedFederal(ymd(year, 7, 4)) },
+    { name: 'Labor Day', date: nthWeekday(year, 9, 1, 1) },
+    { name: 'Thanksgiving Day', date: nthWeekday(year, 11, 4, 4) },
+    { name: 'Christmas Day', date: observedFederal(ymd(year, 12, 25)) },
+  ];
+  
+  // A Saturday New Year's is not observed on the previous Friday
+  const newYear = ymd(year, 1, 1);
+  if (weekday(newYear) !== 6) holidays.push({ name: "New Year's Day", date: observedFederal(newYear) });
+  if (year >= 2022) holidays.push({ name: 'Juneteenth National Independence Day', date: observedFederal(ymd(year, 6, 19)) });
+  
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * 1pm closes: July 3 (weekday, when the 4th is not a Saturday holiday
+ * observed on it), the day after Thanksgiving, and a weekday Christmas Eve
+ */
+export function marketEarlyCloses(year: number): HolidayDate[] {
+  const closes: HolidayDate[] = [];
+  
+  const july3 = ymd(year, 7, 3);
+  if (isWeekday(july3) && observedFederal(ymd(year, 7, 4)) !== july3) {
+    closes.push({ name: 'Independence Day (early close)', date: july3 });
+  }
+  closes.push({ name: 'Day after Thanksgiving (early close)', date: addDays(nthWeekday(year, 11, 4, 4), 1) });
+  
+  const christmasEve = ymd(year, 12, 24);
+  if (isWeekday(christmasEve) && observedFederal(ymd(year, 12, 25)) !== christmasEve) {
+    closes.push({ name: 'Christmas Eve (early close)', date: christmasEve });
+  }
+  
+  return closes;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// DATE RULES
+// ═══════════════════════════════════════════════════════════════
+
+function ymd(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function isWeekday(date: string): boolean {
+  const day = weekday(date);
+  return day !== 0 && day !== 6;
+}
+
+/**
+ * Saturday → Friday, Sunday → Monday
+ */
+function observedFederal(date: string): string {
+  const day = weekday(date);
+  if (day === 6) return addDays(date, -1);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * nth (1-based) `dow` (0=Sun) of a month
+ */
+function nthWeekday(year: number, month: number, dow: number, n: number): string {
+  const first = ymd(year, month, 1);
+  const offset = (dow - weekday(first) + 7) % 7;
+  return addDays(first, offset + (n - 1) * 7);
+}
+
+function lastWeekday(year: number, month: number, dow: number): string {
+  const last = addDays(ymd(year, month + 1, 1), -1);
+  const offset = (weekday(last) - dow + 7) % 7;
+  return addDays(last, -offset);
+}
+
+/**
+ * Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+}
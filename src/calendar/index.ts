@@ -0,0 +1,48 @@
+/**
+ * Holiday and Event Calendar
+ * 
+ * US federal / NYSE holidays computed by rule, plus scheduled events
+ * (games, FOMC, CPI, ...) from JSON or ICS files mapped to markets or
+ * categories. Used by spread statistics, predict mode and liquidity
+ * window trigger classification.
+ * 
+ * @example
+ * ```ts
+ * const calendar = getMarketCalendar();   // loads data/events.{json,ics} if present
+ * calendar.loadFile('fomc-2025.ics', { categories: ['economics'] });
+ * 
+ * calendar.between(now, inSixHours, { market_id: 'KXFEDCUT-DEC', category: 'economics' });
+ * calendar.tagAt('2025-12-25T15:00:00Z');   // 'holiday'
+ * ```
+ */
+
+export {
+  MarketCalendar,
+  getMarketCalendar,
+  strongestTag,
+  DEFAULT_MARKET_CALENDAR_CONFIG,
+  type MarketCalendarConfig,
+  type CalendarScope,
+  type CalendarMatch,
+  type CalendarTag,
+} from './market-calendar';
+
+export {
+  calendarEventSchema,
+  eventFileSchema,
+  loadEventFile,
+  parseEventJson,
+  parseIcs,
+  type CalendarEvent,
+  type CalendarEventKind,
+  type EventFile,
+  type EventScope,
+} from './events';
+
+export {
+  getUsHolidays,
+  federalHolidays,
+  marketHolidays,
+  marketEarlyCloses,
+  type HolidayDate,
+} from './holidays';
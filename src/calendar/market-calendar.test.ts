@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { MarketCalendar } from './market-calendar';
+
+const thanksgiving2025 = ['2025-11-27T05:00:00Z', '2025-11-28T05:00:00Z'] as const;
+
+describe('MarketCalendar.between', () => {
+  it('returns a federal and NYSE holiday on the same day once, as the market holiday', () => {
+    const matches = new MarketCalendar({ files: [] }).between(...thanksgiving2025);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ name: 'Thanksgiving Day', kind: 'market_holiday', tag: 'holiday' });
+  });
+
+  it('keeps holidays observed by only one of the two calendars', () => {
+    const calendar = new MarketCalendar({ files: [] });
+    const veterans = calendar.between('2025-11-11T05:00:00Z', '2025-11-12T05:00:00Z');
+    const goodFriday = calendar.between('2025-04-18T04:00:00Z', '2025-04-19T04:00:00Z');
+
+    expect(veterans.map(m => [m.name, m.kind])).toEqual([['Veterans Day', 'federal_holiday']]);
+    expect(goodFriday.map(m => [m.name, m.kind])).toEqual([['Good Friday', 'market_holiday']]);
+  });
+
+  it('keeps the federal entry when market holidays are not selected', () => {
+    const calendar = new MarketCalendar({ files: [], holiday_kinds: ['federal_holiday'] });
+    const matches = calendar.between(...thanksgiving2025);
+
+    expect(matches.map(m => m.kind)).toEqual(['federal_holiday']);
+  });
+
+  it('lists each holiday once across a year', () => {
+    const matches = new MarketCalendar({ files: [] }).between('2025-01-01T00:00:00Z', '2026-01-01T00:00:00Z');
+    const days = matches.map(m => `${m.start}|${m.name}`);
+
+    expect(new Set(days).size).toBe(days.length);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Market Calendar
+ * 
+ * Holidays (computed by rule, per year, on demand) plus scheduled events
+ * from event files, queried by time range and market scope. Events are
+ * widened by a lead-in and tail, since books thin out ahead of an FOMC
+ * statement and stay thin for a while after a CPI print.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MarketCategory } from '../types';
+import { DEFAULT_TIMEZONE } from '../utils/time';
+import { loadEventFile, type CalendarEvent, type CalendarEventKind, type EventScope } from './events';
+import { getUsHolidays } from './holidays';
+
+const DEFAULT_EVENT_FILES = process.env.ARB_OPPITY_CALENDAR_FILES
+  ? process.env.ARB_OPPITY_CALENDAR_FILES.split(',').map(f => f.trim()).filter(Boolean)
+  : [path.join(process.cwd(), 'data', 'events.json'), path.join(process.cwd(), 'data', 'events.ics')];
+
+export type CalendarTag = 'holiday' | 'event';
+
+export interface MarketCalendarConfig {
+  files?: string[];                    // Missing files are skipped
+  holidays?: boolean;                  // Include US federal / NYSE holidays (default true)
+  holiday_kinds?: CalendarEventKind[]; // Which holiday kinds count (default all three)
+  timezone?: string;                   // Holiday days and floating ICS times
+  pre_event_minutes?: number;
+  post_event_minutes?: number;
+}
+
+export const DEFAULT_MARKET_CALENDAR_CONFIG: Required<Omit<MarketCalendarConfig, 'files'>> = {
+  holidays: true,
+  holiday_kinds: ['federal_holiday', 'market_holiday', 'market_early_close'],
+  timezone: DEFAULT_TIMEZONE,
+  pre_event_minutes: 60,
+  post_event_minutes: 120,
+};
+
+/**
+ * Market a lookup is for; omit both to match only market-wide entries
+ */
+export interface CalendarScope {
+  market_id?: string;
+  category?: MarketCategory;
+}
+
+/**
+ * An event or holiday overlapping a query, with its effective span
+ * (events include their lead-in and tail)
+ */
+export interface CalendarMatch {
+  id: string;
+  name: string;
+  kind: CalendarEventKind;
+  tag: CalendarTag;
+  start: string;
+  end: string;
+  effective_start: string;
+  effective_end: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CALENDAR
+// ═══════════════════════════════════════════════════════════════
+
+export class MarketCalendar {
+  private config: Required<Omit<MarketCalendarConfig, 'files'>>;
+  private events: CalendarEvent[] = [];
+  private holidayYears = new Map<number, CalendarEvent[]>();
+  
+  constructor(config?: MarketCalendarConfig) {
+    this.config = { ...DEFAULT_MARKET_CALENDAR_CONFIG, ...config };
+    for (const file of config?.files ?? DEFAULT_EVENT_FILES) {
+      if (fs.existsSync(file)) this.loadFile(file);
+    }
+  }
+  
+  /**
+   * Load events from a JSON or ICS file; returns how many were added
+   */
+  loadFile(filePath: string, scope: EventScope = {}): number {
+    const events = loadEventFile(filePath, scope, this.config.timezone);
+    this.add(events);
+    return events.length;
+  }
+  
+  /**
+   * Add events (same id replaces)
+   */
+  add(events: CalendarEvent[]): void {
+    const ids = new Set(events.map(e => e.id));
+    this.events = [...this.events.filter(e => !ids.has(e.id)), ...events]
+      .sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+  }
+  
+  /**
+   * User-supplied events (holidays are generated, not stored)
+   */
+  listEvents(): CalendarEvent[] {
+    return [...this.events];
+  }
+  
+  /**
+   * Holidays and scoped events overlapping [from, to), earliest first
+   */
+  between(from: string | number | Date, to: string | number | Date, scope: CalendarScope = {}): CalendarMatch[] {
+    const fromMs = new Date(from).getTime();
+    const toMs = new Date(to).getTime();
+    
+    const matches: CalendarMatch[] = [];
+    for (const entry of [...this.holidaysBetween(fromMs, toMs), ...this.events]) {
+      if (entry.kind === 'event' && !appliesTo(entry, scope)) continue;
+      
+      const match = this.toMatch(entry);
+      if (Date.parse(match.effective_start) < toMs && Date.parse(match.effective_end) > fromMs) {
+        matches.push(match);
+      }
+    }
+    
+    return matches.sort((a, b) => a.effective_start.localeCompare(b.effective_start));
+  }
+  
+  /**
+   * Entries in effect at a timestamp
+   */
+  at(timestamp: string | number | Date, scope: CalendarScope = {}): CalendarMatch[] {
+    const ms = new Date(timestamp).getTime();
+    return this.between(ms, ms + 1, scope);
+  }
+  
+  /**
+   * 'holiday' beats 'event'; null when neither is in effect
+   */
+  tagAt(timestamp: string | number | Date, scope: CalendarScope = {}): CalendarTag | null {
+    return strongestTag(this.at(timestamp, scope));
+  }
+  
+  private holidaysBetween(fromMs: number, toMs: number): CalendarEvent[] {
+    if (!this.config.holidays || !(toMs > fromMs)) return [];
+    
+    // Observed dates can fall in the neighbouring year (Dec 31 New Year's)
+    const firstYear = new Date(fromMs).getUTCFullYear() - 1;
+    const lastYear = new Date(toMs).getUTCFullYear() + 1;
+    const holidays: CalendarEvent[] = [];
+    for (let year = firstYear; year <= lastYear; year++) {
+      if (!this.holidayYears.has(year)) {
+        this.holidayYears.set(
+          year,
+          mergeSameDay(getUsHolidays(year, this.config.timezone).filter(h => this.config.holiday_kinds.includes(h.kind)))
+        );
+      }
+      holidays.push(...this.holidayYears.get(year)!);
+    }
+    return holidays;
+  }
+  
+  private toMatch(entry: CalendarEvent): CalendarMatch {
+    const isEvent = entry.kind === 'event';
+    const pre = isEvent ? entry.pre_minutes ?? this.config.pre_event_minutes : 0;
+    const post = isEvent ? entry.post_minutes ?? this.config.post_event_minutes : 0;
+    
+    return {
+      id: entry.id,
+      name: entry.name,
+      kind: entry.kind,
+      tag: isEvent ? 'event' : 'holiday',
+      start: entry.start,
+      end: entry.end,
+      effective_start: new Date(Date.parse(entry.start) - pre * 60000).toISOString(),
+      effective_end: new Date(Date.parse(entry.end) + post * 60000).toISOString(),
+    };
+  }
+}
+
+/**
+ * 'holiday' if any match is a holiday, else 'event' if any, else null
+ */
+export function strongestTag(matches: Pick<CalendarMatch, 'tag'>[]): CalendarTag | null {
+  if (matches.some(m => m.tag === 'holiday')) return 'holiday';
+  if (matches.length > 0) return 'event';
+  return null;
+}
+
+/**
+ * One entry per holiday: a day that is both a federal and an NYSE
+ * holiday (Thanksgiving, Christmas, ...) is kept as the market holiday
+ */
+function mergeSameDay(holidays: CalendarEvent[]): CalendarEvent[] {
+  const byDay = new Map<string, CalendarEvent>();
+  for (const holiday of holidays) {
+    const key = `${holiday.start}|${holiday.name}`;
+    if (!byDay.has(key) || holiday.kind === 'market_holiday') byDay.set(key, holiday);
+  }
+  return [...byDay.values()];
+}
+
+function appliesTo(event: CalendarEvent, scope: CalendarScope): boolean {
+  const hasMarkets = (event.markets?.length ?? 0) > 0;
+  const hasCategories = (event.categories?.length ?? 0) > 0;
+  if (!hasMarkets && !hasCategories) return true;
+  
+  return (scope.market_id !== undefined && (event.markets ?? []).includes(scope.market_id))
+    || (scope.category !== undefined && (event.categories ?? []).includes(scope.category));
+}
+
+// Singleton instance
+let calendarInstance: MarketCalendar | null = null;
+
+export function getMarketCalendar(config?: MarketCalendarConfig): MarketCalendar {
+  if (!calendarInstance) {
+    calendarInstance = new MarketCalendar(config);
+  }
+  return calendarInstance;
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FixtureNotFoundError, FixtureTransport, TIME_WINDOW_PARAMS, fixtureKey, withFixtures } from './fixtures';
+import type { JsonRequestInit, JsonTransport } from './http';
+
+const BASE = 'https://api.replaylabs.example';
+
+describe('fixtureKey', () => {
+  it('sorts query params and ignores the host', () => {
+    const a = fixtureKey(`${BASE}/api/orderbook/X?interval=1h&limit=10`);
+    const b = fixtureKey(`http://localhost:4010/api/orderbook/X?limit=10&interval=1h`);
+
+    expect(a).toBe('GET /api/orderbook/X?interval=1h&limit=10');
+    expect(b).toBe(a);
+  });
+
+  it('keys on the full query by default', () => {
+    const key = fixtureKey(`${BASE}/api/orderbook/X?start=2025-01-01&end=2025-01-15&interval=1h`);
+    expect(key).toBe('GET /api/orderbook/X?end=2025-01-15&interval=1h&start=2025-01-01');
+  });
+
+  it('leaves time-window params out when asked', () => {
+    const url = `${BASE}/api/orderbook/X?start=2025-01-01&end=2025-01-15&interval=1h&start_ts=1&endTs=2`;
+    expect(fixtureKey(url, {}, TIME_WINDOW_PARAMS)).toBe('GET /api/orderbook/X?interval=1h');
+  });
+
+  it('honors a custom ignore list', () => {
+    const key = fixtureKey(`${BASE}/api/orderbook/X?start=2025-01-01&interval=1h`, {}, ['interval']);
+    expect(key).toBe('GET /api/orderbook/X?start=2025-01-01');
+  });
+
+  it('includes the method and a hash of the body', () => {
+    const url = `${BASE}/api/kalshi/markets/candlesticks`;
+    const first = fixtureKey(url, { method: 'post', body: JSON.stringify({ tickers: ['A'] }) });
+    const again = fixtureKey(url, { method: 'POST', body: JSON.stringify({ tickers: ['A'] }) });
+    const other = fixtureKey(url, { method: 'POST', body: JSON.stringify({ tickers: ['B'] }) });
+
+    expect(first).toMatch(/^POST \/api\/kalshi\/markets\/candlesticks #[0-9a-f]{12}$/);
+    expect(again).toBe(first);
+    expect(other).not.toBe(first);
+    expect(fixtureKey(url)).toBe('GET /api/kalshi/markets/candlesticks');
+  });
+});
+
+describe('FixtureTransport', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function fakeTransport(): JsonTransport & { calls: string[] } {
+    const calls: string[] = [];
+    return {
+      calls,
+      async requestJson<T>(url: string, _init?: JsonRequestInit): Promise<T> {
+        calls.push(url);
+        return { url, n: calls.length } as T;
+      },
+    };
+  }
+
+  it('throws FixtureNotFoundError with the key and file on a replay miss', async () => {
+    const replay = new FixtureTransport({ mode: 'replay', dir });
+    const error = await replay.requestJson(`${BASE}/api/kalshi/markets?status=open`)
+      .then(() => null, (e: FixtureNotFoundError) => e);
+
+    expect(error).toBeInstanceOf(FixtureNotFoundError);
+    expect(error!.key).toBe('GET /api/kalshi/markets?status=open');
+    expect(path.dirname(error!.file)).toBe(dir);
+    expect(path.basename(error!.file)).toMatch(/^GET_api_kalshi_markets_[0-9a-f]{16}\.json$/);
+    expect(error!.message).toContain(error!.key);
+    expect(error!.message).toContain('record');
+  });
+
+  it('replays what was recorded without calling the inner transport', async () => {
+    const inner = fakeTransport();
+    const recorder = withFixtures(inner, { mode: 'record', dir });
+    const recorded = await recorder.requestJson(`${BASE}/api/orderbook/X?interval=1h&start=2025-01-01`);
+
+    const spy = vi.spyOn(inner, 'requestJson');
+    const replay = withFixtures(inner, { mode: 'replay', dir });
+    // Different host, same key
+    const replayed = await replay.requestJson('http://localhost:4010/api/orderbook/X?start=2025-01-01&interval=1h');
+
+    expect(replayed).toEqual(recorded);
+    expect(spy).not.toHaveBeenCalled();
+    expect(fs.readdirSync(dir)).toHaveLength(1);
+  });
+
+  it('misses on a different time window unless time params are ignored', async () => {
+    const inner = fakeTransport();
+    const recorded = await withFixtures(inner, { mode: 'record', dir, ignoreParams: TIME_WINDOW_PARAMS })
+      .requestJson(`${BASE}/api/orderbook/X?interval=1h&start=2025-01-01`);
+
+    const later = `${BASE}/api/orderbook/X?interval=1h&start=2025-06-01`;
+    await expect(withFixtures(inner, { mode: 'replay', dir }).requestJson(later)).rejects.toBeInstanceOf(FixtureNotFoundError);
+    await expect(withFixtures(inner, { mode: 'replay', dir, ignoreParams: TIME_WINDOW_PARAMS }).requestJson(later))
+      .resolves.toEqual(recorded);
+  });
+
+  it('does not record failed requests', async () => {
+    const failing: JsonTransport = { requestJson: async () => { throw new Error('503'); } };
+    const recorder = new FixtureTransport({ mode: 'record', dir, inner: failing });
+
+    await expect(recorder.requestJson(`${BASE}/api/kalshi/markets`)).rejects.toThrow('503');
+    expect(fs.readdirSync(dir)).toHaveLength(0);
+  });
+
+  it('needs an inner transport to record', () => {
+    expect(() => new FixtureTransport({ mode: 'record', dir })).toThrow(/inner transport/);
+  });
+
+  it('leaves the transport alone in live mode', () => {
+    const inner = fakeTransport();
+    expect(withFixtures(inner, { mode: 'live', dir })).toBe(inner);
+  });
+});
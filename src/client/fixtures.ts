@@ -0,0 +1,168 @@
+/**
+ * Record / Replay Fixtures
+ * 
+ * Wraps a JsonTransport so API sessions can be captured to disk and
+ * replayed deterministically (regression tests, offline demos).
+ * 
+ * Fixtures are keyed by method, path and the full sorted query (plus a
+ * hash of the body for POSTs); the host and auth headers are ignored so
+ * recordings work against any deployment. Callers whose time windows
+ * derive from the current time opt in to leaving TIME_WINDOW_PARAMS out
+ * of the key, or they would never match on replay. One JSON file per
+ * request:
+ *   <dir>/<METHOD>_<path>_<hash>.json
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JsonRequestInit, JsonTransport } from './http';
+
+export type ClientMode = 'live' | 'record' | 'replay';
+
+export const DEFAULT_FIXTURES_DIR = process.env.REPLAY_LABS_FIXTURES_DIR
+  || path.join(process.cwd(), 'fixtures', 'replay-labs');
+
+/**
+ * Time-window query params, for callers that opt in to ignoring them
+ */
+export const TIME_WINDOW_PARAMS = ['start', 'end', 'start_ts', 'end_ts', 'startTs', 'endTs'];
+
+/**
+ * Mode from REPLAY_LABS_MODE, defaulting to live
+ */
+export const DEFAULT_CLIENT_MODE: ClientMode = parseClientMode(process.env.REPLAY_LABS_MODE);
+
+export interface Fixture {
+  key: string;
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: unknown;
+  recorded_at: string;
+  response: unknown;
+}
+
+/**
+ * Replay hit a request that was never recorded
+ */
+export class FixtureNotFoundError extends Error {
+  readonly key: string;
+  readonly file: string;
+  
+  constructor(key: string, file: string) {
+    super(`No recorded fixture for ${key} (expected ${file}). Re-run in 'record' mode to capture it.`);
+    this.name = 'FixtureNotFoundError';
+    this.key = key;
+    this.file = file;
+  }
+}
+
+export class FixtureTransport implements JsonTransport {
+  readonly mode: Exclude<ClientMode, 'live'>;
+  readonly dir: string;
+  private inner: JsonTransport | null;
+  private ignoredParams: Set<string>;
+  
+  /**
+   * `inner` is required for record mode; replay never touches it
+   */
+  constructor(config: {
+    mode: Exclude<ClientMode, 'live'>;
+    dir?: string;
+    inner?: JsonTransport;
+    ignoreParams?: string[];
+  }) {
+    if (config.mode === 'record' && !config.inner) {
+      throw new Error('FixtureTransport in record mode needs an inner transport');
+    }
+    this.mode = config.mode;
+    this.dir = config.dir || DEFAULT_FIXTURES_DIR;
+    this.inner = config.inner ?? null;
+    this.ignoredParams = new Set(config.ignoreParams ?? []);
+  }
+  
+  async requestJson<T>(url: string, init: JsonRequestInit = {}): Promise<T> {
+    const request = describeRequest(url, init, this.ignoredParams);
+    const file = path.join(this.dir, fixtureFileName(request));
+    
+    if (this.mode === 'replay') {
+      if (!fs.existsSync(file)) {
+        throw new FixtureNotFoundError(request.key, file);
+      }
+      const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as Fixture;
+      return fixture.response as T;
+    }
+    
+    // Record: only successful responses are captured; errors propagate
+    const response = await this.inner!.requestJson<T>(url, init);
+    const fixture: Fixture = { ...request, recorded_at: new Date().toISOString(), response };
+    
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2), 'utf-8');
+    return response;
+  }
+}
+
+/**
+ * Wrap a transport for the given mode (live returns it unchanged)
+ */
+export function withFixtures(
+  transport: JsonTransport,
+  options: { mode?: ClientMode; dir?: string; ignoreParams?: string[] } = {}
+): JsonTransport {
+  const mode = options.mode ?? DEFAULT_CLIENT_MODE;
+  if (mode === 'live') return transport;
+  return new FixtureTransport({ mode, dir: options.dir, inner: transport, ignoreParams: options.ignoreParams });
+}
+
+/**
+ * Stable key for a request: method, path, sorted query params, body hash
+ */
+export function fixtureKey(
+  url: string,
+  init: JsonRequestInit = {},
+  ignoreParams: string[] = []
+): string {
+  return describeRequest(url, init, new Set(ignoreParams)).key;
+}
+
+function describeRequest(
+  url: string,
+  init: JsonRequestInit,
+  ignoredParams: Set<string>
+): Omit<Fixture, 'recorded_at' | 'response'> {
+  const parsed = new URL(url);
+  const method = (init.method ?? 'GET').toUpperCase();
+  const query: Record<string, string> = {};
+  for (const name of [...new Set(parsed.searchParams.keys())].sort()) {
+    query[name] = parsed.searchParams.getAll(name).join(',');
+  }
+  
+  const queryString = Object.entries(query)
+    .filter(([k]) => !ignoredParams.has(k))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+  let key = `${method} ${parsed.pathname}${queryString ? `?${queryString}` : ''}`;
+  
+  let body: unknown;
+  if (init.body !== undefined) {
+    body = JSON.parse(init.body);
+    key += ` #${hash(init.body).slice(0, 12)}`;
+  }
+  
+  return { key, method, path: parsed.pathname, query, body };
+}
+
+function fixtureFileName(request: { key: string; method: string; path: string }): string {
+  const slug = request.path.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 80);
+  return `${request.method}_${slug}_${hash(request.key).slice(0, 16)}.json`;
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function parseClientMode(value: string | undefined): ClientMode {
+  return value === 'record' || value === 'replay' ? value : 'live';
+}
@@ -0,0 +1,236 @@
+/**
+ * Resilient HTTP Transport
+ * 
+ * Shared by ReplayLabsClient and the analysis script:
+ * - Per-request timeout (AbortController)
+ * - Exponential backoff with full jitter on 5xx and network errors
+ * - Token-bucket rate limiting, paused by Retry-After on 429
+ * - Typed ReplayLabsApiError with status, endpoint and response body
+ */
+
+export interface HttpTransportConfig {
+  timeout_ms: number;
+  max_retries: number;                 // Retries after the first attempt
+  base_delay_ms: number;               // Backoff cap doubles from here
+  max_delay_ms: number;
+  rate_limit: {
+    capacity: number;                  // Burst size
+    refill_per_second: number;         // Sustained requests per second
+  };
+}
+
+export const DEFAULT_HTTP_CONFIG: HttpTransportConfig = {
+  timeout_ms: 15_000,
+  max_retries: 3,
+  base_delay_ms: 500,
+  max_delay_ms: 10_000,
+  rate_limit: {
+    capacity: 10,
+    refill_per_second: 5,
+  },
+};
+
+export interface JsonRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Anything that can send a request and return parsed JSON - the live
+ * HttpTransport, or a FixtureTransport recording / replaying it
+ */
+export interface JsonTransport {
+  requestJson<T>(url: string, init?: JsonRequestInit): Promise<T>;
+}
+
+// Used when a 429 carries no (or an unparseable) Retry-After
+const DEFAULT_RETRY_AFTER_MS = 1_000;
+
+/**
+ * Error from a Replay Labs request. `status` is null when no response
+ * arrived (timeout or network failure).
+ */
+export class ReplayLabsApiError extends Error {
+  readonly status: number | null;
+  readonly endpoint: string;
+  readonly body: string | null;
+  readonly attempts: number;
+  
+  constructor(params: { message: string; status: number | null; endpoint: string; body: string | null; attempts: number; cause?: unknown }) {
+    super(params.message, { cause: params.cause });
+    this.name = 'ReplayLabsApiError';
+    this.status = params.status;
+    this.endpoint = params.endpoint;
+    this.body = params.body;
+    this.attempts = params.attempts;
+  }
+  
+  /**
+   * True for failures worth retrying: no response, 429 or 5xx
+   */
+  get retryable(): boolean {
+    return this.status === null || this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Token bucket. `take()` resolves once a token is available; `pauseUntil()`
+ * holds every caller until a time (for Retry-After).
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+  
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+      
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+    }
+  }
+  
+  pauseUntil(timeMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, timeMs);
+    this.tokens = 0;
+  }
+  
+  private refill(now: number): void {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+export class HttpTransport implements JsonTransport {
+  private config: HttpTransportConfig;
+  private bucket: TokenBucket;
+  
+  constructor(config: Partial<HttpTransportConfig> = {}) {
+    this.config = { ...DEFAULT_HTTP_CONFIG, ...config };
+    this.bucket = new TokenBucket(this.config.rate_limit.capacity, this.config.rate_limit.refill_per_second);
+  }
+  
+  /**
+   * Send a request and parse the JSON response, retrying transient failures
+   */
+  async requestJson<T>(url: string, init: JsonRequestInit = {}): Promise<T> {
+    const endpoint = `${init.method ?? 'GET'} ${new URL(url).pathname}`;
+    const maxAttempts = this.config.max_retries + 1;
+    let lastError: ReplayLabsApiError | undefined;
+    
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      await this.bucket.take();
+      
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.config.timeout_ms);
+      
+      try {
+        const response = await fetch(url, { ...init, signal: controller.signal });
+        
+        if (response.ok) {
+          // A 200 that isn't JSON won't parse on retry either
+          const text = await response.text();
+          try {
+            return JSON.parse(text) as T;
+          } catch (e) {
+            throw new ReplayLabsApiError({
+              message: `Invalid JSON in ${response.status} response (${endpoint}): ${e instanceof Error ? e.message : String(e)}`,
+              status: response.status,
+              endpoint,
+              body: text,
+              attempts: attempt,
+              cause: e,
+            });
+          }
+        }
+        
+        const body = await response.text().catch(() => null);
+        lastError = new ReplayLabsApiError({
+          message: `API error: ${response.status} ${response.statusText} (${endpoint})`,
+          status: response.status,
+          endpoint,
+          body,
+          attempts: attempt,
+        });
+        
+        if (response.status === 429) {
+          this.bucket.pauseUntil(Date.now() + parseRetryAfter(response.headers.get('retry-after')));
+          continue;
+        }
+        if (!lastError.retryable) throw lastError;
+      } catch (e) {
+        if (e instanceof ReplayLabsApiError) throw e;
+        
+        const timedOut = controller.signal.aborted;
+        lastError = new ReplayLabsApiError({
+          message: timedOut
+            ? `Request timed out after ${this.config.timeout_ms}ms (${endpoint})`
+            : `Network error (${endpoint}): ${e instanceof Error ? e.message : String(e)}`,
+          status: null,
+          endpoint,
+          body: null,
+          attempts: attempt,
+          cause: e,
+        });
+      } finally {
+        clearTimeout(timer);
+      }
+      
+      if (attempt < maxAttempts) {
+        await sleep(this.backoffMs(attempt));
+      }
+    }
+    
+    throw lastError!;
+  }
+  
+  /**
+   * Full jitter: uniform in [0, min(max, base * 2^(attempt-1))]
+   */
+  private backoffMs(attempt: number): number {
+    const cap = Math.min(this.config.max_delay_ms, this.config.base_delay_ms * 2 ** (attempt - 1));
+    return Math.random() * cap;
+  }
+}
+
+/**
+ * Retry-After as delay in ms: delta-seconds or an HTTP date
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number {
+  if (!header) return DEFAULT_RETRY_AFTER_MS;
+  
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - now);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(r => setTimeout(r, ms));
+}
+
+// Shared instance, so the client and scripts draw from one rate limit
+let transportInstance: HttpTransport | null = null;
+
+export function getTransport(config?: Partial<HttpTransportConfig>): HttpTransport {
+  if (!transportInstance) {
+    transportInstance = new HttpTransport(config);
+  }
+  return transportInstance;
+}
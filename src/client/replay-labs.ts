@@ -4,44 +4,103 @@
  * Fetches market data from Kalshi and Polymarket via Replay Labs API.
  */
 
-import type { OrderbookSnapshot, Market, MarketCategory } from '../types';
+import type { OrderbookSnapshot, OrderbookLevel, Market, MarketCategory } from '../types';
+import { getTransport, type JsonTransport } from './http';
+import { withFixtures, type ClientMode } from './fixtures';
+import {
+  kalshiCandlesticksResponseSchema,
+  kalshiMarketResponseSchema,
+  kalshiMarketsResponseSchema,
+  kalshiOrderbookResponseSchema,
+  orderbookHistoryResponseSchema,
+  polymarketBookResponseSchema,
+  polymarketPricesHistoryResponseSchema,
+  polymarketSpreadsResponseSchema,
+  validateResponse,
+  DEFAULT_VALIDATION_MODE,
+  type KalshiMarketResponse,
+  type KalshiOrderbookResponse,
+  type OHLCVCandle,
+  type PolymarketBookResponse,
+  type SchemaDrift,
+  type ValidationMode,
+} from './schemas';
+import type { z } from 'zod';
+import {
+  inferVenue,
+  type SeriesKey,
+  type SeriesKind,
+  type SeriesRecords,
+  type TimeSeriesStore,
+} from '../store/timeseries-store';
 
 const BASE_URL = process.env.REPLAY_LABS_API_URL || 'https://api.replay.labs';
 
-interface KalshiMarketResponse {
-  ticker: string;
-  title: string;
-  category: string;
-  volume_24h: number;
-  open_time: string;
-  close_time?: string;
-  status: string;
-}
+// Largest page the Kalshi markets endpoint returns
+const KALSHI_MARKETS_PAGE_SIZE = 1000;
 
-interface KalshiOrderbookResponse {
-  yes: { price: number; quantity: number }[];
-  no: { price: number; quantity: number }[];
+/**
+ * Polymarket price history point (CLOB prices-history)
+ */
+export interface PolymarketPricePoint {
+  t: number;  // unix seconds
+  p: number;  // price (0-1)
 }
 
-interface OHLCVCandle {
-  timestamp: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
+export interface ReplayLabsClientConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  store?: TimeSeriesStore;
+  transport?: JsonTransport;
+  mode?: ClientMode;
+  fixturesDir?: string;
+  fixtureIgnoreParams?: string[];      // Left out of fixture keys, e.g. TIME_WINDOW_PARAMS
+  validation?: ValidationMode;
+  onDrift?: (drift: SchemaDrift) => void;
 }
 
 export class ReplayLabsClient {
   private baseUrl: string;
   private apiKey?: string;
+  private store?: TimeSeriesStore;
+  private transport: JsonTransport;
+  private validation: ValidationMode;
+  private onDrift?: (drift: SchemaDrift) => void;
   
-  constructor(config?: { baseUrl?: string; apiKey?: string }) {
+  /**
+   * With a `store`, bounded history requests (candles, prices history,
+   * orderbook history) are served from disk and only missing ranges are
+   * fetched. Requests go through the shared transport (timeouts, retries,
+   * rate limit) unless another is given.
+   * 
+   * Every response is checked against its zod schema. `validation:
+   * 'lenient'` drops malformed records (reported via `onDrift`, or a
+   * console warning) instead of throwing.
+   * 
+   * `mode: 'record'` saves every response under `fixturesDir`; `'replay'`
+   * serves them back with no network and throws FixtureNotFoundError on
+   * any request that wasn't recorded. Fixtures are keyed on the full
+   * query unless `fixtureIgnoreParams` says otherwise.
+   */
+  constructor(config?: ReplayLabsClientConfig) {
     this.baseUrl = config?.baseUrl || BASE_URL;
     this.apiKey = config?.apiKey || process.env.REPLAY_LABS_API_KEY;
+    this.store = config?.store;
+    this.transport = withFixtures(config?.transport ?? getTransport(), {
+      mode: config?.mode,
+      dir: config?.fixturesDir,
+      ignoreParams: config?.fixtureIgnoreParams,
+    });
+    this.validation = config?.validation ?? DEFAULT_VALIDATION_MODE;
+    this.onDrift = config?.onDrift;
   }
   
-  private async fetch<T>(path: string, params?: Record<string, string>): Promise<T> {
+  private async fetch<S extends z.ZodTypeAny>(
+    schema: S,
+    path: string,
+    params?: Record<string, string>,
+    body?: unknown
+  ): Promise<z.infer<S>> {
     const url = new URL(path, this.baseUrl);
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -57,13 +116,18 @@ export class ReplayLabsClient {
       headers['Authorization'] = `Bearer ${this.apiKey}`;
     }
     
-    const response = await fetch(url.toString(), { headers });
+    const method = body === undefined ? 'GET' : 'POST';
+    const data = await this.transport.requestJson<unknown>(url.toString(), {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
     
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status} ${response.statusText}`);
-    }
-    
-    return response.json() as Promise<T>;
+    return validateResponse(schema, data, {
+      endpoint: `${method} ${url.pathname}`,
+      mode: this.validation,
+      onDrift: this.onDrift,
+    });
   }
   
   // ═══════════════════════════════════════════════════════════════
@@ -76,26 +140,36 @@ export class ReplayLabsClient {
   async getKalshiMarkets(params?: {
     status?: 'open' | 'closed' | 'settled';
     category?: string;
+    event_ticker?: string;
     limit?: number;
   }): Promise<Market[]> {
-    const queryParams: Record<string, string> = {};
-    if (params?.status) queryParams['status'] = params.status;
-    if (params?.category) queryParams['category'] = params.category;
-    if (params?.limit) queryParams['limit'] = params.limit.toString();
+    const { markets } = await this.getKalshiMarketsPage(params);
+    return markets;
+  }
+  
+  /**
+   * Every market of a Kalshi event in any status, following the cursor
+   * through all pages
+   */
+  async getKalshiEventMarkets(eventTicker: string): Promise<Market[]> {
+    const markets: Market[] = [];
+    let cursor: string | undefined;
     
-    const response = await this.fetch<{ markets: KalshiMarketResponse[] }>(
-      '/api/kalshi/markets',
-      queryParams
-    );
+    do {
+      const page = await this.getKalshiMarketsPage({ event_ticker: eventTicker, limit: KALSHI_MARKETS_PAGE_SIZE, cursor });
+      markets.push(...page.markets);
+      cursor = page.cursor;
+    } while (cursor);
     
-    return response.markets.map(m => this.mapKalshiMarket(m));
+    return markets;
   }
   
   /**
    * Get single Kalshi market
    */
   async getKalshiMarket(ticker: string): Promise<Market> {
-    const response = await this.fetch<KalshiMarketResponse>(
+    const response = await this.fetch(
+      kalshiMarketResponseSchema,
       `/api/kalshi/markets/${ticker}`
     );
     return this.mapKalshiMarket(response);
@@ -105,7 +179,8 @@ export class ReplayLabsClient {
    * Get Kalshi orderbook
    */
   async getKalshiOrderbook(ticker: string): Promise<OrderbookSnapshot> {
-    const response = await this.fetch<KalshiOrderbookResponse>(
+    const response = await this.fetch(
+      kalshiOrderbookResponseSchema,
       `/api/kalshi/markets/${ticker}/orderbook`
     );
     
@@ -124,18 +199,102 @@ export class ReplayLabsClient {
       end_ts?: number;
     }
   ): Promise<OHLCVCandle[]> {
-    const queryParams: Record<string, string> = {
-      period: params.period,
+    const request = async (startTs?: number, endTs?: number) => {
+      const queryParams: Record<string, string> = {
+        period: params.period,
+      };
+      if (startTs) queryParams['start_ts'] = startTs.toString();
+      if (endTs) queryParams['end_ts'] = endTs.toString();
+      
+      const response = await this.fetch(
+        kalshiCandlesticksResponseSchema,
+        `/api/kalshi/series/${seriesTicker}/markets/${ticker}/candlesticks`,
+        queryParams
+      );
+      
+      return response.candlesticks;
     };
-    if (params.start_ts) queryParams['start_ts'] = params.start_ts.toString();
-    if (params.end_ts) queryParams['end_ts'] = params.end_ts.toString();
     
-    const response = await this.fetch<{ candlesticks: OHLCVCandle[] }>(
-      `/api/kalshi/series/${seriesTicker}/markets/${ticker}/candlesticks`,
-      queryParams
+    return this.viaStore(
+      { kind: 'candles', venue: 'KALSHI', market_id: ticker, interval: params.period },
+      params.start_ts && params.end_ts ? { start: params.start_ts * 1000, end: params.end_ts * 1000 } : null,
+      (start, end) => request(toUnixSeconds(start), toUnixSeconds(end)),
+      () => request(params.start_ts, params.end_ts)
+    ) as Promise<OHLCVCandle[]>;
+  }
+  
+  // ═══════════════════════════════════════════════════════════════
+  // POLYMARKET ENDPOINTS
+  // ═══════════════════════════════════════════════════════════════
+  
+  /**
+   * Get Polymarket CLOB orderbook
+   */
+  async getPolymarketBook(tokenId: string): Promise<OrderbookSnapshot> {
+    const response = await this.fetch(
+      polymarketBookResponseSchema,
+      '/api/polymarket/clob/book',
+      { token_id: tokenId }
+    );
+    
+    return this.parsePolymarketBook(response);
+  }
+  
+  /**
+   * Get bid/ask spreads for multiple Polymarket tokens in one request.
+   * Returns spread (in price units, 0-1) keyed by token ID.
+   */
+  async getPolymarketSpreads(tokenIds: string[]): Promise<Record<string, number>> {
+    if (tokenIds.length === 0) return {};
+    
+    const response = await this.fetch(
+      polymarketSpreadsResponseSchema,
+      '/api/polymarket/clob/spreads',
+      undefined,
+      tokenIds.map(token_id => ({ token_id }))
     );
     
-    return response.candlesticks;
+    const spreads: Record<string, number> = {};
+    for (const [tokenId, spread] of Object.entries(response)) {
+      spreads[tokenId] = Number(spread);
+    }
+    return spreads;
+  }
+  
+  /**
+   * Get Polymarket price history
+   */
+  async getPolymarketPricesHistory(
+    tokenId: string,
+    params?: {
+      interval?: '1m' | '1h' | '6h' | '1d' | '1w' | 'max';
+      start_ts?: number;
+      end_ts?: number;
+    }
+  ): Promise<PolymarketPricePoint[]> {
+    const request = async (startTs?: number, endTs?: number) => {
+      const queryParams: Record<string, string> = {
+        market: tokenId,
+      };
+      if (params?.interval) queryParams['interval'] = params.interval;
+      if (startTs) queryParams['startTs'] = startTs.toString();
+      if (endTs) queryParams['endTs'] = endTs.toString();
+      
+      const response = await this.fetch(
+        polymarketPricesHistoryResponseSchema,
+        '/api/polymarket/clob/prices-history',
+        queryParams
+      );
+      
+      return response.history ?? [];
+    };
+    
+    return this.viaStore(
+      { kind: 'prices', venue: 'POLYMARKET', market_id: tokenId, interval: params?.interval ?? 'default' },
+      params?.start_ts && params?.end_ts ? { start: params.start_ts * 1000, end: params.end_ts * 1000 } : null,
+      (start, end) => request(toUnixSeconds(start), toUnixSeconds(end)),
+      () => request(params?.start_ts, params?.end_ts)
+    );
   }
   
   // ═══════════════════════════════════════════════════════════════
@@ -153,23 +312,95 @@ export class ReplayLabsClient {
       interval?: string;
     }
   ): Promise<OrderbookSnapshot[]> {
-    const queryParams: Record<string, string> = {};
-    if (params?.start) queryParams['start'] = params.start;
-    if (params?.end) queryParams['end'] = params.end;
-    if (params?.interval) queryParams['interval'] = params.interval;
+    const request = async (start?: string, end?: string) => {
+      const queryParams: Record<string, string> = {};
+      if (start) queryParams['start'] = start;
+      if (end) queryParams['end'] = end;
+      if (params?.interval) queryParams['interval'] = params.interval;
+      
+      const response = await this.fetch(
+        orderbookHistoryResponseSchema,
+        `/api/orderbook/${symbolId}`,
+        queryParams
+      );
+      
+      return response.snapshots;
+    };
     
-    const response = await this.fetch<{ snapshots: OrderbookSnapshot[] }>(
-      `/api/orderbook/${symbolId}`,
-      queryParams
+    return this.viaStore(
+      { kind: 'orderbook', venue: inferVenue(symbolId), market_id: symbolId, interval: params?.interval ?? 'default' },
+      params?.start && params?.end ? { start: Date.parse(params.start), end: Date.parse(params.end) } : null,
+      (start, end) => request(start.toISOString(), end.toISOString()),
+      () => request(params?.start, params?.end)
     );
+  }
+  
+  /**
+   * Get historical spreads (as % of mid) for a symbol over the last N days
+   */
+  async getHistoricalSpreads(
+    symbolId: string,
+    days: number
+  ): Promise<{ timestamp: string; spread_pct: number }[]> {
+    const end = new Date();
+    const start = new Date(end.getTime() - days * 24 * 60 * 60 * 1000);
+    
+    const snapshots = await this.getOrderbookHistory(symbolId, {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      interval: '1h',
+    });
     
-    return response.snapshots;
+    return snapshots.map(s => ({
+      timestamp: s.timestamp,
+      spread_pct: s.spread_bps / 100,
+    }));
   }
   
   // ═══════════════════════════════════════════════════════════════
   // HELPERS
   // ═══════════════════════════════════════════════════════════════
   
+  /**
+   * Route a history request through the store when one is configured
+   * and the request is bounded; otherwise call the API directly
+   */
+  private async viaStore<K extends SeriesKind>(
+    key: SeriesKey<K>,
+    range: { start: number; end: number } | null,
+    fetchRange: (start: Date, end: Date) => Promise<SeriesRecords[K][]>,
+    fetchDirect: () => Promise<SeriesRecords[K][]>
+  ): Promise<SeriesRecords[K][]> {
+    if (!this.store || !range) return fetchDirect();
+    return this.store.backfill(key, range, fetchRange);
+  }
+  
+  private async getKalshiMarketsPage(params?: {
+    status?: 'open' | 'closed' | 'settled';
+    category?: string;
+    event_ticker?: string;
+    limit?: number;
+    cursor?: string;
+  }): Promise<{ markets: Market[]; cursor?: string }> {
+    const queryParams: Record<string, string> = {};
+    if (params?.status) queryParams['status'] = params.status;
+    if (params?.category) queryParams['category'] = params.category;
+    if (params?.event_ticker) queryParams['event_ticker'] = params.event_ticker;
+    if (params?.limit) queryParams['limit'] = params.limit.toString();
+    if (params?.cursor) queryParams['cursor'] = params.cursor;
+    
+    const response = await this.fetch(
+      kalshiMarketsResponseSchema,
+      '/api/kalshi/markets',
+      queryParams
+    );
+    
+    return {
+      markets: response.markets.map(m => this.mapKalshiMarket(m)),
+      cursor: response.cursor || undefined,
+    };
+  }
+  
   private mapKalshiMarket(m: KalshiMarketResponse): Market {
     return {
       id: m.ticker,
@@ -179,6 +410,8 @@ export class ReplayLabsClient {
       volume_24h_usd: m.volume_24h,
       created_at: m.open_time,
       closes_at: m.close_time,
+      event_ticker: m.event_ticker,
+      status: m.status,
     };
   }
   
@@ -193,39 +426,74 @@ export class ReplayLabsClient {
   }
   
   private parseKalshiOrderbook(response: KalshiOrderbookResponse): OrderbookSnapshot {
-    // Calculate best bid/ask from yes side
-    // Kalshi: yes price + no price = 1, so bid = 1 - best_no_ask, ask = best_yes_ask
-    const yesBids = response.yes.filter(l => l.quantity > 0).sort((a, b) => b.price - a.price);
-    const yesAsks = response.yes.filter(l => l.quantity > 0).sort((a, b) => a.price - b.price);
+    // Kalshi only lists resting bids on each side. yes price + no price = 1,
+    // so a NO bid at p is a YES ask at 1 - p.
+    const yesBids = response.yes
+      .filter(l => l.quantity > 0)
+      .map(l => ({ price: l.price, size: l.quantity }))
+      .sort((a, b) => b.price - a.price);
+    const yesAsks = response.no
+      .filter(l => l.quantity > 0)
+      .map(l => ({ price: 1 - l.price, size: l.quantity }))
+      .sort((a, b) => a.price - b.price);
+    
+    return this.buildSnapshot(yesBids, yesAsks, new Date().toISOString());
+  }
+  
+  private parsePolymarketBook(response: PolymarketBookResponse): OrderbookSnapshot {
+    // Polymarket returns prices and sizes as decimal strings
+    const bids = response.bids
+      .map(l => ({ price: Number(l.price), size: Number(l.size) }))
+      .filter(l => l.size > 0)
+      .sort((a, b) => b.price - a.price);
+    const asks = response.asks
+      .map(l => ({ price: Number(l.price), size: Number(l.size) }))
+      .filter(l => l.size > 0)
+      .sort((a, b) => a.price - b.price);
     
-    const bestBid = yesBids[0]?.price ?? 0;
-    const bestAsk = yesAsks[0]?.price ?? 1;
+    // Book timestamp is unix milliseconds when present
+    const timestamp = response.timestamp
+      ? new Date(Number(response.timestamp)).toISOString()
+      : new Date().toISOString();
+    
+    return this.buildSnapshot(bids, asks, timestamp);
+  }
+  
+  private buildSnapshot(bids: OrderbookLevel[], asks: OrderbookLevel[], timestamp: string): OrderbookSnapshot {
+    const bestBid = bids[0]?.price ?? 0;
+    const bestAsk = asks[0]?.price ?? 1;
     
     const midPrice = (bestBid + bestAsk) / 2;
     const spread = bestAsk - bestBid;
     const spreadBps = midPrice > 0 ? (spread / midPrice) * 10000 : 0;
     
-    const bidDepth = yesBids.reduce((sum, l) => sum + l.quantity, 0);
-    const askDepth = yesAsks.reduce((sum, l) => sum + l.quantity, 0);
+    const bidDepth = bids.reduce((sum, l) => sum + l.size, 0);
+    const askDepth = asks.reduce((sum, l) => sum + l.size, 0);
     const totalDepth = bidDepth + askDepth;
     const imbalance = totalDepth > 0 ? (bidDepth - askDepth) / totalDepth : 0;
     
     return {
-      timestamp: new Date().toISOString(),
+      timestamp,
       mid_price: midPrice,
       spread,
       spread_bps: spreadBps,
       imbalance,
       bid_depth: bidDepth,
       ask_depth: askDepth,
+      bids,
+      asks,
     };
   }
 }
 
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
 // Singleton instance
 let clientInstance: ReplayLabsClient | null = null;
 
-export function getClient(config?: { baseUrl?: string; apiKey?: string }): ReplayLabsClient {
+export function getClient(config?: ReplayLabsClientConfig): ReplayLabsClient {
   if (!clientInstance) {
     clientInstance = new ReplayLabsClient(config);
   }
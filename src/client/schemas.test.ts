@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { kalshiBatchCandlestickSchema } from './schemas';
+
+function candle(yesBid: { close: number | null; close_dollars: string | null }) {
+  return {
+    end_period_ts: 1735689600,
+    yes_bid: yesBid,
+    yes_ask: { close: 46, close_dollars: '0.4600' },
+    volume: 10,
+  };
+}
+
+describe('kalshiBatchCandlestickSchema', () => {
+  it('accepts a side priced only in cents or only in dollars', () => {
+    expect(kalshiBatchCandlestickSchema.safeParse(candle({ close: 44, close_dollars: null })).success).toBe(true);
+    expect(kalshiBatchCandlestickSchema.safeParse(candle({ close: null, close_dollars: '0.4400' })).success).toBe(true);
+  });
+
+  it('rejects a side with no usable price', () => {
+    const result = kalshiBatchCandlestickSchema.safeParse(candle({ close: null, close_dollars: null }));
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toBe('Expected close or close_dollars');
+  });
+
+  it('flags a dollar price in the cents field', () => {
+    const result = kalshiBatchCandlestickSchema.safeParse(candle({ close: 0.45, close_dollars: null }));
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toMatch(/looks like dollars/);
+  });
+
+  it('still accepts a zero close', () => {
+    expect(kalshiBatchCandlestickSchema.safeParse(candle({ close: 0, close_dollars: '0.0000' })).success).toBe(true);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Replay Labs Response Schemas
+ * 
+ * zod schemas for every endpoint response the client and run-analysis
+ * consume, validated at the boundary so a shape or unit change (e.g.
+ * Kalshi prices moving from cents to dollars) fails loudly instead of
+ * producing garbage spreads.
+ * 
+ * Strict mode throws a ResponseValidationError. Lenient mode drops the
+ * offending records (the innermost array element each issue points at),
+ * reports the drift and returns the rest; an envelope that can't be
+ * salvaged still throws.
+ */
+
+import { z } from 'zod';
+
+// ═══════════════════════════════════════════════════════════════
+// PRIMITIVES
+// ═══════════════════════════════════════════════════════════════
+
+const probability = z.number().finite().min(0).max(1);
+const cents = z.number().finite().min(0).max(100);
+const nonNegative = z.number().finite().min(0);
+const isoTimestamp = z.string().refine(s => !Number.isNaN(Date.parse(s)), 'Expected an ISO timestamp');
+
+/**
+ * Decimal string in [0, 1] (Polymarket CLOB prices)
+ */
+const probabilityString = z.string().refine(s => {
+  const n = Number(s);
+  return s.trim() !== '' && Number.isFinite(n) && n >= 0 && n <= 1;
+}, 'Expected a decimal price string between 0 and 1');
+
+const nonNegativeString = z.string().refine(s => {
+  const n = Number(s);
+  return s.trim() !== '' && Number.isFinite(n) && n >= 0;
+}, 'Expected a non-negative decimal string');
+
+// ═══════════════════════════════════════════════════════════════
+// KALSHI
+// ═══════════════════════════════════════════════════════════════
+
+export const kalshiMarketResponseSchema = z.object({
+  ticker: z.string().min(1),
+  event_ticker: z.string().optional(),
+  title: z.string(),
+  category: z.string(),
+  volume_24h: nonNegative,
+  open_time: z.string(),
+  close_time: z.string().optional(),
+  status: z.string(),
+});
+
+export const kalshiMarketsResponseSchema = z.object({
+  markets: z.array(kalshiMarketResponseSchema),
+  cursor: z.string().nullable().optional(),  // Empty / missing on the last page
+});
+
+/**
+ * Resting bids on each side, prices in dollars (0-1)
+ */
+export const kalshiOrderbookResponseSchema = z.object({
+  yes: z.array(z.object({ price: probability, quantity: nonNegative })),
+  no: z.array(z.object({ price: probability, quantity: nonNegative })),
+});
+
+export const ohlcvCandleSchema = z.object({
+  timestamp: isoTimestamp,
+  open: z.number().finite(),
+  high: z.number().finite(),
+  low: z.number().finite(),
+  close: z.number().finite(),
+  volume: nonNegative,
+});
+
+export const kalshiCandlesticksResponseSchema = z.object({
+  candlesticks: z.array(ohlcvCandleSchema),
+});
+
+/**
+ * One side of a batch candle. At least one of `close` / `close_dollars`
+ * must be set, and a fractional `close` below 1 is a dollar price sent
+ * in the cents field.
+ */
+const kalshiCandleCloseSchema = z.object({
+  close: cents.nullable(),
+  close_dollars: probabilityString.nullable(),
+})
+  .refine(c => c.close !== null || c.close_dollars !== null, 'Expected close or close_dollars')
+  .refine(c => c.close === null || c.close === 0 || c.close >= 1, 'close looks like dollars, expected cents (0-100)');
+
+/**
+ * Batch candlestick endpoint used by run-analysis. `close` is in cents;
+ * `close_dollars` is the newer dollar-string field.
+ */
+export const kalshiBatchCandlestickSchema = z.object({
+  end_period_ts: z.number().int().positive(),
+  yes_bid: kalshiCandleCloseSchema,
+  yes_ask: kalshiCandleCloseSchema,
+  volume: nonNegative,
+});
+
+export const kalshiBatchCandlesticksResponseSchema = z.object({
+  candlesticks: z.record(z.array(kalshiBatchCandlestickSchema)),
+});
+
+// ═══════════════════════════════════════════════════════════════
+// POLYMARKET
+// ═══════════════════════════════════════════════════════════════
+
+export const polymarketBookResponseSchema = z.object({
+  market: z.string(),
+  asset_id: z.string(),
+  timestamp: z.string().optional(),
+  bids: z.array(z.object({ price: probabilityString, size: nonNegativeString })),
+  asks: z.array(z.object({ price: probabilityString, size: nonNegativeString })),
+});
+
+export const polymarketSpreadsResponseSchema = z.record(
+  z.union([probability, probabilityString])
+);
+
+export const polymarketPricePointSchema = z.object({
+  t: z.number().int().positive(),
+  p: probability,
+});
+
+export const polymarketPricesHistoryResponseSchema = z.object({
+  history: z.array(polymarketPricePointSchema).optional(),
+});
+
+// ═══════════════════════════════════════════════════════════════
+// REPLAY LABS
+// ═══════════════════════════════════════════════════════════════
+
+export const orderbookLevelSchema = z.object({
+  price: probability,
+  size: nonNegative,
+});
+
+export const orderbookSnapshotSchema = z.object({
+  timestamp: isoTimestamp,
+  mid_price: probability,
+  spread: z.number().finite(),
+  spread_bps: z.number().finite(),
+  imbalance: z.number().finite().min(-1).max(1),
+  bid_depth: nonNegative,
+  ask_depth: nonNegative,
+  bids: z.array(orderbookLevelSchema).optional(),
+  asks: z.array(orderbookLevelSchema).optional(),
+});
+
+export const orderbookHistoryResponseSchema = z.object({
+  snapshots: z.array(orderbookSnapshotSchema),
+});
+
+export const semanticSearchResultSchema = z.object({
+  venue: z.enum(['KALSHI', 'POLYMARKET']),
+  id: z.string().min(1),
+  question: z.string(),
+  isOpen: z.boolean(),
+  similarity: z.number().finite().optional(),
+});
+
+export const semanticSearchResponseSchema = z.array(semanticSearchResultSchema);
+
+export type KalshiMarketResponse = z.infer<typeof kalshiMarketResponseSchema>;
+export type KalshiOrderbookResponse = z.infer<typeof kalshiOrderbookResponseSchema>;
+export type OHLCVCandle = z.infer<typeof ohlcvCandleSchema>;
+export type KalshiBatchCandlestick = z.infer<typeof kalshiBatchCandlestickSchema>;
+export type PolymarketBookResponse = z.infer<typeof polymarketBookResponseSchema>;
+export type SemanticSearchResult = z.infer<typeof semanticSearchResultSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export interface SchemaDrift {
+  endpoint: string;
+  dropped: number;
+  issues: string[];
+}
+
+export interface ValidationOptions {
+  endpoint: string;
+  mode?: ValidationMode;
+  onDrift?: (drift: SchemaDrift) => void;
+}
+
+/**
+ * Default mode: REPLAY_LABS_VALIDATION=lenient opts in, otherwise strict
+ */
+export const DEFAULT_VALIDATION_MODE: ValidationMode =
+  process.env.REPLAY_LABS_VALIDATION === 'lenient' ? 'lenient' : 'strict';
+
+/**
+ * Response didn't match its schema
+ */
+export class ResponseValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: string[];
+  
+  constructor(endpoint: string, issues: string[]) {
+    super(`Unexpected response shape from ${endpoint}:\n  ${issues.join('\n  ')}`);
+    this.name = 'ResponseValidationError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a response body against its schema
+ */
+export function validateResponse<S extends z.ZodTypeAny>(
+  schema: S,
+  data: unknown,
+  options: ValidationOptions
+): z.infer<S> {
+  const mode = options.mode ?? DEFAULT_VALIDATION_MODE;
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+  
+  const issues = result.error.issues.map(formatIssue);
+  if (mode === 'strict') {
+    throw new ResponseValidationError(options.endpoint, issues);
+  }
+  
+  // Lenient: drop the records the issues point at and try again
+  const { pruned, dropped } = dropInvalidRecords(data, result.error.issues);
+  const retry = dropped > 0 ? schema.safeParse(pruned) : result;
+  if (!retry.success) {
+    throw new ResponseValidationError(options.endpoint, retry.error.issues.map(formatIssue));
+  }
+  
+  const drift: SchemaDrift = { endpoint: options.endpoint, dropped, issues };
+  if (options.onDrift) {
+    options.onDrift(drift);
+  } else {
+    console.warn(`[replay-labs] schema drift on ${drift.endpoint}: dropped ${dropped} record(s) - ${issues.slice(0, 3).join('; ')}`);
+  }
+  return retry.data;
+}
+
+function formatIssue(issue: z.ZodIssue): string {
+  const where = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+  return `${where}: ${issue.message}`;
+}
+
+/**
+ * Remove the innermost array element each issue points into. Issues
+ * outside any array (the envelope itself) are left for the re-parse.
+ */
+function dropInvalidRecords(data: unknown, issues: z.ZodIssue[]): { pruned: unknown; dropped: number } {
+  const pruned = structuredClone(data);
+  const toDrop = new Map<unknown[], Set<number>>();
+  
+  for (const issue of issues) {
+    let node: unknown = pruned;
+    let target: { array: unknown[]; index: number } | null = null;
+    
+    for (const key of issue.path) {
+      if (Array.isArray(node) && typeof key === 'number') {
+        target = { array: node, index: key };
+      }
+      node = node !== null && typeof node === 'object' ? (node as Record<string | number, unknown>)[key] : undefined;
+    }
+    
+    if (target) {
+      const indices = toDrop.get(target.array) ?? new Set<number>();
+      indices.add(target.index);
+      toDrop.set(target.array, indices);
+    }
+  }
+  
+  let dropped = 0;
+  for (const [array, indices] of toDrop) {
+    for (const index of [...indices].sort((a, b) => b - a)) {
+      array.splice(index, 1);
+      dropped++;
+    }
+  }
+  
+  return { pruned, dropped };
+}
@@ -50,6 +50,8 @@ export {
   type ScanOpportunitiesOutput,
   type Opportunity,
   type Prediction,
+  computeMarketStats,
+  type MarketStats,
   
   // Secondary: Detailed analysis of specific opportunity
   analyzeArbTool,
@@ -58,17 +60,341 @@ export {
   analyzeArbOutputSchema,
   type AnalyzeArbInput,
   type AnalyzeArbOutput,
+  analyzeArbBooks,
+  
+  // Intra-Kalshi bracket baskets
+  scanBracketArbTool,
+  scanBracketArb,
+  scanBracketArbInputSchema,
+  scanBracketArbOutputSchema,
+  type ScanBracketArbInput,
+  type ScanBracketArbOutput,
+  type BracketOpportunity,
+  
+  // Liquidity regime
+  checkLiquidityRegimeTool,
+  checkLiquidityRegime,
+  checkLiquidityRegimeInputSchema,
+  checkLiquidityRegimeOutputSchema,
+  liquidityIndicatorSchema,
+  type CheckLiquidityRegimeInput,
+  type CheckLiquidityRegimeOutput,
+  
+  // Liquidity windows
+  getLiquidityWindowsTool,
+  getLiquidityWindows,
+  getLiquidityWindowsInputSchema,
+  getLiquidityWindowsOutputSchema,
+  liquidityWindowSchema,
+  type GetLiquidityWindowsInput,
+  type GetLiquidityWindowsOutput,
+  
+  // Backtesting
+  runBacktestTool,
+  runBacktest,
+  runBacktestInputSchema,
+  runBacktestOutputSchema,
+  type RunBacktestInput,
+  type RunBacktestOutput,
   
   // Tool registry for agent frameworks
   arbOppityTools,
 } from './tools';
 
+// Continuous scanning
+export {
+  OpportunityWatcher,
+  watchOpportunities,
+  bestNetProfitUsd,
+  DEFAULT_WATCHER_PARAMS,
+  type OpportunityWatcherParams,
+  type OpportunityWatcherEvents,
+  type OpportunityEvent,
+  type OpportunityEventType,
+  type ScanCompleteEvent,
+} from './watch/opportunity-watcher';
+
+// Alerting
+export {
+  AlertDispatcher,
+  WebhookSink,
+  SlackSink,
+  NdjsonFileSink,
+  StdoutSink,
+  opportunityAlert,
+  regimeAlert,
+  matchesFilter,
+  type Alert,
+  type AlertSink,
+  type AlertDispatcherOptions,
+  type AlertFilter,
+  type SinkOptions,
+  type DispatchResult,
+} from './alerts';
+
+// Holiday and event calendar
+export {
+  MarketCalendar,
+  getMarketCalendar,
+  getUsHolidays,
+  loadEventFile,
+  parseIcs,
+  parseEventJson,
+  type CalendarEvent,
+  type CalendarEventKind,
+  type CalendarMatch,
+  type CalendarScope,
+  type CalendarTag,
+  type MarketCalendarConfig,
+} from './calendar';
+
+// Indicators
+export {
+  computeLiquidityIndicator,
+  classifyRegime,
+  localizeSnapshots,
+  RollingLiquidityBaseline,
+  DEFAULT_LIQUIDITY_REGIME_PARAMS,
+  type LiquidityRegimeParams,
+  type LocalizedSnapshot,
+} from './indicators/liquidity-regime';
+export {
+  computeRegimeConfirmation,
+  resampleSnapshots,
+  isThinRegime,
+  TIMEFRAME_MINUTES,
+  DEFAULT_REGIME_CONFIRMATION_PARAMS,
+  type Timeframe,
+  type TimeframeRegime,
+  type RegimeConfirmation,
+  type RegimeConfirmationParams,
+} from './indicators/regime-confirmation';
+
+// Annotations
+export {
+  annotateLiquidityWindows,
+  detectLiquidityWindows,
+  classifyTrigger,
+  DEFAULT_LIQUIDITY_WINDOW_PARAMS,
+  type LiquidityWindowParams,
+  type TriggerCalendarContext,
+} from './annotations/liquidity-window';
+
+// Backtest engine
+export {
+  backtestPairs,
+  maxDrawdown,
+  DEFAULT_BACKTEST_PARAMS,
+  type BacktestParams,
+  type BacktestPairData,
+  type BacktestTrade,
+  type BacktestBreakdown,
+  type BacktestSummary,
+  type BacktestResult,
+} from './analysis/backtest';
+
+// Seasonal spread forecasting (predict mode)
+export {
+  fitSeasonalModel,
+  forecastHours,
+  findForecastWindows,
+  forecastSpreadWindows,
+  maxEffectiveSamples,
+  DEFAULT_SEASONAL_FORECAST_PARAMS,
+  type SeasonalForecastParams,
+  type SeasonalForecastOptions,
+  type SpreadForecast,
+  type SeasonalModel,
+  type HourForecast,
+  type ForecastWindow,
+} from './analysis/seasonal-forecast';
+
+// Spread mean reversion (predict-mode expected_compression)
+export {
+  fitMeanReversion,
+  expectedCompression,
+  toSpreadSeries,
+  DEFAULT_MEAN_REVERSION_PARAMS,
+  type MeanReversionParams,
+  type MeanReversionModel,
+  type OrnsteinUhlenbeckFit,
+  type SurvivalPoint,
+  type ExpectedCompression,
+} from './analysis/mean-reversion';
+
+// Walk-forward evaluation of predict-mode forecasts
+export {
+  evaluateForecasts,
+  DEFAULT_WALK_FORWARD_PARAMS,
+  type WalkForwardParams,
+  type WalkForwardMarket,
+  type WalkForwardMetrics,
+  type WalkForwardReport,
+  type StrategyScore,
+  type CalibrationBucket,
+} from './analysis/walk-forward';
+
+// Synthetic ground-truth data
+export {
+  generateSyntheticMarket,
+  generateSyntheticDataset,
+  toHistoricalSpreads,
+  toBacktestPairData,
+  toSymbolHistory,
+  DEFAULT_SYNTHETIC_PARAMS,
+  type SyntheticMarketParams,
+  type SyntheticVenueParams,
+  type SyntheticRegimeState,
+  type SyntheticMarketSeries,
+  type SyntheticDataset,
+} from './analysis/synthetic';
+
+// Capital lockup
+export {
+  computeCapitalLockup,
+  resolutionDate,
+  daysToResolution,
+  annualizeReturnPct,
+  DEFAULT_COST_OF_CAPITAL_PCT,
+  type CapitalLockup,
+} from './analysis/capital';
+
+// Hypothesis testing
+export {
+  runAllHypotheses,
+  testH1Overnight,
+  testH2Weekend,
+  testH3Compression,
+  testH4Drift,
+  testH5Category,
+  DEFAULT_HYPOTHESIS_PARAMS,
+  type HypothesisParams,
+} from './analysis/hypotheses';
+
+export {
+  welchTTest,
+  mannWhitneyU,
+  pearsonCorrelation,
+  spearmanCorrelation,
+  cohensD,
+  bootstrapCI,
+  benjaminiHochberg,
+} from './analysis/statistics';
+
+// Replay Labs API client
+export {
+  ReplayLabsClient,
+  getClient,
+  type ReplayLabsClientConfig,
+  type PolymarketPricePoint,
+} from './client/replay-labs';
+
+// HTTP transport (timeouts, retries, rate limiting)
+export {
+  HttpTransport,
+  TokenBucket,
+  ReplayLabsApiError,
+  getTransport,
+  parseRetryAfter,
+  DEFAULT_HTTP_CONFIG,
+  type HttpTransportConfig,
+  type JsonTransport,
+  type JsonRequestInit,
+} from './client/http';
+
+// Record / replay fixtures for the client
+export {
+  FixtureTransport,
+  FixtureNotFoundError,
+  withFixtures,
+  fixtureKey,
+  DEFAULT_FIXTURES_DIR,
+  TIME_WINDOW_PARAMS,
+  DEFAULT_CLIENT_MODE,
+  type ClientMode,
+  type Fixture,
+} from './client/fixtures';
+
+// Response schemas (runtime validation of API payloads)
+export {
+  validateResponse,
+  ResponseValidationError,
+  DEFAULT_VALIDATION_MODE,
+  kalshiMarketResponseSchema,
+  kalshiMarketsResponseSchema,
+  kalshiOrderbookResponseSchema,
+  kalshiCandlesticksResponseSchema,
+  kalshiBatchCandlesticksResponseSchema,
+  polymarketBookResponseSchema,
+  polymarketSpreadsResponseSchema,
+  polymarketPricesHistoryResponseSchema,
+  orderbookHistoryResponseSchema,
+  semanticSearchResponseSchema,
+  type ValidationMode,
+  type ValidationOptions,
+  type SchemaDrift,
+} from './client/schemas';
+
+// Mock Replay Labs server (integration tests, offline development)
+export {
+  MockReplayLabsServer,
+  startMockServer,
+  DEFAULT_MOCK_MARKETS,
+  type MockMarket,
+  type MockServerConfig,
+  type MockRequestLog,
+  type FailureRule,
+  type FailureKind,
+} from './mock/server';
+
+// Local time-series store (snapshots, candles, price history)
+export {
+  TimeSeriesStore,
+  getTimeSeriesStore,
+  inferVenue,
+  DEFAULT_PAGE_LIMIT,
+  type SeriesKey,
+  type SeriesKind,
+  type SeriesRecords,
+  type StoredCandle,
+  type StoredBatchCandle,
+  type StoredPricePoint,
+  type TimeRange,
+} from './store/timeseries-store';
+
+// Cross-venue market pair registry
+export {
+  MarketPairRegistry,
+  getMarketPairRegistry,
+  marketPairSchema,
+  type MarketPair,
+  type MarketPairStatus,
+  type DiscoveredMarketPair,
+} from './registry/market-pairs';
+
+// Timezone-aware time bucketing
+export {
+  DEFAULT_TIMEZONE,
+  getLocalTimeParts,
+  getLocalHour,
+  getLocalDayOfWeek,
+  isLocalWeekend,
+  nextLocalHourStart,
+  hoursUntilLocalHour,
+  configureTimezones,
+  getTimezoneFor,
+  type LocalTimeParts,
+  type TimezoneConfig,
+} from './utils/time';
+
 // Types
 export type {
   LiquidityRegime,
   MarketCategory,
   ArbAction,
+  Venue,
   OrderbookSnapshot,
+  OrderbookLevel,
   Market,
   SpreadDataPoint,
   SpreadStats,
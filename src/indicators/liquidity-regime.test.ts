@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  computeLiquidityIndicator,
+  DEFAULT_LIQUIDITY_REGIME_PARAMS,
+  localizeSnapshots,
+  RollingLiquidityBaseline,
+} from './liquidity-regime';
+import { generateSyntheticMarket } from '../analysis/synthetic';
+import { configureTimezones } from '../utils/time';
+import type { OrderbookSnapshot } from '../types';
+
+/**
+ * Hourly snapshots Mon 2025-06-30 00:00Z to Sun 2025-07-06 05:00Z, wide
+ * only Sat 20:00-23:00Z. That is Saturday evening in New York but Sunday
+ * morning in Tokyo, so the latest snapshot (Sun 01:00 EDT / Sun 14:00 JST)
+ * shares a day bucket with the wide hours only in Tokyo.
+ */
+function weekHistory(): OrderbookSnapshot[] {
+  const start = Date.UTC(2025, 5, 30);
+  const end = Date.UTC(2025, 6, 6, 5);
+  const snapshots: OrderbookSnapshot[] = [];
+  for (let ts = start; ts <= end; ts += 3600000) {
+    const time = new Date(ts);
+    const wide = time.getUTCDay() === 6 && time.getUTCHours() >= 20;
+    snapshots.push({
+      timestamp: time.toISOString(),
+      mid_price: 0.5,
+      spread: wide ? 0.05 : 0.01,
+      spread_bps: wide ? 500 : 100,
+      imbalance: 0,
+      bid_depth: 1000,
+      ask_depth: 1000,
+    });
+  }
+  return snapshots;
+}
+
+describe('computeLiquidityIndicator timezone', () => {
+  beforeAll(() => {
+    configureTimezones({ by_market: { 'TZ-TOKYO': 'Asia/Tokyo' } });
+  });
+
+  it('buckets days in the default zone when nothing is configured', () => {
+    const indicator = computeLiquidityIndicator('TZ-DEFAULT', weekHistory());
+    expect(indicator.factors.dow_factor).toBe(0);
+  });
+
+  it("buckets days in the market's configured zone", () => {
+    const indicator = computeLiquidityIndicator('TZ-TOKYO', weekHistory());
+    expect(indicator.factors.dow_factor).toBe(1);
+  });
+
+  it('prefers an explicit timezone param over the configured zone', () => {
+    const indicator = computeLiquidityIndicator('TZ-TOKYO', weekHistory(), undefined, { timezone: 'America/New_York' });
+    expect(indicator.factors.dow_factor).toBe(0);
+  });
+});
+
+describe('RollingLiquidityBaseline', () => {
+  it('matches a fresh indicator over each lookback as snapshots are evicted', () => {
+    const { kalshi } = generateSyntheticMarket({ market_id: 'ROLL', hours: 24 * 20, seed: 3 });
+    const params = { lookback_hours: 48, timezone: 'America/New_York' };
+    const baseline = new RollingLiquidityBaseline({ ...DEFAULT_LIQUIDITY_REGIME_PARAMS, ...params });
+
+    let checked = 0;
+    localizeSnapshots(kalshi, params.timezone).forEach((local, i) => {
+      baseline.evictBefore(local.ts - params.lookback_hours * 3600000);
+      if (baseline.size > 0 && i % 25 === 0) {
+        const window = kalshi.slice(i - baseline.size, i);
+        const expected = computeLiquidityIndicator('ROLL', window, local.snapshot, params);
+        const actual = baseline.indicator('ROLL', local);
+
+        expect(actual.regime).toBe(expected.regime);
+        expect(actual.confidence).toBe(expected.confidence);
+        expect(actual.spread_zscore).toBeCloseTo(expected.spread_zscore, 9);
+        expect(actual.volume_zscore).toBeCloseTo(expected.volume_zscore, 9);
+        expect(actual.factors.hour_factor).toBeCloseTo(expected.factors.hour_factor, 9);
+        expect(actual.factors.dow_factor).toBeCloseTo(expected.factors.dow_factor, 9);
+        expect(actual.factors.depth_factor).toBe(expected.factors.depth_factor);
+        checked++;
+      }
+      baseline.add(local);
+    });
+
+    expect(checked).toBeGreaterThan(10);
+  });
+
+  it('reports a zero z-score for a constant series after many evictions', () => {
+    const history = weekHistory().map(s => ({ ...s, spread_bps: 123.4 }));
+    const baseline = new RollingLiquidityBaseline();
+    const local = localizeSnapshots(history, 'UTC');
+    for (const s of local) {
+      baseline.evictBefore(s.ts - 12 * 3600000);
+      baseline.add(s);
+    }
+
+    expect(baseline.indicator('FLAT', local[local.length - 1]!).spread_zscore).toBe(0);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Liquidity Regime Indicator
+ * 
+ * Classifies current liquidity for a market from its orderbook snapshot
+ * history: spread z-score vs the lookback baseline, depth z-score, and
+ * how thin this hour / day of week usually is.
+ */
+
+import type { LiquidityIndicator, LiquidityRegime, OrderbookSnapshot } from '../types';
+import { computeZScore } from '../analysis/spread-stats';
+import { getLocalTimeParts, getTimezoneFor } from '../utils/time';
+
+export interface LiquidityRegimeParams {
+  lookback_hours: number;              // Baseline window for z-scores
+  thin_threshold_zscore: number;       // spread z >= this → thin
+  very_thin_threshold_zscore: number;  // spread z >= this → very_thin
+  thick_threshold_zscore: number;      // spread z <= this → thick
+  timezone?: string;                   // IANA zone for hour/day factors; defaults to getTimezoneFor(marketId)
+}
+
+export const DEFAULT_LIQUIDITY_REGIME_PARAMS: LiquidityRegimeParams = {
+  lookback_hours: 168,  // 7 days
+  thin_threshold_zscore: 1.5,
+  very_thin_threshold_zscore: 2.5,
+  thick_threshold_zscore: -1.0,
+};
+
+// Sample counts for confidence (hourly snapshots: 7 days / 2 days)
+const HIGH_CONFIDENCE_SAMPLES = 168;
+const MEDIUM_CONFIDENCE_SAMPLES = 48;
+
+/**
+ * Map a spread z-score to a regime
+ */
+export function classifyRegime(
+  spreadZScore: number,
+  params: LiquidityRegimeParams = DEFAULT_LIQUIDITY_REGIME_PARAMS
+): LiquidityRegime {
+  if (spreadZScore >= params.very_thin_threshold_zscore) return 'very_thin';
+  if (spreadZScore >= params.thin_threshold_zscore) return 'thin';
+  if (spreadZScore <= params.thick_threshold_zscore) return 'thick';
+  return 'normal';
+}
+
+/**
+ * Confidence from baseline sample size
+ */
+export function confidenceFromSamples(sampleCount: number): 'high' | 'medium' | 'low' {
+  if (sampleCount >= HIGH_CONFIDENCE_SAMPLES) return 'high';
+  if (sampleCount >= MEDIUM_CONFIDENCE_SAMPLES) return 'medium';
+  return 'low';
+}
+
+/**
+ * Compute the liquidity indicator for the latest snapshot.
+ * 
+ * `current` defaults to the most recent snapshot in `history`. Only
+ * snapshots within lookback_hours before `current` form the baseline.
+ * Orderbook snapshots carry no traded volume, so total book depth is
+ * used as the volume proxy (negative volume_zscore = thinner book).
+ */
+export function computeLiquidityIndicator(
+  marketId: string,
+  history: OrderbookSnapshot[],
+  current?: OrderbookSnapshot,
+  params: Partial<LiquidityRegimeParams> = {}
+): LiquidityIndicator {
+  const p = { ...DEFAULT_LIQUIDITY_REGIME_PARAMS, ...params };
+  const sorted = [...history].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const latest = current ?? sorted[sorted.length - 1];
+  
+  if (!latest) {
+    throw new Error(`No orderbook snapshots for ${marketId}`);
+  }
+  
+  const timeZone = p.timezone ?? getTimezoneFor(marketId);
+  const latestMs = Date.parse(latest.timestamp);
+  const cutoffMs = latestMs - p.lookback_hours * 60 * 60 * 1000;
+  
+  const inWindow = sorted.filter(s => {
+    const ts = Date.parse(s.timestamp);
+    return ts >= cutoffMs && ts <= latestMs;
+  });
+  
+  const baseline = new RollingLiquidityBaseline(p);
+  for (const s of localizeSnapshots(inWindow, timeZone)) baseline.add(s);
+  return baseline.indicator(marketId, localizeSnapshots([latest], timeZone)[0]!);
+}
+
+/**
+ * A snapshot with its local hour / day of week resolved once
+ */
+export interface LocalizedSnapshot {
+  snapshot: OrderbookSnapshot;
+  ts: number;
+  hour: number;
+  day_of_week: number;
+  depth: number;                       // bid_depth + ask_depth
+}
+
+export function localizeSnapshots(snapshots: OrderbookSnapshot[], timeZone: string): LocalizedSnapshot[] {
+  return snapshots.map(snapshot => {
+    const local = getLocalTimeParts(snapshot.timestamp, timeZone);
+    return {
+      snapshot,
+      ts: Date.parse(snapshot.timestamp),
+      hour: local.hour,
+      day_of_week: local.day_of_week,
+      depth: snapshot.bid_depth + snapshot.ask_depth,
+    };
+  });
+}
+
+/**
+ * Lookback baseline kept as running sums over a time-ordered series.
+ * `add()` newer snapshots and `evictBefore()` the cutoff as the series
+ * is replayed, so classifying every snapshot against its own lookback
+ * is linear in the series instead of rescanning each window.
+ */
+export class RollingLiquidityBaseline {
+  private window: LocalizedSnapshot[] = [];
+  private head = 0;
+  private spread = new RunningStats();
+  private depth = new RunningStats();
+  private byHour = Array.from({ length: 24 }, () => new RunningStats());
+  private byDay = Array.from({ length: 7 }, () => new RunningStats());
+  
+  constructor(private params: LiquidityRegimeParams = DEFAULT_LIQUIDITY_REGIME_PARAMS) {}
+  
+  get size(): number {
+    return this.window.length - this.head;
+  }
+  
+  add(s: LocalizedSnapshot): void {
+    this.window.push(s);
+    this.update(s, 1);
+  }
+  
+  /**
+   * Drop snapshots older than `cutoffMs` (added in time order)
+   */
+  evictBefore(cutoffMs: number): void {
+    while (this.head < this.window.length && this.window[this.head]!.ts < cutoffMs) {
+      this.update(this.window[this.head]!, -1);
+      this.head++;
+    }
+    if (this.head > 1024 && this.head * 2 > this.window.length) {
+      this.window = this.window.slice(this.head);
+      this.head = 0;
+    }
+  }
+  
+  /**
+   * Classify `current` against the snapshots in the baseline
+   */
+  indicator(marketId: string, current: LocalizedSnapshot): LiquidityIndicator {
+    const spreadZScore = this.spread.zScore(current.snapshot.spread_bps);
+    
+    let deeper = 0;
+    for (let i = this.head; i < this.window.length; i++) {
+      if (this.window[i]!.depth > current.depth) deeper++;
+    }
+    
+    return {
+      timestamp: current.snapshot.timestamp,
+      market_id: marketId,
+      regime: classifyRegime(spreadZScore, this.params),
+      spread_bps: current.snapshot.spread_bps,
+      spread_zscore: spreadZScore,
+      volume_zscore: this.depth.zScore(current.depth),
+      factors: {
+        hour_factor: bucketFactor(this.byHour, current.hour),
+        dow_factor: bucketFactor(this.byDay, current.day_of_week),
+        depth_factor: this.size > 0 ? deeper / this.size : 0.5,
+      },
+      confidence: confidenceFromSamples(this.size),
+    };
+  }
+  
+  private update(s: LocalizedSnapshot, sign: 1 | -1): void {
+    const spread = s.snapshot.spread_bps;
+    this.spread.update(spread, sign);
+    this.depth.update(s.depth, sign);
+    this.byHour[s.hour]!.update(spread, sign);
+    this.byDay[s.day_of_week]!.update(spread, sign);
+  }
+}
+
+/**
+ * Count, sum and sum of squares under adds and removes
+ */
+class RunningStats {
+  count = 0;
+  private sum = 0;
+  private sumSq = 0;
+  
+  update(x: number, sign: 1 | -1): void {
+    this.count += sign;
+    this.sum += sign * x;
+    this.sumSq += sign * x * x;
+    if (this.count === 0) {
+      this.sum = 0;
+      this.sumSq = 0;
+    }
+  }
+  
+  get mean(): number {
+    return this.count > 0 ? this.sum / this.count : 0;
+  }
+  
+  /**
+   * Population std. Variance within rounding error of zero (a constant
+   * series after many adds and removes) counts as zero.
+   */
+  get std(): number {
+    if (this.count === 0) return 0;
+    const mean = this.mean;
+    const variance = this.sumSq / this.count - mean * mean;
+    return variance > 1e-9 * Math.max(1, mean * mean) ? Math.sqrt(variance) : 0;
+  }
+  
+  zScore(x: number): number {
+    return computeZScore(x, this.mean, this.std);
+  }
+}
+
+/**
+ * Where this bucket's mean spread sits between the tightest (0) and
+ * widest (1) bucket. 0.5 when there is nothing to compare.
+ */
+function bucketFactor(buckets: RunningStats[], bucket: number): number {
+  const means = buckets.filter(b => b.count > 0).map(b => b.mean);
+  const current = buckets[bucket];
+  if (!current || current.count === 0 || means.length < 2) return 0.5;
+  
+  // Rolling sums leave rounding noise between otherwise equal buckets
+  const min = Math.min(...means);
+  const max = Math.max(...means);
+  return max - min > 1e-9 * Math.max(1, Math.abs(max)) ? (current.mean - min) / (max - min) : 0.5;
+}
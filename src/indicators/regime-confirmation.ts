@@ -0,0 +1,154 @@
+/**
+ * Multi-Timeframe Regime Confirmation
+ * 
+ * Classifies the liquidity regime independently on 15m, 1h and 4h
+ * resamples of a market's orderbook history and scores how far the
+ * timeframes agree. A thin reading on the base timeframe (1h) only
+ * counts as thin when enough timeframes are thin too, which cuts
+ * one-off spikes that a single granularity would flag.
+ */
+
+import type { LiquidityRegime, OrderbookSnapshot } from '../types';
+import {
+  computeLiquidityIndicator,
+  DEFAULT_LIQUIDITY_REGIME_PARAMS,
+  type LiquidityRegimeParams,
+} from './liquidity-regime';
+
+export type Timeframe = '15m' | '1h' | '4h';
+
+export const TIMEFRAME_MINUTES: Record<Timeframe, number> = {
+  '15m': 15,
+  '1h': 60,
+  '4h': 240,
+};
+
+const TIMEFRAMES = Object.keys(TIMEFRAME_MINUTES) as Timeframe[];
+
+export interface RegimeConfirmationParams extends LiquidityRegimeParams {
+  base_timeframe: Timeframe;           // Regime reported before confirmation
+  min_agreement: number;               // Share of timeframes that must be thin (0 = no confirmation)
+}
+
+export const DEFAULT_REGIME_CONFIRMATION_PARAMS: RegimeConfirmationParams = {
+  ...DEFAULT_LIQUIDITY_REGIME_PARAMS,
+  base_timeframe: '1h',
+  min_agreement: 0,
+};
+
+export interface TimeframeRegime {
+  timeframe: Timeframe;
+  regime: LiquidityRegime;
+  spread_zscore: number;
+  sample_count: number;                // Buckets in the lookback baseline
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface RegimeConfirmation {
+  market_id: string;
+  timestamp: string;
+  tf_15m: LiquidityRegime;
+  tf_1h: LiquidityRegime;
+  tf_4h: LiquidityRegime;
+  agreement: number;                   // 0-1, share of timeframes in the most common regime
+  thin_agreement: number;              // 0-1, share of timeframes thin or very_thin
+  base_regime: LiquidityRegime;        // Unconfirmed regime on base_timeframe
+  regime: LiquidityRegime;             // base_regime, downgraded to normal if thin but unconfirmed
+  is_thin: boolean;
+  min_agreement: number;
+  timeframes: TimeframeRegime[];
+}
+
+/**
+ * Resample snapshots into `minutes`-long buckets counted back from the
+ * latest snapshot, so the current bucket is always a full one (a
+ * clock-aligned 4h bucket could hold a single 15m reading): mean spread
+ * and depth, last mid price. Bucket timestamp is its end.
+ */
+export function resampleSnapshots(snapshots: OrderbookSnapshot[], minutes: number): OrderbookSnapshot[] {
+  const bucketMs = minutes * 60000;
+  const buckets = new Map<number, OrderbookSnapshot[]>();
+  
+  const sorted = [...snapshots].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const latestMs = Date.parse(sorted[sorted.length - 1]?.timestamp ?? '');
+  for (const s of sorted) {
+    const end = latestMs - Math.floor((latestMs - Date.parse(s.timestamp)) / bucketMs) * bucketMs;
+    if (!buckets.has(end)) buckets.set(end, []);
+    buckets.get(end)!.push(s);
+  }
+  
+  return [...buckets.entries()].map(([end, group]) => {
+    const avg = (pick: (s: OrderbookSnapshot) => number) => group.reduce((sum, s) => sum + pick(s), 0) / group.length;
+    return {
+      timestamp: new Date(end).toISOString(),
+      mid_price: group[group.length - 1]!.mid_price,
+      spread: avg(s => s.spread),
+      spread_bps: avg(s => s.spread_bps),
+      imbalance: avg(s => s.imbalance),
+      bid_depth: avg(s => s.bid_depth),
+      ask_depth: avg(s => s.ask_depth),
+    };
+  });
+}
+
+/**
+ * Classify each timeframe from the same (finest-grained) history and
+ * combine. `history` should be at 15m resolution or finer.
+ */
+export function computeRegimeConfirmation(
+  marketId: string,
+  history: OrderbookSnapshot[],
+  params: Partial<RegimeConfirmationParams> = {}
+): RegimeConfirmation {
+  const p = { ...DEFAULT_REGIME_CONFIRMATION_PARAMS, ...params };
+  
+  if (history.length === 0) {
+    throw new Error(`No orderbook snapshots for ${marketId}`);
+  }
+  
+  const timeframes: TimeframeRegime[] = TIMEFRAMES.map(timeframe => {
+    const resampled = resampleSnapshots(history, TIMEFRAME_MINUTES[timeframe]);
+    const indicator = computeLiquidityIndicator(marketId, resampled, undefined, p);
+    const cutoffMs = Date.parse(indicator.timestamp) - p.lookback_hours * 3600000;
+    return {
+      timeframe,
+      regime: indicator.regime,
+      spread_zscore: indicator.spread_zscore,
+      sample_count: resampled.filter(s => Date.parse(s.timestamp) >= cutoffMs).length,
+      confidence: indicator.confidence,
+    };
+  });
+  
+  const regimeOf = (tf: Timeframe) => timeframes.find(t => t.timeframe === tf)!.regime;
+  const counts = new Map<LiquidityRegime, number>();
+  for (const t of timeframes) counts.set(t.regime, (counts.get(t.regime) ?? 0) + 1);
+  
+  const thinAgreement = timeframes.filter(t => isThinRegime(t.regime)).length / timeframes.length;
+  const baseRegime = regimeOf(p.base_timeframe);
+  const confirmed = thinAgreement >= p.min_agreement;
+  const isThin = isThinRegime(baseRegime) && confirmed;
+  
+  const latest = history.reduce((a, b) => (Date.parse(b.timestamp) > Date.parse(a.timestamp) ? b : a));
+  
+  return {
+    market_id: marketId,
+    timestamp: latest.timestamp,
+    tf_15m: regimeOf('15m'),
+    tf_1h: regimeOf('1h'),
+    tf_4h: regimeOf('4h'),
+    agreement: Math.max(...counts.values()) / timeframes.length,
+    thin_agreement: thinAgreement,
+    base_regime: baseRegime,
+    regime: isThinRegime(baseRegime) && !confirmed ? 'normal' : baseRegime,
+    is_thin: isThin,
+    min_agreement: p.min_agreement,
+    timeframes,
+  };
+}
+
+/**
+ * thin or very_thin
+ */
+export function isThinRegime(regime: LiquidityRegime): boolean {
+  return regime === 'thin' || regime === 'very_thin';
+}
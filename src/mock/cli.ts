@@ -0,0 +1,97 @@
+#!/usr/bin/env npx tsx
+/**
+ * Mock Replay Labs Server CLI
+ * 
+ * Usage:
+ *   npm run mock-server -- [--port 4010] [--fixtures <dir>] [--register]
+ *                          [--fail <kind>[:<path>][:<probability>]]...
+ * 
+ * Then: REPLAY_LABS_API_URL=http://127.0.0.1:4010 npm run analyze
+ * 
+ * --register adds the mock markets to the pair registry so scan / predict
+ * / backtest have pairs to work with.
+ */
+
+import { getMarketPairRegistry, type MarketPair } from '../registry/market-pairs';
+import {
+  DEFAULT_MOCK_MARKETS,
+  startMockServer,
+  type FailureKind,
+  type FailureRule,
+} from './server';
+
+const FAILURE_KINDS: FailureKind[] = ['timeout', 'rate_limit', 'server_error', 'malformed'];
+const CATEGORIES: MarketPair['category'][] = ['politics', 'sports', 'crypto', 'economics', 'weather', 'other'];
+
+function parseArgs(argv: string[]) {
+  const options = { port: 4010, fixturesDir: undefined as string | undefined, register: false, failures: [] as FailureRule[] };
+  
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') options.port = Number(argv[++i]);
+    else if (arg === '--fixtures') options.fixturesDir = argv[++i];
+    else if (arg === '--register') options.register = true;
+    else if (arg === '--fail') options.failures.push(parseFailure(argv[++i] ?? ''));
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return options;
+}
+
+function parseFailure(spec: string): FailureRule {
+  const [kind, path, probability] = spec.split(':');
+  if (!FAILURE_KINDS.includes(kind as FailureKind)) {
+    throw new Error(`--fail kind must be one of ${FAILURE_KINDS.join(', ')} (got "${kind}")`);
+  }
+  return {
+    kind: kind as FailureKind,
+    path: path || undefined,
+    probability: probability ? Number(probability) : undefined,
+  };
+}
+
+function registerMockPairs(): void {
+  const registry = getMarketPairRegistry();
+  for (const market of DEFAULT_MOCK_MARKETS) {
+    if (registry.get(market.kalshi_ticker)) continue;
+    
+    const category = market.category.toLowerCase() as MarketPair['category'];
+    registry.add({
+      id: market.kalshi_ticker,
+      name: market.title,
+      kalshi_ticker: market.kalshi_ticker,
+      polymarket_token_id: market.polymarket_token_id,
+      category: CATEGORIES.includes(category) ? category : 'other',
+      match_confidence: 1,
+      notes: 'Mock Replay Labs market',
+    });
+    console.log(`Registered pair ${market.kalshi_ticker}`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.register) registerMockPairs();
+  
+  const server = await startMockServer({
+    port: options.port,
+    fixturesDir: options.fixturesDir,
+    failures: options.failures,
+  });
+  
+  console.log(`Mock Replay Labs API listening on ${server.url}`);
+  console.log(`  export REPLAY_LABS_API_URL=${server.url}`);
+  for (const rule of options.failures) {
+    console.log(`  Injecting ${rule.kind}${rule.path ? ` on *${rule.path}*` : ''}${rule.probability !== undefined ? ` (p=${rule.probability})` : ''}`);
+  }
+  
+  const shutdown = () => {
+    server.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(err => {
+  console.error('\n❌ Error:', err.message);
+  process.exit(1);
+});
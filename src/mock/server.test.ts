@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { HttpTransport, ReplayLabsApiError } from '../client/http';
+import { ReplayLabsClient } from '../client/replay-labs';
+import { startMockServer, type MockReplayLabsServer } from './server';
+
+let server: MockReplayLabsServer;
+let client: ReplayLabsClient;
+
+// Fast retries so injected failures resolve in milliseconds
+function transport(): HttpTransport {
+  return new HttpTransport({
+    timeout_ms: 200,
+    max_retries: 2,
+    base_delay_ms: 10,
+    max_delay_ms: 20,
+    rate_limit: { capacity: 100, refill_per_second: 100 },
+  });
+}
+
+beforeEach(async () => {
+  server = await startMockServer({ seed: 7 });
+  client = new ReplayLabsClient({ baseUrl: server.url, mode: 'live', transport: transport() });
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+const statuses = () => server.requests.map(r => r.status);
+
+describe('ReplayLabsClient against the mock server', () => {
+  it('serves the default markets', async () => {
+    const markets = await client.getKalshiMarkets({ status: 'open' });
+
+    expect(markets.map(m => m.ticker).sort()).toEqual(['KXBTC-100K', 'KXFEDCUT-DEC', 'KXRECESSION']);
+    expect(server.requests).toEqual([{ method: 'GET', path: '/api/kalshi/markets', status: 200, failure: undefined }]);
+  });
+
+  it('waits out Retry-After on rate_limit, then succeeds', async () => {
+    server.injectFailure({ kind: 'rate_limit', times: 1, retry_after_s: 0.2 });
+    const started = Date.now();
+    const book = await client.getKalshiOrderbook('KXBTC-100K');
+
+    expect(book.mid_price).toBeGreaterThan(0);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(180);
+    expect(statuses()).toEqual([429, 200]);
+  });
+
+  it('retries server_error and succeeds once it clears', async () => {
+    server.injectFailure({ kind: 'server_error', times: 2 });
+    const book = await client.getKalshiOrderbook('KXBTC-100K');
+
+    expect(book.mid_price).toBeGreaterThan(0);
+    expect(statuses()).toEqual([503, 503, 200]);
+  });
+
+  it('gives up on a persistent server_error with a typed error', async () => {
+    server.injectFailure({ kind: 'server_error', status: 502 });
+    const error = await client.getKalshiOrderbook('KXBTC-100K').then(() => null, (e: ReplayLabsApiError) => e);
+
+    expect(error).toBeInstanceOf(ReplayLabsApiError);
+    expect(error!.status).toBe(502);
+    expect(error!.attempts).toBe(3);
+    expect(error!.retryable).toBe(true);
+    expect(error!.endpoint).toBe('GET /api/kalshi/markets/KXBTC-100K/orderbook');
+    expect(error!.body).toContain('Injected failure');
+    expect(statuses()).toEqual([502, 502, 502]);
+  });
+
+  it('does not retry a 4xx', async () => {
+    server.injectFailure({ kind: 'server_error', status: 400 });
+    const error = await client.getKalshiMarkets().then(() => null, (e: ReplayLabsApiError) => e);
+
+    expect(error!.status).toBe(400);
+    expect(error!.attempts).toBe(1);
+    expect(statuses()).toEqual([400]);
+  });
+
+  it('times out a hung request and retries it', async () => {
+    server.injectFailure({ kind: 'timeout', times: 1 });
+    const book = await client.getPolymarketBook('1000000000000000001');
+
+    expect(book.mid_price).toBeGreaterThan(0);
+    expect(statuses()).toEqual([null, 200]);
+  });
+
+  it('reports a persistent timeout with no status', async () => {
+    server.injectFailure({ kind: 'timeout' });
+    const error = await client.getPolymarketBook('1000000000000000001').then(() => null, (e: ReplayLabsApiError) => e);
+
+    expect(error).toBeInstanceOf(ReplayLabsApiError);
+    expect(error!.status).toBeNull();
+    expect(error!.message).toMatch(/timed out after 200ms/);
+    expect(error!.attempts).toBe(3);
+  });
+
+  it('rejects a malformed 200 body without retrying', async () => {
+    server.injectFailure({ kind: 'malformed' });
+    const error = await client.getKalshiMarkets().then(() => null, (e: ReplayLabsApiError) => e);
+
+    expect(error).toBeInstanceOf(ReplayLabsApiError);
+    expect(error!.status).toBe(200);
+    expect(error!.retryable).toBe(false);
+    expect(error!.attempts).toBe(1);
+    expect(error!.endpoint).toBe('GET /api/kalshi/markets');
+    expect(error!.body).toBe('{"data": [{"price": 0.5, "si');
+    expect(error!.message).toMatch(/^Invalid JSON in 200 response/);
+    expect(statuses()).toEqual([200]);
+  });
+
+  it('only fails requests whose path matches the rule', async () => {
+    server.injectFailure({ kind: 'server_error', path: '/clob/book' });
+    await client.getKalshiOrderbook('KXBTC-100K');
+    await expect(client.getPolymarketBook('1000000000000000001')).rejects.toBeInstanceOf(ReplayLabsApiError);
+
+    expect(statuses()).toEqual([200, 503, 503, 503]);
+  });
+});
+
+describe('getKalshiEventMarkets', () => {
+  it('follows the cursor across pages and keeps closed brackets', async () => {
+    const brackets = Array.from({ length: 1005 }, (_, i) => ({
+      kalshi_ticker: `KXTEMP-B${i}`,
+      polymarket_token_id: `${i}`,
+      title: `Bracket ${i}`,
+      category: 'Weather',
+      fair_price: 0.001,
+      event_ticker: 'KXTEMP',
+      close_time: i === 0 ? '2020-01-01T00:00:00.000Z' : undefined,
+    }));
+    const paged = await startMockServer({ seed: 7, markets: [...brackets, { ...brackets[1]!, kalshi_ticker: 'OTHER-1', event_ticker: 'OTHER' }] });
+    try {
+      const pagedClient = new ReplayLabsClient({ baseUrl: paged.url, mode: 'live', transport: transport() });
+      const markets = await pagedClient.getKalshiEventMarkets('KXTEMP');
+
+      expect(markets).toHaveLength(1005);
+      expect(markets.filter(m => m.status === 'closed').map(m => m.ticker)).toEqual(['KXTEMP-B0']);
+      expect(paged.requests.map(r => r.path)).toEqual(['/api/kalshi/markets', '/api/kalshi/markets']);
+    } finally {
+      await paged.stop();
+    }
+  });
+});
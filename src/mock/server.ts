@@ -0,0 +1,662 @@
+/**
+ * Mock Replay Labs Server
+ * 
+ * Small local HTTP server implementing the endpoints this project uses,
+ * for integration tests and offline development. Point
+ * REPLAY_LABS_API_URL at it and the client, tools and analysis script
+ * run end-to-end with no network.
+ * 
+ * Responses come from (in order):
+ * 1. Injected failures (timeouts, 429s, 5xx, malformed bodies)
+ * 2. Recorded fixtures, when `fixturesDir` is set
+ * 3. Snapshot history supplied in `history` (e.g. from the synthetic
+ *    data generator's toSymbolHistory) for /api/orderbook/{id}
+ * 4. Synthetic markets: deterministic prices with a daily cycle and
+ *    wider overnight spreads, so regime / window logic has something
+ *    to find
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { OrderbookSnapshot } from '../types';
+import { FixtureNotFoundError, FixtureTransport } from '../client/fixtures';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface MockMarket {
+  kalshi_ticker: string;
+  polymarket_token_id: string;
+  title: string;
+  category: string;                    // Kalshi category label
+  fair_price: number;                  // Polymarket mid (0-1)
+  kalshi_offset?: number;              // Added to the Kalshi mid - the cross-venue gap
+  spread?: number;                     // Daytime bid/ask spread (price units)
+  depth?: number;                      // Contracts at the top level
+  volatility?: number;                 // Amplitude of hourly noise (price units)
+  event_ticker?: string;
+  close_time?: string;
+}
+
+export type FailureKind = 'timeout' | 'rate_limit' | 'server_error' | 'malformed';
+
+export interface FailureRule {
+  kind: FailureKind;
+  path?: string;                       // Substring of the request path; all paths if omitted
+  times?: number;                      // Fire this many times, then remove the rule
+  probability?: number;                // Chance each matching request fails (default 1)
+  status?: number;                     // server_error status (default 503)
+  retry_after_s?: number;              // rate_limit Retry-After (default 1)
+}
+
+export interface MockServerConfig {
+  port?: number;                       // 0 picks a free port
+  host?: string;
+  markets?: MockMarket[];
+  fixturesDir?: string;
+  history?: Record<string, OrderbookSnapshot[]>;   // Symbol -> snapshots, oldest first
+  failures?: FailureRule[];
+  seed?: number;
+}
+
+export interface MockRequestLog {
+  method: string;
+  path: string;
+  status: number | null;               // null when the request was left hanging
+  failure?: FailureKind;
+}
+
+export const DEFAULT_MOCK_MARKETS: MockMarket[] = [
+  {
+    kalshi_ticker: 'KXBTC-100K',
+    polymarket_token_id: '1000000000000000001',
+    title: 'Will Bitcoin price reach 100k this year?',
+    category: 'Crypto',
+    fair_price: 0.42,
+    kalshi_offset: 0.035,
+    spread: 0.02,
+    depth: 400,
+    volatility: 0.01,
+  },
+  {
+    kalshi_ticker: 'KXFEDCUT-DEC',
+    polymarket_token_id: '1000000000000000002',
+    title: 'Federal Reserve interest rate cut in December?',
+    category: 'Economics',
+    fair_price: 0.63,
+    kalshi_offset: -0.015,
+    spread: 0.01,
+    depth: 800,
+    volatility: 0.006,
+  },
+  {
+    kalshi_ticker: 'KXRECESSION',
+    polymarket_token_id: '1000000000000000003',
+    title: 'Recession declared this year?',
+    category: 'Economics',
+    fair_price: 0.18,
+    kalshi_offset: 0.005,
+    spread: 0.03,
+    depth: 150,
+    volatility: 0.008,
+  },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const LEVELS = 5;
+const MAX_SERIES_POINTS = 5_000;
+
+const INTERVAL_MS: Record<string, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '1h': HOUR_MS,
+  '4h': 4 * HOUR_MS,
+  '6h': 6 * HOUR_MS,
+  '1d': 24 * HOUR_MS,
+  '1w': 7 * 24 * HOUR_MS,
+  'max': 24 * HOUR_MS,
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SERVER
+// ═══════════════════════════════════════════════════════════════
+
+export class MockReplayLabsServer {
+  readonly requests: MockRequestLog[] = [];
+  private server: http.Server | null = null;
+  private markets: MockMarket[];
+  private failures: FailureRule[];
+  private fixtures: FixtureTransport | null;
+  private history: Record<string, OrderbookSnapshot[]>;
+  private port: number;
+  private host: string;
+  private seed: number;
+  private rng: () => number;
+  
+  constructor(config: MockServerConfig = {}) {
+    this.markets = config.markets ?? DEFAULT_MOCK_MARKETS;
+    this.failures = [...(config.failures ?? [])];
+    this.fixtures = config.fixturesDir ? new FixtureTransport({ mode: 'replay', dir: config.fixturesDir }) : null;
+    this.history = config.history ?? {};
+    this.port = config.port ?? 0;
+    this.host = config.host ?? '127.0.0.1';
+    this.seed = config.seed ?? 1;
+    this.rng = mulberry32(this.seed);
+  }
+  
+  /**
+   * Base URL once started (e.g. for REPLAY_LABS_API_URL)
+   */
+  get url(): string {
+    if (!this.server) throw new Error('Mock server is not running');
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.host}:${port}`;
+  }
+  
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+    
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(err => {
+        this.reply(res, req, 500, { error: err instanceof Error ? err.message : String(err) });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => resolve());
+    });
+    return this.url;
+  }
+  
+  /**
+   * Stop listening and drop open connections, including hung 'timeout' requests
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+  
+  injectFailure(rule: FailureRule): void {
+    this.failures.push({ ...rule });
+  }
+  
+  clearFailures(): void {
+    this.failures = [];
+  }
+  
+  // ═══════════════════════════════════════════════════════════════
+  // REQUEST HANDLING
+  // ═══════════════════════════════════════════════════════════════
+  
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://mock');
+    const method = req.method ?? 'GET';
+    const body = method === 'POST' ? await readBody(req) : undefined;
+    
+    const failure = this.takeFailure(url.pathname);
+    if (failure) {
+      this.fail(req, res, failure);
+      return;
+    }
+    
+    if (this.fixtures) {
+      try {
+        const data = await this.fixtures.requestJson<unknown>(url.toString(), { method, body });
+        this.reply(res, req, 200, data);
+        return;
+      } catch (e) {
+        if (!(e instanceof FixtureNotFoundError)) throw e;
+      }
+    }
+    
+    try {
+      this.reply(res, req, 200, this.route(method, url, body));
+    } catch (e) {
+      if (!(e instanceof HttpError)) throw e;
+      this.reply(res, req, e.status, { error: e.message });
+    }
+  }
+  
+  private route(method: string, url: URL, body: string | undefined): unknown {
+    const q = url.searchParams;
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const now = Date.now();
+    
+    if (method === 'POST' && url.pathname === '/api/polymarket/clob/spreads') {
+      return this.polymarketSpreads(body, now);
+    }
+    if (method !== 'GET') throw new HttpError(405, `${method} not supported on ${url.pathname}`);
+    
+    switch (url.pathname) {
+      case '/api/kalshi/markets':
+        return this.kalshiMarkets(q);
+      case '/api/kalshi/markets/candlesticks':
+        return this.kalshiBatchCandlesticks(q, now);
+      case '/api/markets/semantic-search':
+        return this.semanticSearch(q);
+      case '/api/polymarket/clob/book':
+        return this.polymarketBook(this.byToken(q.get('token_id')), now);
+      case '/api/polymarket/clob/prices-history':
+        return this.pricesHistory(this.byToken(q.get('market')), q, now);
+    }
+    
+    // /api/kalshi/markets/{ticker}[/orderbook]
+    if (parts[0] === 'api' && parts[1] === 'kalshi' && parts[2] === 'markets' && parts[3]) {
+      const market = this.byTicker(parts[3]);
+      if (parts.length === 4) return kalshiMarketBody(market);
+      if (parts.length === 5 && parts[4] === 'orderbook') return this.kalshiOrderbook(market, now);
+    }
+    
+    // /api/kalshi/series/{series}/markets/{ticker}/candlesticks
+    if (parts[1] === 'kalshi' && parts[2] === 'series' && parts[4] === 'markets' && parts[6] === 'candlesticks') {
+      return this.kalshiCandlesticks(this.byTicker(parts[5]), q, now);
+    }
+    
+    // /api/orderbook/{symbol}
+    if (parts[1] === 'orderbook' && parts[2] && parts.length === 3) {
+      return this.orderbookHistory(parts[2], q, now);
+    }
+    
+    throw new HttpError(404, `No mock route for ${method} ${url.pathname}`);
+  }
+  
+  private takeFailure(pathname: string): FailureRule | null {
+    for (const rule of this.failures) {
+      if (rule.path && !pathname.includes(rule.path)) continue;
+      if (this.rng() >= (rule.probability ?? 1)) continue;
+      
+      if (rule.times !== undefined) {
+        rule.times -= 1;
+        if (rule.times <= 0) this.failures.splice(this.failures.indexOf(rule), 1);
+      }
+      return rule;
+    }
+    return null;
+  }
+  
+  private fail(req: http.IncomingMessage, res: http.ServerResponse, rule: FailureRule): void {
+    const path = new URL(req.url ?? '/', 'http://mock').pathname;
+    
+    switch (rule.kind) {
+      case 'timeout':
+        // Never respond; the client's timeout (or stop()) ends it
+        this.requests.push({ method: req.method ?? 'GET', path, status: null, failure: rule.kind });
+        return;
+      case 'rate_limit':
+        res.setHeader('Retry-After', String(rule.retry_after_s ?? 1));
+        this.reply(res, req, 429, { error: 'Too Many Requests' }, rule.kind);
+        return;
+      case 'server_error':
+        this.reply(res, req, rule.status ?? 503, { error: 'Injected failure' }, rule.kind);
+        return;
+      case 'malformed':
+        this.requests.push({ method: req.method ?? 'GET', path, status: 200, failure: rule.kind });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"data": [{"price": 0.5, "si');
+        return;
+    }
+  }
+  
+  private reply(res: http.ServerResponse, req: http.IncomingMessage, status: number, data: unknown, failure?: FailureKind): void {
+    this.requests.push({ method: req.method ?? 'GET', path: new URL(req.url ?? '/', 'http://mock').pathname, status, failure });
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+  
+  // ═══════════════════════════════════════════════════════════════
+  // ENDPOINTS
+  // ═══════════════════════════════════════════════════════════════
+  
+  /**
+   * Paged like Kalshi: the cursor is the offset of the next page, empty
+   * on the last one
+   */
+  private kalshiMarkets(q: URLSearchParams): unknown {
+    const status = q.get('status');
+    const category = q.get('category')?.toLowerCase();
+    const eventTicker = q.get('event_ticker');
+    const limit = Number(q.get('limit') ?? Infinity);
+    const offset = Number(q.get('cursor') ?? 0);
+    
+    const matching = this.markets
+      .map(kalshiMarketBody)
+      .filter(m => !status || m.status === status)
+      .filter(m => !category || m.category.toLowerCase().includes(category))
+      .filter(m => !eventTicker || m.event_ticker === eventTicker);
+    const next = offset + limit;
+    return {
+      markets: matching.slice(offset, next),
+      cursor: next < matching.length ? String(next) : '',
+    };
+  }
+  
+  /**
+   * Kalshi lists resting bids only: YES bids below the mid, NO bids at
+   * 1 - (YES asks)
+   */
+  private kalshiOrderbook(market: MockMarket, now: number): unknown {
+    const { bids, asks } = this.ladder(market, 'KALSHI', now);
+    return {
+      yes: bids.map(l => ({ price: l.price, quantity: l.size })),
+      no: asks.map(l => ({ price: round(1 - l.price, 2), quantity: l.size })),
+    };
+  }
+  
+  private kalshiCandlesticks(market: MockMarket, q: URLSearchParams, now: number): unknown {
+    const stepMs = INTERVAL_MS[q.get('period') ?? '1h'] ?? HOUR_MS;
+    const { start, end } = timeWindow(q.get('start_ts'), q.get('end_ts'), 1000, now);
+    
+    return {
+      candlesticks: seriesTimes(start, end, stepMs).map(t => {
+        const open = this.mid(market, 'KALSHI', t - stepMs);
+        const close = this.mid(market, 'KALSHI', t);
+        return {
+          timestamp: new Date(t).toISOString(),
+          open,
+          high: Math.max(open, close),
+          low: Math.min(open, close),
+          close,
+          volume: this.volume(market, t),
+        };
+      }),
+    };
+  }
+  
+  private kalshiBatchCandlesticks(q: URLSearchParams, now: number): unknown {
+    const tickers = (q.get('market_tickers') ?? '').split(',').filter(Boolean);
+    const stepMs = Number(q.get('period_interval') ?? 60) * 60_000;
+    const { start, end } = timeWindow(q.get('start_ts'), q.get('end_ts'), 1000, now);
+    
+    const candlesticks: Record<string, unknown[]> = {};
+    for (const ticker of tickers) {
+      const market = this.markets.find(m => m.kalshi_ticker === ticker);
+      if (!market) continue;
+      
+      candlesticks[ticker] = seriesTimes(start, end, stepMs).map(t => {
+        const mid = this.mid(market, 'KALSHI', t);
+        const half = this.spread(market, t) / 2;
+        const bid = clampPrice(round(mid - half, 2));
+        const ask = clampPrice(round(mid + half, 2));
+        return {
+          end_period_ts: Math.floor(t / 1000),
+          yes_bid: { close: Math.round(bid * 100), close_dollars: bid.toFixed(4) },
+          yes_ask: { close: Math.round(ask * 100), close_dollars: ask.toFixed(4) },
+          volume: this.volume(market, t),
+        };
+      });
+    }
+    return { candlesticks };
+  }
+  
+  private semanticSearch(q: URLSearchParams): unknown {
+    const terms = tokenize(q.get('q') ?? '');
+    const limit = Number(q.get('limit') ?? 10);
+    if (terms.length === 0) return [];
+    
+    const results = [];
+    for (const market of this.markets) {
+      const title = new Set(tokenize(market.title));
+      const similarity = terms.filter(t => title.has(t)).length / terms.length;
+      if (similarity === 0) continue;
+      
+      const isOpen = kalshiMarketBody(market).status === 'open';
+      results.push(
+        { venue: 'KALSHI' as const, id: market.kalshi_ticker, question: market.title, isOpen, similarity },
+        { venue: 'POLYMARKET' as const, id: market.polymarket_token_id, question: market.title, isOpen, similarity }
+      );
+    }
+    return results.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+  
+  private polymarketBook(market: MockMarket, now: number): unknown {
+    const { bids, asks } = this.ladder(market, 'POLYMARKET', now);
+    return {
+      market: `0x${market.polymarket_token_id}`,
+      asset_id: market.polymarket_token_id,
+      timestamp: String(now),
+      bids: bids.map(l => ({ price: l.price.toFixed(3), size: l.size.toFixed(2) })),
+      asks: asks.map(l => ({ price: l.price.toFixed(3), size: l.size.toFixed(2) })),
+    };
+  }
+  
+  private polymarketSpreads(body: string | undefined, now: number): unknown {
+    let requested: { token_id?: string }[];
+    try {
+      requested = JSON.parse(body ?? '[]');
+    } catch {
+      throw new HttpError(400, 'Body must be a JSON array of { token_id }');
+    }
+    
+    const spreads: Record<string, string> = {};
+    for (const { token_id } of requested) {
+      const market = this.markets.find(m => m.polymarket_token_id === token_id);
+      if (market) spreads[market.polymarket_token_id] = this.spread(market, now).toFixed(3);
+    }
+    return spreads;
+  }
+  
+  private pricesHistory(market: MockMarket, q: URLSearchParams, now: number): unknown {
+    const stepMs = INTERVAL_MS[q.get('interval') ?? '1h'] ?? HOUR_MS;
+    const { start, end } = timeWindow(q.get('startTs'), q.get('endTs'), 1000, now);
+    
+    return {
+      history: seriesTimes(start, end, stepMs).map(t => ({
+        t: Math.floor(t / 1000),
+        p: this.mid(market, 'POLYMARKET', t),
+      })),
+    };
+  }
+  
+  private orderbookHistory(symbolId: string, q: URLSearchParams, now: number): unknown {
+    const recorded = this.history[symbolId];
+    if (recorded) {
+      const start = q.get('start') ? Date.parse(q.get('start')!) : -Infinity;
+      const end = q.get('end') ? Date.parse(q.get('end')!) : Infinity;
+      return {
+        snapshots: recorded.filter(s => {
+          const t = Date.parse(s.timestamp);
+          return t >= start && t <= end;
+        }),
+      };
+    }
+    
+    const market = this.markets.find(m => m.kalshi_ticker === symbolId || m.polymarket_token_id === symbolId);
+    if (!market) throw new HttpError(404, `Unknown symbol ${symbolId}`);
+    
+    const venue = market.kalshi_ticker === symbolId ? 'KALSHI' : 'POLYMARKET';
+    const stepMs = INTERVAL_MS[q.get('interval') ?? '1h'] ?? HOUR_MS;
+    const start = q.get('start') ? Date.parse(q.get('start')!) : now - 7 * 24 * HOUR_MS;
+    const end = q.get('end') ? Date.parse(q.get('end')!) : now;
+    if (Number.isNaN(start) || Number.isNaN(end)) throw new HttpError(400, 'start/end must be ISO timestamps');
+    
+    return {
+      snapshots: seriesTimes(start, Math.min(end, now), stepMs).map(t => {
+        const { bids, asks } = this.ladder(market, venue, t);
+        const bestBid = bids[0]?.price ?? 0;
+        const bestAsk = asks[0]?.price ?? 1;
+        const mid = (bestBid + bestAsk) / 2;
+        const bidDepth = bids.reduce((sum, l) => sum + l.size, 0);
+        const askDepth = asks.reduce((sum, l) => sum + l.size, 0);
+        return {
+          timestamp: new Date(t).toISOString(),
+          mid_price: mid,
+          spread: bestAsk - bestBid,
+          spread_bps: mid > 0 ? ((bestAsk - bestBid) / mid) * 10000 : 0,
+          imbalance: (bidDepth - askDepth) / (bidDepth + askDepth),
+          bid_depth: bidDepth,
+          ask_depth: askDepth,
+          bids,
+          asks,
+        };
+      }),
+    };
+  }
+  
+  // ═══════════════════════════════════════════════════════════════
+  // SYNTHETIC MARKET MODEL
+  // ═══════════════════════════════════════════════════════════════
+  
+  /**
+   * Mid at time t: fair price + daily cycle + hourly noise (+ Kalshi offset)
+   */
+  private mid(market: MockMarket, venue: 'KALSHI' | 'POLYMARKET', t: number): number {
+    const volatility = market.volatility ?? 0.01;
+    const hour = Math.floor(t / HOUR_MS);
+    const cycle = Math.sin((2 * Math.PI * (t % (24 * HOUR_MS))) / (24 * HOUR_MS));
+    const noise = hashUnit(this.seed, market.polymarket_token_id, hour) * 2 - 1;
+    const offset = venue === 'KALSHI' ? market.kalshi_offset ?? 0 : 0;
+    return clampPrice(round(market.fair_price + offset + volatility * (cycle + noise), 4));
+  }
+  
+  /**
+   * Spread widens up to 2.5x between 04:00 and 10:00 UTC (US overnight)
+   */
+  private spread(market: MockMarket, t: number): number {
+    const base = market.spread ?? 0.02;
+    const utcHour = new Date(t).getUTCHours();
+    const overnight = utcHour >= 4 && utcHour < 10 ? 2.5 : 1;
+    return round(base * overnight, 3);
+  }
+  
+  private volume(market: MockMarket, t: number): number {
+    const depth = market.depth ?? 500;
+    const utcHour = new Date(t).getUTCHours();
+    const activity = utcHour >= 4 && utcHour < 10 ? 0.3 : 1;
+    return Math.round(depth * activity * (0.5 + hashUnit(this.seed, market.kalshi_ticker, Math.floor(t / HOUR_MS))));
+  }
+  
+  private ladder(market: MockMarket, venue: 'KALSHI' | 'POLYMARKET', t: number) {
+    const mid = this.mid(market, venue, t);
+    const half = this.spread(market, t) / 2;
+    const depth = this.volume(market, t) || 1;
+    const tick = 0.01;
+    
+    const bids = [];
+    const asks = [];
+    for (let i = 0; i < LEVELS; i++) {
+      const bid = round(mid - half - i * tick, 2);
+      const ask = round(mid + half + i * tick, 2);
+      if (bid > 0) bids.push({ price: bid, size: depth * (i + 1) });
+      if (ask < 1) asks.push({ price: ask, size: depth * (i + 1) });
+    }
+    return { bids, asks };
+  }
+  
+  private byTicker(ticker: string | undefined): MockMarket {
+    const market = this.markets.find(m => m.kalshi_ticker === ticker);
+    if (!market) throw new HttpError(404, `Unknown Kalshi ticker ${ticker}`);
+    return market;
+  }
+  
+  private byToken(tokenId: string | null): MockMarket {
+    const market = this.markets.find(m => m.polymarket_token_id === tokenId);
+    if (!market) throw new HttpError(404, `Unknown Polymarket token ${tokenId}`);
+    return market;
+  }
+}
+
+/**
+ * Start a mock server (convenience for tests and scripts)
+ */
+export async function startMockServer(config: MockServerConfig = {}): Promise<MockReplayLabsServer> {
+  const server = new MockReplayLabsServer(config);
+  await server.start();
+  return server;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+function kalshiMarketBody(market: MockMarket) {
+  const closed = market.close_time !== undefined && Date.parse(market.close_time) < Date.now();
+  return {
+    ticker: market.kalshi_ticker,
+    event_ticker: market.event_ticker,
+    title: market.title,
+    category: market.category,
+    volume_24h: (market.depth ?? 500) * 24,
+    open_time: '2024-01-01T00:00:00.000Z',
+    close_time: market.close_time,
+    status: closed ? 'closed' : 'open',
+  };
+}
+
+/**
+ * Window from unix-second (or ms) query params, defaulting to the last 30 days
+ */
+function timeWindow(startParam: string | null, endParam: string | null, unitMs: number, now: number) {
+  const end = endParam ? Number(endParam) * unitMs : now;
+  const start = startParam ? Number(startParam) * unitMs : end - 30 * 24 * HOUR_MS;
+  if (!Number.isFinite(start) || !Number.isFinite(end)) throw new HttpError(400, 'Invalid time range');
+  return { start, end: Math.min(end, now) };
+}
+
+/**
+ * Step-aligned times in [start, end], capped at MAX_SERIES_POINTS (most recent kept)
+ */
+function seriesTimes(start: number, end: number, stepMs: number): number[] {
+  const first = Math.max(Math.ceil(start / stepMs), Math.floor(end / stepMs) - MAX_SERIES_POINTS + 1);
+  const times: number[] = [];
+  for (let i = first; i * stepMs <= end; i++) {
+    times.push(i * stepMs);
+  }
+  return times;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2);
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function clampPrice(price: number): number {
+  return Math.min(0.99, Math.max(0.01, price));
+}
+
+/**
+ * Deterministic value in [0, 1) for (seed, key, n)
+ */
+function hashUnit(seed: number, key: string, n: number): number {
+  let h = seed ^ n;
+  for (let i = 0; i < key.length; i++) {
+    h = Math.imul(h ^ key.charCodeAt(i), 0x5bd1e995);
+    h ^= h >>> 15;
+  }
+  return mulberry32(h)();
+}
+
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MarketPairRegistry } from './market-pairs';
+
+let dir: string;
+let filePath: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'market-pairs-'));
+  filePath = path.join(dir, 'data', 'market_pairs.json');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const BTC = {
+  id: 'KXBTC-100K',
+  name: 'Will Bitcoin price reach 100k this year?',
+  kalshi_ticker: 'KXBTC-100K',
+  polymarket_token_id: '1000000000000000001',
+  category: 'crypto' as const,
+  match_confidence: 0.95,
+};
+
+const FED = {
+  id: 'KXFEDCUT-DEC',
+  name: 'Federal Reserve interest rate cut in December?',
+  kalshi_ticker: 'KXFEDCUT-DEC',
+  polymarket_token_id: '1000000000000000002',
+  category: 'economics' as const,
+  match_confidence: 0.9,
+};
+
+function registry(autoSave = true): MarketPairRegistry {
+  return new MarketPairRegistry({ filePath, autoSave });
+}
+
+describe('MarketPairRegistry', () => {
+  it('starts empty when the file is missing', () => {
+    expect(registry().list()).toEqual([]);
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('adds active pairs and rejects duplicate IDs', () => {
+    const r = registry();
+    const added = r.add(BTC);
+
+    expect(added).toMatchObject({ ...BTC, status: 'active' });
+    expect(added.created_at).toBe(added.updated_at);
+    expect(r.get(BTC.id)).toEqual(added);
+    expect(() => r.add({ ...BTC, name: 'Again' })).toThrow('Market pair already registered: KXBTC-100K');
+    expect(() => r.add({ ...FED, match_confidence: 1.5 })).toThrow();
+    expect(r.list()).toHaveLength(1);
+  });
+
+  it('updates fields, keeping id and created_at', () => {
+    const r = registry();
+    const added = r.add(BTC);
+    const updated = r.update(BTC.id, { match_confidence: 0.5, polymarket_closes_at: '2026-12-31T00:00:00.000Z' });
+
+    expect(updated).toMatchObject({ id: BTC.id, match_confidence: 0.5, polymarket_closes_at: '2026-12-31T00:00:00.000Z' });
+    expect(updated.created_at).toBe(added.created_at);
+    expect(Date.parse(updated.updated_at)).toBeGreaterThanOrEqual(Date.parse(added.updated_at));
+    expect(() => r.update('NOPE', { notes: 'x' })).toThrow('Market pair not found: NOPE');
+    expect(() => r.update(BTC.id, { category: 'nope' as never })).toThrow();
+    expect(r.get(BTC.id)!.category).toBe('crypto');
+  });
+
+  it('retires pairs out of the active list, optionally with notes', () => {
+    const r = registry();
+    r.add(BTC);
+    r.add({ ...FED, notes: 'Curated' });
+
+    expect(r.retire(BTC.id, 'Resolved')).toMatchObject({ status: 'retired', notes: 'Resolved' });
+    expect(r.retire(FED.id).notes).toBe('Curated');
+    expect(r.list({ status: 'active' })).toEqual([]);
+    expect(r.list({ status: 'retired' }).map(p => p.id).sort()).toEqual([BTC.id, FED.id]);
+  });
+
+  it('removes pairs', () => {
+    const r = registry();
+    r.add(BTC);
+
+    expect(r.remove(BTC.id)).toBe(true);
+    expect(r.remove(BTC.id)).toBe(false);
+    expect(r.get(BTC.id)).toBeUndefined();
+    expect(registry().list()).toEqual([]);
+  });
+
+  it('filters by status and category', () => {
+    const r = registry();
+    r.add(BTC);
+    r.add(FED);
+    r.add({ ...FED, id: 'KXFEDCUT-JAN', kalshi_ticker: 'KXFEDCUT-JAN', status: 'retired' });
+
+    expect(r.list({ category: 'economics' }).map(p => p.id).sort()).toEqual(['KXFEDCUT-DEC', 'KXFEDCUT-JAN']);
+    expect(r.list({ status: 'active', category: 'economics' }).map(p => p.id)).toEqual(['KXFEDCUT-DEC']);
+  });
+
+  it('imports discovered pairs once, skipping known legs and IDs', () => {
+    const r = registry();
+    r.add(BTC);
+
+    const added = r.importDiscovered([
+      { question: BTC.name, kalshi_id: 'OTHER-ID', polymarket_id: BTC.polymarket_token_id, similarity: 0.9 },
+      { question: 'Same ID, new token', kalshi_id: BTC.kalshi_ticker, polymarket_id: '999', similarity: 0.9 },
+      { question: FED.name, kalshi_id: FED.kalshi_ticker, polymarket_id: FED.polymarket_token_id, similarity: 1.2 },
+      { question: 'Recession declared this year?', kalshi_id: 'KXRECESSION', polymarket_id: '1000000000000000003', similarity: 0.7 },
+    ], 'economics');
+
+    expect(added.map(p => p.id)).toEqual(['OTHER-ID', 'KXFEDCUT-DEC', 'KXRECESSION']);
+    expect(r.get('KXFEDCUT-DEC')).toMatchObject({
+      name: FED.name,
+      polymarket_token_id: FED.polymarket_token_id,
+      category: 'economics',
+      match_confidence: 1,
+      status: 'active',
+      notes: 'Imported from semantic search',
+    });
+    expect(r.get(BTC.id)!.polymarket_token_id).toBe(BTC.polymarket_token_id);
+
+    // Kalshi ticker + Polymarket token already known
+    expect(r.importDiscovered([
+      { question: FED.name, kalshi_id: FED.kalshi_ticker, polymarket_id: FED.polymarket_token_id, similarity: 0.8 },
+    ])).toEqual([]);
+  });
+});
+
+describe('MarketPairRegistry file', () => {
+  it('round-trips pairs through the JSON file, sorted by ID', () => {
+    const r = registry();
+    r.add(FED);
+    r.add(BTC);
+    r.retire(FED.id, 'Resolved');
+
+    const file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    expect(file.version).toBe(1);
+    expect(file.pairs.map((p: { id: string }) => p.id)).toEqual([BTC.id, FED.id]);
+
+    const reopened = registry();
+    expect(reopened.get(BTC.id)).toEqual(r.get(BTC.id));
+    expect(reopened.get(FED.id)).toEqual(r.get(FED.id));
+  });
+
+  it('writes nothing until save() without autoSave', () => {
+    const r = registry(false);
+    r.add(BTC);
+    r.importDiscovered([{ question: FED.name, kalshi_id: FED.kalshi_ticker, polymarket_id: FED.polymarket_token_id, similarity: 0.9 }]);
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    r.save();
+    expect(registry().list().map(p => p.id).sort()).toEqual([BTC.id, FED.id]);
+  });
+
+  it('load() picks up changes made by another instance', () => {
+    const r = registry();
+    r.add(BTC);
+    registry().remove(BTC.id);
+
+    expect(r.get(BTC.id)).toBeDefined();
+    r.load();
+    expect(r.get(BTC.id)).toBeUndefined();
+  });
+
+  it('rejects an invalid file', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ version: 2, pairs: [] }));
+
+    expect(() => registry()).toThrow(/^Invalid market pair registry/);
+  });
+});
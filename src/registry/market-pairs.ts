@@ -0,0 +1,220 @@
+/**
+ * Cross-Venue Market Pair Registry
+ * 
+ * Persistent mapping of Kalshi tickers to Polymarket tokens that resolve
+ * on the same outcome. Backed by a JSON file so pairs found by the
+ * analysis pipeline (or curated by hand) survive between runs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+
+const DEFAULT_REGISTRY_PATH = process.env.ARB_OPPITY_PAIRS_FILE
+  || path.join(process.cwd(), 'data', 'market_pairs.json');
+
+// ═══════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════
+
+export const marketPairSchema = z.object({
+  id: z.string().describe('Registry ID (used as market_id by the tools)'),
+  name: z.string().describe('Human-readable question'),
+  kalshi_ticker: z.string(),
+  polymarket_token_id: z.string(),
+  category: z.enum(['politics', 'sports', 'crypto', 'economics', 'weather', 'other']),
+  match_confidence: z.number().min(0).max(1).describe('How sure we are both legs resolve identically (0-1)'),
+  polymarket_closes_at: z.string().optional().describe('Polymarket resolution date (ISO); Kalshi close comes from market metadata'),
+  notes: z.string().optional(),
+  status: z.enum(['active', 'retired']),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+const registryFileSchema = z.object({
+  version: z.literal(1),
+  pairs: z.array(marketPairSchema),
+});
+
+export type MarketPair = z.infer<typeof marketPairSchema>;
+export type MarketPairStatus = MarketPair['status'];
+
+/**
+ * Pair shape produced by findMatchingMarkets() in run-analysis.ts
+ */
+export interface DiscoveredMarketPair {
+  question: string;
+  kalshi_id: string;
+  polymarket_id: string;
+  similarity: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════
+
+export class MarketPairRegistry {
+  private filePath: string;
+  private autoSave: boolean;
+  private pairs = new Map<string, MarketPair>();
+  
+  constructor(config?: { filePath?: string; autoSave?: boolean }) {
+    this.filePath = config?.filePath || DEFAULT_REGISTRY_PATH;
+    this.autoSave = config?.autoSave ?? true;
+    this.load();
+  }
+  
+  /**
+   * (Re)load pairs from disk. A missing file is an empty registry.
+   */
+  load(): void {
+    this.pairs.clear();
+    if (!fs.existsSync(this.filePath)) return;
+    
+    const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    const parsed = registryFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid market pair registry ${this.filePath}: ${parsed.error.message}`);
+    }
+    
+    for (const pair of parsed.data.pairs) {
+      this.pairs.set(pair.id, pair);
+    }
+  }
+  
+  /**
+   * Write all pairs to disk
+   */
+  save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    
+    const output = {
+      version: 1 as const,
+      pairs: [...this.pairs.values()].sort((a, b) => a.id.localeCompare(b.id)),
+    };
+    fs.writeFileSync(this.filePath, JSON.stringify(output, null, 2));
+  }
+  
+  get(id: string): MarketPair | undefined {
+    return this.pairs.get(id);
+  }
+  
+  /**
+   * List pairs, optionally filtered by status and/or category
+   */
+  list(filter?: { status?: MarketPairStatus; category?: MarketPair['category'] }): MarketPair[] {
+    return [...this.pairs.values()].filter(p =>
+      (!filter?.status || p.status === filter.status) &&
+      (!filter?.category || p.category === filter.category)
+    );
+  }
+  
+  /**
+   * Add a new pair. Throws if the ID is already registered.
+   */
+  add(pair: Omit<MarketPair, 'status' | 'created_at' | 'updated_at'> & { status?: MarketPairStatus }): MarketPair {
+    if (this.pairs.has(pair.id)) {
+      throw new Error(`Market pair already registered: ${pair.id}`);
+    }
+    
+    const now = new Date().toISOString();
+    const entry = marketPairSchema.parse({
+      ...pair,
+      status: pair.status ?? 'active',
+      created_at: now,
+      updated_at: now,
+    });
+    
+    this.pairs.set(entry.id, entry);
+    if (this.autoSave) this.save();
+    return entry;
+  }
+  
+  /**
+   * Update fields on an existing pair
+   */
+  update(id: string, changes: Partial<Omit<MarketPair, 'id' | 'created_at' | 'updated_at'>>): MarketPair {
+    const existing = this.pairs.get(id);
+    if (!existing) {
+      throw new Error(`Market pair not found: ${id}`);
+    }
+    
+    const entry = marketPairSchema.parse({
+      ...existing,
+      ...changes,
+      updated_at: new Date().toISOString(),
+    });
+    
+    this.pairs.set(id, entry);
+    if (this.autoSave) this.save();
+    return entry;
+  }
+  
+  /**
+   * Mark a pair as retired (kept for history, skipped by scans)
+   */
+  retire(id: string, notes?: string): MarketPair {
+    return this.update(id, notes !== undefined ? { status: 'retired', notes } : { status: 'retired' });
+  }
+  
+  /**
+   * Delete a pair entirely. Returns false if it did not exist.
+   */
+  remove(id: string): boolean {
+    const removed = this.pairs.delete(id);
+    if (removed && this.autoSave) this.save();
+    return removed;
+  }
+  
+  /**
+   * Import pairs found by semantic search. Existing pairs (matched on
+   * Kalshi ticker + Polymarket token) are left untouched.
+   * Returns the newly added pairs.
+   */
+  importDiscovered(
+    discovered: DiscoveredMarketPair[],
+    category: MarketPair['category'] = 'other'
+  ): MarketPair[] {
+    const known = new Set(
+      [...this.pairs.values()].map(p => `${p.kalshi_ticker}|${p.polymarket_token_id}`)
+    );
+    const now = new Date().toISOString();
+    const added: MarketPair[] = [];
+    
+    for (const d of discovered) {
+      if (known.has(`${d.kalshi_id}|${d.polymarket_id}`) || this.pairs.has(d.kalshi_id)) continue;
+      
+      const entry: MarketPair = {
+        id: d.kalshi_id,
+        name: d.question,
+        kalshi_ticker: d.kalshi_id,
+        polymarket_token_id: d.polymarket_id,
+        category,
+        match_confidence: Math.max(0, Math.min(1, d.similarity)),
+        notes: 'Imported from semantic search',
+        status: 'active',
+        created_at: now,
+        updated_at: now,
+      };
+      
+      this.pairs.set(entry.id, entry);
+      added.push(entry);
+    }
+    
+    if (added.length > 0 && this.autoSave) this.save();
+    return added;
+  }
+}
+
+// Singleton instance
+let registryInstance: MarketPairRegistry | null = null;
+
+export function getMarketPairRegistry(config?: { filePath?: string; autoSave?: boolean }): MarketPairRegistry {
+  if (!registryInstance) {
+    registryInstance = new MarketPairRegistry(config);
+  }
+  return registryInstance;
+}
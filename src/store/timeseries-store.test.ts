@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TimeSeriesStore, inferVenue, type SeriesKey, type StoredPricePoint } from './timeseries-store';
+
+const HOUR = 3600000;
+const T0 = Date.UTC(2025, 0, 1);
+const KEY: SeriesKey<'prices'> = { kind: 'prices', venue: 'POLYMARKET', market_id: '1000000000000000001', interval: '1h' };
+
+let dir: string;
+let store: TimeSeriesStore;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timeseries-store-'));
+  store = new TimeSeriesStore({ rootDir: dir, offline: false });
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Hourly points in [start, end], optionally only the first `limit`
+ */
+function hourly(start: number, end: number, limit = Infinity): StoredPricePoint[] {
+  const points: StoredPricePoint[] = [];
+  for (let ts = Math.ceil(start / HOUR) * HOUR; ts <= end && points.length < limit; ts += HOUR) {
+    points.push({ t: ts / 1000, p: 0.5 });
+  }
+  return points;
+}
+
+describe('append / query', () => {
+  it('skips timestamps already stored and returns records oldest first', () => {
+    expect(store.append(KEY, [{ t: T0 / 1000 + 7200, p: 0.5 }, { t: T0 / 1000, p: 0.4 }])).toBe(2);
+    expect(store.append(KEY, [{ t: T0 / 1000, p: 0.9 }, { t: T0 / 1000 + 3600, p: 0.6 }])).toBe(1);
+
+    expect(store.query(KEY).map(r => r.p)).toEqual([0.4, 0.6, 0.5]);
+    expect(store.query(KEY, { start: T0 + HOUR, end: T0 + HOUR }).map(r => r.p)).toEqual([0.6]);
+  });
+
+  it('reads records and coverage back from disk', () => {
+    store.append(KEY, hourly(T0, T0 + 3 * HOUR));
+    store.markCovered(KEY, { start: T0, end: T0 + 3 * HOUR });
+
+    const reopened = new TimeSeriesStore({ rootDir: dir });
+    expect(reopened.query(KEY)).toHaveLength(4);
+    expect(reopened.getCoverage(KEY)).toEqual([{ start: T0, end: T0 + 3 * HOUR }]);
+  });
+});
+
+describe('coverage', () => {
+  it('merges overlapping and touching ranges, keeping disjoint ones apart', () => {
+    store.markCovered(KEY, { start: T0 + 4 * HOUR, end: T0 + 6 * HOUR });
+    store.markCovered(KEY, { start: T0, end: T0 + 2 * HOUR });
+    store.markCovered(KEY, { start: T0 + HOUR, end: T0 + 3 * HOUR });
+    store.markCovered(KEY, { start: T0 + 6 * HOUR, end: T0 + 7 * HOUR });
+    store.markCovered(KEY, { start: T0 + 9 * HOUR, end: T0 + 9 * HOUR });
+
+    expect(store.getCoverage(KEY)).toEqual([
+      { start: T0, end: T0 + 3 * HOUR },
+      { start: T0 + 4 * HOUR, end: T0 + 7 * HOUR },
+    ]);
+  });
+
+  it('lists the gaps of a range between covered ranges', () => {
+    store.markCovered(KEY, { start: T0 + 2 * HOUR, end: T0 + 4 * HOUR });
+    store.markCovered(KEY, { start: T0 + 6 * HOUR, end: T0 + 8 * HOUR });
+
+    expect(store.missingRanges(KEY, { start: T0, end: T0 + 10 * HOUR })).toEqual([
+      { start: T0, end: T0 + 2 * HOUR },
+      { start: T0 + 4 * HOUR, end: T0 + 6 * HOUR },
+      { start: T0 + 8 * HOUR, end: T0 + 10 * HOUR },
+    ]);
+    expect(store.missingRanges(KEY, { start: T0 + 3 * HOUR, end: T0 + 7 * HOUR })).toEqual([
+      { start: T0 + 4 * HOUR, end: T0 + 6 * HOUR },
+    ]);
+    expect(store.missingRanges(KEY, { start: T0 + 2 * HOUR, end: T0 + 4 * HOUR })).toEqual([]);
+  });
+});
+
+describe('backfill', () => {
+  it('fetches only the gaps and serves the whole range from disk', async () => {
+    store.append(KEY, hourly(T0 + 2 * HOUR, T0 + 4 * HOUR));
+    store.markCovered(KEY, { start: T0 + 2 * HOUR, end: T0 + 4 * HOUR });
+    const fetcher = vi.fn(async (start: Date, end: Date) => hourly(start.getTime(), end.getTime()));
+
+    const records = await store.backfill(KEY, { start: T0, end: T0 + 6 * HOUR }, fetcher);
+
+    expect(fetcher.mock.calls.map(([s, e]) => [s.getTime(), e.getTime()])).toEqual([
+      [T0, T0 + 2 * HOUR],
+      [T0 + 4 * HOUR, T0 + 6 * HOUR],
+    ]);
+    expect(records).toHaveLength(7);
+    expect(store.missingRanges(KEY, { start: T0, end: T0 + 6 * HOUR })).toEqual([]);
+  });
+
+  it('pages through a gap when a response is cut at the page limit', async () => {
+    const fetcher = vi.fn(async (start: Date, end: Date) => hourly(start.getTime(), end.getTime(), 4));
+
+    const records = await store.backfill(KEY, { start: T0, end: T0 + 9 * HOUR }, fetcher, { page_limit: 4 });
+
+    expect(fetcher.mock.calls.map(([s]) => (s.getTime() - T0) / HOUR)).toEqual([0, 3, 6]);
+    expect(records).toHaveLength(10);
+    expect(store.getCoverage(KEY)).toEqual([{ start: T0, end: T0 + 9 * HOUR }]);
+  });
+
+  it('only covers up to the last record of a cut response when the next page fails', async () => {
+    const fetcher = vi.fn(async (start: Date, end: Date) => {
+      if (start.getTime() > T0) throw new Error('503');
+      return hourly(start.getTime(), end.getTime(), 4);
+    });
+
+    await expect(store.backfill(KEY, { start: T0, end: T0 + 9 * HOUR }, fetcher, { page_limit: 4 })).rejects.toThrow('503');
+
+    expect(store.getCoverage(KEY)).toEqual([{ start: T0, end: T0 + 3 * HOUR }]);
+    expect(store.missingRanges(KEY, { start: T0, end: T0 + 9 * HOUR })).toEqual([{ start: T0 + 3 * HOUR, end: T0 + 9 * HOUR }]);
+  });
+
+  it('covers a short response to the end of the gap, even when empty', async () => {
+    await store.backfill(KEY, { start: T0, end: T0 + 9 * HOUR }, async () => [], { page_limit: 4 });
+    expect(store.getCoverage(KEY)).toEqual([{ start: T0, end: T0 + 9 * HOUR }]);
+  });
+
+  it('never calls the fetcher offline', async () => {
+    const offline = new TimeSeriesStore({ rootDir: dir, offline: true });
+    const fetcher = vi.fn(async () => hourly(T0, T0 + HOUR));
+
+    expect(await offline.backfill(KEY, { start: T0, end: T0 + HOUR }, fetcher)).toEqual([]);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+});
+
+describe('inferVenue', () => {
+  it('tells Polymarket token and condition IDs from Kalshi tickers', () => {
+    expect(inferVenue('1000000000000000001')).toBe('POLYMARKET');
+    expect(inferVenue('0xabc123')).toBe('POLYMARKET');
+    expect(inferVenue('KXBTC-100K')).toBe('KALSHI');
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Local Time-Series Store
+ * 
+ * Append-only on-disk store for orderbook snapshots, Kalshi candles (one
+ * series per endpoint) and Polymarket price points, keyed by venue, market and timestamp. Each
+ * series also records which time ranges have already been fetched, so
+ * backfills only hit the API for the gaps and analysis, predict mode and
+ * backtests can run offline against the same data.
+ * 
+ * Layout (one NDJSON file per series, plus its fetched-range index):
+ *   <root>/<kind>/<venue>/<market>@<interval>.ndjson
+ *   <root>/<kind>/<venue>/<market>@<interval>.coverage.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { OrderbookSnapshot, Venue } from '../types';
+
+const DEFAULT_STORE_DIR = process.env.ARB_OPPITY_DATA_DIR
+  || path.join(process.cwd(), 'data', 'timeseries');
+
+/**
+ * History endpoints cap how many records one response holds; a response
+ * this long is assumed cut short and the rest of the gap is re-requested
+ */
+export const DEFAULT_PAGE_LIMIT = 1000;
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Candle from the per-market Kalshi candlesticks endpoint (OHLCV)
+ */
+export interface StoredCandle {
+  timestamp: string;
+}
+
+/**
+ * Candle from the Kalshi batch candlesticks endpoint (bid/ask OHLC)
+ */
+export interface StoredBatchCandle {
+  end_period_ts: number;  // unix seconds
+}
+
+/**
+ * Polymarket prices-history point
+ */
+export interface StoredPricePoint {
+  t: number;  // unix seconds
+  p: number;  // price (0-1)
+}
+
+export interface SeriesRecords {
+  orderbook: OrderbookSnapshot;
+  candles: StoredCandle;
+  batch_candles: StoredBatchCandle;
+  prices: StoredPricePoint;
+}
+
+export type SeriesKind = keyof SeriesRecords;
+
+export interface SeriesKey<K extends SeriesKind = SeriesKind> {
+  kind: K;
+  venue: Venue;
+  market_id: string;
+  interval: string;
+}
+
+/**
+ * Inclusive time range in unix milliseconds
+ */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const TIMESTAMP_OF: { [K in SeriesKind]: (record: SeriesRecords[K]) => number } = {
+  orderbook: r => Date.parse(r.timestamp),
+  candles: r => Date.parse(r.timestamp),
+  batch_candles: r => r.end_period_ts * 1000,
+  prices: r => r.t * 1000,
+};
+
+interface LoadedSeries<T> {
+  dataFile: string;
+  coverageFile: string;
+  records: { ts: number; record: T }[];   // Sorted by ts
+  timestamps: Set<number>;
+  coverage: TimeRange[];                  // Sorted, non-overlapping
+}
+
+// ═══════════════════════════════════════════════════════════════
+// STORE
+// ═══════════════════════════════════════════════════════════════
+
+export class TimeSeriesStore {
+  private rootDir: string;
+  private offline: boolean;
+  private series = new Map<string, LoadedSeries<unknown>>();
+  
+  constructor(config?: { rootDir?: string; offline?: boolean }) {
+    this.rootDir = config?.rootDir || DEFAULT_STORE_DIR;
+    this.offline = config?.offline ?? process.env.ARB_OPPITY_OFFLINE === '1';
+  }
+  
+  /**
+   * Offline stores never call fetchers - backfill returns what's on disk
+   */
+  get isOffline(): boolean {
+    return this.offline;
+  }
+  
+  /**
+   * Records in [range.start, range.end], oldest first. Omitted bounds are open.
+   */
+  query<K extends SeriesKind>(key: SeriesKey<K>, range: Partial<TimeRange> = {}): SeriesRecords[K][] {
+    const { records } = this.load(key);
+    const start = range.start ?? -Infinity;
+    const end = range.end ?? Infinity;
+    
+    const from = lowerBound(records, start);
+    const result: SeriesRecords[K][] = [];
+    for (let i = from; i < records.length && records[i]!.ts <= end; i++) {
+      result.push(records[i]!.record);
+    }
+    return result;
+  }
+  
+  /**
+   * Append records, skipping timestamps already stored. Returns the
+   * number of new records written.
+   */
+  append<K extends SeriesKind>(key: SeriesKey<K>, records: SeriesRecords[K][]): number {
+    const series = this.load(key);
+    const timestampOf = TIMESTAMP_OF[key.kind];
+    
+    const fresh: { ts: number; record: SeriesRecords[K] }[] = [];
+    for (const record of records) {
+      const ts = timestampOf(record);
+      if (Number.isNaN(ts) || series.timestamps.has(ts)) continue;
+      series.timestamps.add(ts);
+      fresh.push({ ts, record });
+    }
+    if (fresh.length === 0) return 0;
+    
+    fs.mkdirSync(path.dirname(series.dataFile), { recursive: true });
+    fs.appendFileSync(series.dataFile, fresh.map(f => JSON.stringify(f.record)).join('\n') + '\n', 'utf-8');
+    
+    series.records.push(...fresh);
+    series.records.sort((a, b) => a.ts - b.ts);
+    return fresh.length;
+  }
+  
+  /**
+   * Ranges already fetched for a series
+   */
+  getCoverage(key: SeriesKey): TimeRange[] {
+    return this.load(key).coverage.map(c => ({ ...c }));
+  }
+  
+  /**
+   * Sub-ranges of [range.start, range.end] not yet fetched
+   */
+  missingRanges(key: SeriesKey, range: TimeRange): TimeRange[] {
+    const gaps: TimeRange[] = [];
+    let cursor = range.start;
+    
+    for (const c of this.load(key).coverage) {
+      if (c.end < cursor) continue;
+      if (c.start > range.end) break;
+      if (c.start > cursor) gaps.push({ start: cursor, end: c.start });
+      cursor = Math.max(cursor, c.end);
+    }
+    if (cursor < range.end) gaps.push({ start: cursor, end: range.end });
+    
+    return gaps;
+  }
+  
+  /**
+   * Record that a range has been fetched (even if it held no data)
+   */
+  markCovered(key: SeriesKey, range: TimeRange): void {
+    if (range.end <= range.start) return;
+    const series = this.load(key);
+    series.coverage = mergeRanges([...series.coverage, range]);
+    
+    fs.mkdirSync(path.dirname(series.coverageFile), { recursive: true });
+    fs.writeFileSync(series.coverageFile, JSON.stringify(series.coverage, null, 2), 'utf-8');
+  }
+  
+  /**
+   * Fetch only the parts of a range not already stored, then return the
+   * whole range from disk.
+   *
+   * Coverage is capped at "now" so a later call picks up data that
+   * arrives after this one. A response of `page_limit` or more records
+   * (oldest first) only covers up to its last record, and the rest of
+   * the gap is fetched from there. A fetcher error leaves the remaining
+   * gap uncovered.
+   */
+  async backfill<K extends SeriesKind>(
+    key: SeriesKey<K>,
+    range: TimeRange,
+    fetcher: (start: Date, end: Date) => Promise<SeriesRecords[K][]>,
+    options: { page_limit?: number } = {}
+  ): Promise<SeriesRecords[K][]> {
+    const pageLimit = options.page_limit ?? DEFAULT_PAGE_LIMIT;
+    const timestampOf = TIMESTAMP_OF[key.kind];
+    
+    if (!this.offline) {
+      for (const gap of this.missingRanges(key, range)) {
+        let cursor = gap.start;
+        for (;;) {
+          const records = await fetcher(new Date(cursor), new Date(gap.end));
+          this.append(key, records);
+          
+          const last = records.reduce((max, r) => {
+            const ts = timestampOf(r);
+            return Number.isNaN(ts) ? max : Math.max(max, ts);
+          }, -Infinity);
+          const truncated = records.length >= pageLimit && last > cursor && last < gap.end;
+          if (!truncated) {
+            this.markCovered(key, { start: cursor, end: Math.min(gap.end, Date.now()) });
+            break;
+          }
+          this.markCovered(key, { start: cursor, end: last });
+          cursor = last;
+        }
+      }
+    }
+    
+    return this.query(key, range);
+  }
+  
+  /**
+   * Drop cached series so the next access re-reads disk
+   */
+  clearCache(): void {
+    this.series.clear();
+  }
+  
+  // ═══════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════
+  
+  private load<K extends SeriesKind>(key: SeriesKey<K>): LoadedSeries<SeriesRecords[K]> {
+    const base = path.join(this.rootDir, key.kind, key.venue, `${safeFileName(key.market_id)}@${safeFileName(key.interval)}`);
+    const cached = this.series.get(base);
+    if (cached) return cached as LoadedSeries<SeriesRecords[K]>;
+    
+    const series: LoadedSeries<SeriesRecords[K]> = {
+      dataFile: `${base}.ndjson`,
+      coverageFile: `${base}.coverage.json`,
+      records: [],
+      timestamps: new Set(),
+      coverage: [],
+    };
+    
+    if (fs.existsSync(series.dataFile)) {
+      const timestampOf = TIMESTAMP_OF[key.kind];
+      for (const line of fs.readFileSync(series.dataFile, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        let record: SeriesRecords[K];
+        try {
+          record = JSON.parse(line);
+        } catch {
+          continue;  // Torn write from an interrupted append
+        }
+        const ts = timestampOf(record);
+        if (Number.isNaN(ts) || series.timestamps.has(ts)) continue;
+        series.timestamps.add(ts);
+        series.records.push({ ts, record });
+      }
+      series.records.sort((a, b) => a.ts - b.ts);
+    }
+    
+    if (fs.existsSync(series.coverageFile)) {
+      series.coverage = mergeRanges(JSON.parse(fs.readFileSync(series.coverageFile, 'utf-8')));
+    }
+    
+    this.series.set(base, series as LoadedSeries<unknown>);
+    return series;
+  }
+}
+
+/**
+ * Venue of a Replay Labs symbol: Polymarket token IDs are long decimal
+ * strings (or 0x condition IDs), Kalshi tickers are not
+ */
+export function inferVenue(symbolId: string): Venue {
+  return /^(\d{16,}|0x[0-9a-fA-F]+)$/.test(symbolId) ? 'POLYMARKET' : 'KALSHI';
+}
+
+function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: TimeRange[] = [];
+  for (const r of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && r.start <= last.end) {
+      last.end = Math.max(last.end, r.end);
+    } else {
+      merged.push({ ...r });
+    }
+  }
+  return merged;
+}
+
+function lowerBound(records: { ts: number }[], target: number): number {
+  let lo = 0;
+  let hi = records.length;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (records[mid]!.ts < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+// Singleton instance
+let store: TimeSeriesStore | null = null;
+
+export function getTimeSeriesStore(): TimeSeriesStore {
+  if (!store) {
+    store = new TimeSeriesStore();
+  }
+  return store;
+}
@@ -0,0 +1,57 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import { FixtureNotFoundError } from '../client/fixtures';
+import { ReplayLabsClient } from '../client/replay-labs';
+import { analyzeArb, analyzeArbInputSchema } from './analyze-arb';
+
+/**
+ * Replays responses recorded from the mock server (src/mock/server.ts,
+ * DEFAULT_MOCK_MARKETS). KXBTC-100K: Kalshi mid 0.45, Polymarket 0.42.
+ */
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '__fixtures__', 'replay-labs');
+const client = new ReplayLabsClient({ baseUrl: 'http://localhost', mode: 'replay', fixturesDir: FIXTURES_DIR });
+
+const input = analyzeArbInputSchema.parse({
+  kalshi_ticker: 'KXBTC-100K',
+  polymarket_token_id: '1000000000000000001',
+  size_usd: 100,
+});
+
+describe('analyzeArb (replay)', () => {
+  it('prices both venues from the recorded books', async () => {
+    const result = await analyzeArb(input, client);
+
+    expect(result.kalshi_price).toBeCloseTo(0.45, 6);
+    expect(result.polymarket_price).toBeCloseTo(0.42, 6);
+    expect(result.price_diff).toBeCloseTo(0.03, 6);
+    expect(result.buy_venue).toBe('POLYMARKET');
+    expect(result.sell_venue).toBe('KALSHI');
+    expect(result.buy_leg.venue).toBe('POLYMARKET');
+    expect(result.sell_leg.venue).toBe('KALSHI');
+  });
+
+  it('walks the recorded ladders: lift the Polymarket ask, hit the Kalshi bid', async () => {
+    const result = await analyzeArb(input, client);
+
+    // $100 fits inside the top level of both books
+    expect(result.can_fill).toBe(true);
+    expect(result.buy_leg.vwap_price).toBeCloseTo(0.43, 6);
+    expect(result.sell_leg.vwap_price).toBeCloseTo(0.44, 6);
+    expect(result.buy_leg.levels_consumed).toBe(1);
+    expect(result.sell_leg.levels_consumed).toBe(1);
+    expect(result.gross_profit_usd).toBeCloseTo(result.contracts * 0.01, 6);
+    expect(result.total_fees_usd).toBeGreaterThan(0);
+  });
+
+  it('is deterministic across replays', async () => {
+    const { timestamp: _a, ...first } = await analyzeArb(input, client);
+    const { timestamp: _b, ...second } = await analyzeArb(input, client);
+    expect(second).toEqual(first);
+  });
+
+  it('fails loudly on a request that was never recorded', async () => {
+    const unknown = { ...input, kalshi_ticker: 'NOT-RECORDED' };
+    await expect(analyzeArb(unknown, client)).rejects.toBeInstanceOf(FixtureNotFoundError);
+  });
+});
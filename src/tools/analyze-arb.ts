@@ -7,6 +7,13 @@
 
 import { z } from 'zod';
 import { getOracle } from 'replay-fee-oracle';
+import { walkBook, type FillResult } from '../analysis/depth';
+import {
+  analyzeComplementArb,
+  complementStrategySchema,
+  type ComplementLegs,
+} from '../analysis/complement';
+import type { OrderbookSnapshot, Venue } from '../types';
 
 // ═══════════════════════════════════════════════════════════════
 // SCHEMAS
@@ -17,17 +24,56 @@ export const analyzeArbInputSchema = z.object({
   polymarket_token_id: z.string().describe('Polymarket CLOB token ID or condition ID'),
   size_usd: z.number().default(1000).describe('Trade size in USD (default $1000)'),
   min_net_profit_pct: z.number().default(0.5).describe('Minimum net profit % to consider profitable'),
+  
+  // Size optimization mode
+  optimize_size: z.boolean().default(false).describe('Search trade sizes and analyze at the size that maximizes net profit'),
+  max_size_usd: z.number().optional().describe('Upper bound for the size search (default: fillable depth, capped at $100k)'),
+});
+
+export const legExecutionSchema = z.object({
+  venue: z.enum(['KALSHI', 'POLYMARKET']),
+  side: z.enum(['BUY', 'SELL']),
+  mid_price: z.number().describe('Mid price before the trade'),
+  vwap_price: z.number().describe('Volume-weighted fill price walking the book'),
+  slippage_pct: z.number().describe('Fill price vs mid, % (positive = worse)'),
+  levels_consumed: z.number().describe('Number of price levels consumed'),
+  filled_contracts: z.number(),
+  filled_usd: z.number(),
+  fully_filled: z.boolean().describe('False if the book ran out (or has no ladder)'),
+});
+
+export const sizeCurvePointSchema = z.object({
+  size_usd: z.number(),
+  gross_profit_usd: z.number(),
+  total_fees_usd: z.number(),
+  net_profit_usd: z.number(),
+  net_profit_pct: z.number(),
+  can_fill: z.boolean(),
+});
+
+export const sizeOptimizationSchema = z.object({
+  optimal_size_usd: z.number().describe('Size that maximizes net profit USD'),
+  optimal_net_profit_usd: z.number(),
+  optimal_net_profit_pct: z.number(),
+  max_size_above_threshold_usd: z.number().nullable().describe('Largest size with net profit % >= min_net_profit_pct (null if none)'),
+  curve: z.array(sizeCurvePointSchema).describe('Net profit vs size, ascending by size'),
 });
 
 export const analyzeArbOutputSchema = z.object({
   // Prices
   kalshi_price: z.number().describe('Kalshi mid price (0-1)'),
   polymarket_price: z.number().describe('Polymarket mid price (0-1)'),
-  price_diff: z.number().describe('Absolute price difference'),
+  price_diff: z.number().describe('Absolute mid price difference'),
+  
+  // Execution (depth-aware)
+  buy_leg: legExecutionSchema,
+  sell_leg: legExecutionSchema,
+  contracts: z.number().describe('Matched contracts across both legs'),
+  can_fill: z.boolean().describe('True if both books can absorb size_usd'),
   
   // Spread
-  gross_spread_pct: z.number().describe('Gross spread as percentage'),
-  gross_profit_usd: z.number().describe('Gross profit before fees'),
+  gross_spread_pct: z.number().describe('Gross spread between executable (VWAP) prices, %'),
+  gross_profit_usd: z.number().describe('Gross profit before fees at executable prices'),
   
   // Fees (from replay-fee-oracle)
   kalshi_fee_usd: z.number().describe('Kalshi trading fee'),
@@ -44,10 +90,16 @@ export const analyzeArbOutputSchema = z.object({
   buy_venue: z.enum(['KALSHI', 'POLYMARKET']).describe('Which venue to buy on'),
   sell_venue: z.enum(['KALSHI', 'POLYMARKET']).describe('Which venue to sell on'),
   
+  // Complement strategy (buy YES on one venue + NO on the other)
+  strategy: complementStrategySchema,
+  
   // Decision
   action: z.enum(['EXECUTE', 'WAIT', 'SKIP']).describe('Recommended action'),
   reason: z.string().describe('Explanation of decision'),
   
+  // Size optimization (only when optimize_size = true)
+  size_optimization: sizeOptimizationSchema.optional(),
+  
   // Metadata
   timestamp: z.string(),
   size_usd: z.number(),
@@ -60,15 +112,11 @@ export type AnalyzeArbOutput = z.infer<typeof analyzeArbOutputSchema>;
 // TOOL IMPLEMENTATION
 // ═══════════════════════════════════════════════════════════════
 
+type BookSnapshot = Pick<OrderbookSnapshot, 'mid_price' | 'spread_bps' | 'bids' | 'asks'>;
+
 interface ReplayLabsClient {
-  getKalshiOrderbook(ticker: string): Promise<{
-    mid_price: number;
-    spread_bps: number;
-  }>;
-  getPolymarketBook(tokenId: string): Promise<{
-    mid_price: number;
-    spread_bps: number;
-  }>;
+  getKalshiOrderbook(ticker: string): Promise<BookSnapshot>;
+  getPolymarketBook(tokenId: string): Promise<BookSnapshot>;
 }
 
 /**
@@ -77,9 +125,28 @@ interface ReplayLabsClient {
 function determineAction(
   isProfitable: boolean,
   grossSpreadPct: number,
-  netProfitPct: number
+  netProfitPct: number,
+  canFill: boolean,
+  filledUsd: number,
+  complement: ComplementLegs
 ): { action: 'EXECUTE' | 'WAIT' | 'SKIP'; reason: string } {
   
+  // Locked profit without needing to sell - preferred when available
+  if (complement.is_profitable && complement.can_fill) {
+    return {
+      action: 'EXECUTE',
+      reason: `Complement arb: YES on ${complement.yes_venue} + NO on ${complement.no_venue} costs $${(complement.yes_price + complement.no_price).toFixed(3)} per $1 payout, ${complement.net_profit_pct.toFixed(2)}% net after fees`,
+    };
+  }
+  
+  // Book can't absorb the size - quoted profit isn't executable
+  if (isProfitable && !canFill) {
+    return {
+      action: 'WAIT',
+      reason: `Insufficient depth: books only fill $${filledUsd.toFixed(0)} - ${netProfitPct.toFixed(2)}% net on the fillable size. Reduce size or wait for depth.`,
+    };
+  }
+  
   // Very profitable - execute
   if (isProfitable && grossSpreadPct >= 3) {
     return {
@@ -118,6 +185,204 @@ function determineAction(
   };
 }
 
+/**
+ * Walk both books for a buy-low/sell-high trade of size_usd.
+ * 
+ * Buys size_usd on the cheap venue, then sells the same number of
+ * contracts on the expensive venue. If the sell side can't absorb
+ * them all, the buy is re-walked for the matched contract count.
+ */
+export function simulateFills(
+  buyBook: BookSnapshot,
+  sellBook: BookSnapshot,
+  sizeUsd: number
+): { buyFill: FillResult; sellFill: FillResult } {
+  let buyFill = walkBook(buyBook, 'BUY', { usd: sizeUsd });
+  const sellFill = walkBook(sellBook, 'SELL', { contracts: buyFill.filled_contracts });
+  
+  if (sellFill.filled_contracts < buyFill.filled_contracts) {
+    buyFill = {
+      ...walkBook(buyBook, 'BUY', { contracts: sellFill.filled_contracts }),
+      fully_filled: false,
+    };
+  }
+  
+  return { buyFill, sellFill };
+}
+
+function toLegExecution(
+  venue: Venue,
+  fill: FillResult
+): z.infer<typeof legExecutionSchema> {
+  return {
+    venue,
+    side: fill.side,
+    mid_price: fill.mid_price,
+    vwap_price: fill.vwap_price,
+    slippage_pct: fill.slippage_pct,
+    levels_consumed: fill.levels_consumed,
+    filled_contracts: fill.filled_contracts,
+    filled_usd: fill.filled_usd,
+    fully_filled: fill.fully_filled,
+  };
+}
+
+interface SizeEvaluation {
+  size_usd: number;
+  buy_fill: FillResult;
+  sell_fill: FillResult;
+  contracts: number;
+  can_fill: boolean;
+  gross_spread_pct: number;
+  gross_profit_usd: number;
+  kalshi_fee_usd: number;
+  polymarket_fee_usd: number;
+  total_fees_usd: number;
+  net_profit_usd: number;
+  net_profit_pct: number;
+  is_profitable: boolean;
+}
+
+/**
+ * Price a buy-low/sell-high trade of sizeUsd against both books and the fee oracle
+ */
+async function evaluateSize(
+  buyVenue: Venue,
+  buyBook: BookSnapshot,
+  sellBook: BookSnapshot,
+  sizeUsd: number,
+  minNetProfitPct: number
+): Promise<SizeEvaluation> {
+  // Walk both books
+  const { buyFill, sellFill } = simulateFills(buyBook, sellBook, sizeUsd);
+  const contracts = sellFill.filled_contracts;
+  
+  // Gross spread from executable prices
+  const buyPrice = buyFill.vwap_price;
+  const sellPrice = sellFill.vwap_price;
+  const grossSpreadPct = buyPrice > 0 ? ((sellPrice - buyPrice) / buyPrice) * 100 : 0;
+  const grossProfitUsd = contracts * (sellPrice - buyPrice);
+  
+  // Fee estimates from replay-fee-oracle
+  const oracle = getOracle();
+  const buyLegUsd = buyFill.filled_usd;
+  const sellLegUsd = sellFill.filled_usd;
+  const analysis = await oracle.analyzeArbitrage(
+    [
+      { venue: 'KALSHI', direction: buyVenue === 'KALSHI' ? 'BUY' : 'SELL', size_usd: buyVenue === 'KALSHI' ? buyLegUsd : sellLegUsd, price: buyVenue === 'KALSHI' ? buyPrice : sellPrice },
+      { venue: 'POLYMARKET', direction: buyVenue === 'POLYMARKET' ? 'BUY' : 'SELL', size_usd: buyVenue === 'POLYMARKET' ? buyLegUsd : sellLegUsd, price: buyVenue === 'POLYMARKET' ? buyPrice : sellPrice },
+    ],
+    grossProfitUsd,
+    minNetProfitPct
+  );
+  
+  return {
+    size_usd: sizeUsd,
+    buy_fill: buyFill,
+    sell_fill: sellFill,
+    contracts,
+    can_fill: buyFill.fully_filled && sellFill.fully_filled,
+    gross_spread_pct: grossSpreadPct,
+    gross_profit_usd: grossProfitUsd,
+    kalshi_fee_usd: analysis.leg_estimates.find(e => e.venue === 'KALSHI')?.total_fee_usd ?? 0,
+    polymarket_fee_usd: analysis.leg_estimates.find(e => e.venue === 'POLYMARKET')?.total_fee_usd ?? 0,
+    total_fees_usd: analysis.total_fees_usd,
+    net_profit_usd: analysis.net_profit_usd,
+    net_profit_pct: analysis.net_profit_pct,
+    is_profitable: analysis.is_profitable,
+  };
+}
+
+const MIN_SEARCH_SIZE_USD = 10;
+const MAX_SEARCH_SIZE_USD = 100_000;
+const COARSE_GRID_POINTS = 24;
+const REFINE_GRID_POINTS = 8;
+
+/**
+ * Search trade sizes for the one that maximizes net profit.
+ * 
+ * Coarse geometric grid from $10 to the upper bound, then a linear
+ * refinement between the neighbours of the best coarse point. Fixed
+ * costs (gas) penalize small sizes, depth penalizes large ones, so the
+ * curve is usually single-peaked.
+ */
+async function optimizeSize(
+  buyVenue: Venue,
+  buyBook: BookSnapshot,
+  sellBook: BookSnapshot,
+  minNetProfitPct: number,
+  maxSizeUsd?: number
+): Promise<{ best: SizeEvaluation; optimization: z.infer<typeof sizeOptimizationSchema> }> {
+  const fillableUsd = (buyBook.asks ?? []).reduce((sum, l) => sum + l.price * l.size, 0);
+  const upper = Math.max(
+    MIN_SEARCH_SIZE_USD,
+    maxSizeUsd ?? (fillableUsd > 0 ? Math.min(fillableUsd, MAX_SEARCH_SIZE_USD) : MAX_SEARCH_SIZE_USD)
+  );
+  
+  const coarseSizes = geometricGrid(MIN_SEARCH_SIZE_USD, upper, COARSE_GRID_POINTS);
+  const evaluations: SizeEvaluation[] = [];
+  for (const size of coarseSizes) {
+    evaluations.push(await evaluateSize(buyVenue, buyBook, sellBook, size, minNetProfitPct));
+  }
+  
+  // Refine around the best coarse point
+  const bestIdx = argmaxNetProfit(evaluations);
+  const lo = coarseSizes[Math.max(0, bestIdx - 1)] ?? MIN_SEARCH_SIZE_USD;
+  const hi = coarseSizes[Math.min(coarseSizes.length - 1, bestIdx + 1)] ?? upper;
+  for (let i = 1; i < REFINE_GRID_POINTS; i++) {
+    const size = lo + ((hi - lo) * i) / REFINE_GRID_POINTS;
+    evaluations.push(await evaluateSize(buyVenue, buyBook, sellBook, size, minNetProfitPct));
+  }
+  
+  evaluations.sort((a, b) => a.size_usd - b.size_usd);
+  const best = evaluations[argmaxNetProfit(evaluations)] ?? evaluations[0]!;
+  
+  const aboveThreshold = evaluations.filter(e => e.can_fill && e.net_profit_pct >= minNetProfitPct);
+  const maxAboveThreshold = aboveThreshold.length > 0
+    ? Math.max(...aboveThreshold.map(e => e.size_usd))
+    : null;
+  
+  return {
+    best,
+    optimization: {
+      optimal_size_usd: best.size_usd,
+      optimal_net_profit_usd: best.net_profit_usd,
+      optimal_net_profit_pct: best.net_profit_pct,
+      max_size_above_threshold_usd: maxAboveThreshold,
+      curve: evaluations.map(e => ({
+        size_usd: e.size_usd,
+        gross_profit_usd: e.gross_profit_usd,
+        total_fees_usd: e.total_fees_usd,
+        net_profit_usd: e.net_profit_usd,
+        net_profit_pct: e.net_profit_pct,
+        can_fill: e.can_fill,
+      })),
+    },
+  };
+}
+
+function geometricGrid(min: number, max: number, points: number): number[] {
+  if (max <= min) return [min];
+  const ratio = Math.pow(max / min, 1 / (points - 1));
+  return Array.from({ length: points }, (_, i) => min * Math.pow(ratio, i));
+}
+
+/**
+ * Index of the highest net profit among sizes the books can actually fill
+ */
+function argmaxNetProfit(evaluations: SizeEvaluation[]): number {
+  let bestIdx = 0;
+  let bestProfit = -Infinity;
+  evaluations.forEach((e, i) => {
+    const profit = e.can_fill ? e.net_profit_usd : -Infinity;
+    if (profit > bestProfit) {
+      bestProfit = profit;
+      bestIdx = i;
+    }
+  });
+  return bestIdx;
+}
+
 /**
  * Execute the analyze-arb tool
  */
@@ -125,7 +390,7 @@ export async function analyzeArb(
   input: AnalyzeArbInput,
   client: ReplayLabsClient
 ): Promise<AnalyzeArbOutput> {
-  const { kalshi_ticker, polymarket_token_id, size_usd, min_net_profit_pct } = input;
+  const { kalshi_ticker, polymarket_token_id } = input;
   
   // 1. Get prices from both venues
   const [kalshiBook, polyBook] = await Promise.all([
@@ -133,6 +398,24 @@ export async function analyzeArb(
     client.getPolymarketBook(polymarket_token_id),
   ]);
   
+  return analyzeArbBooks(kalshiBook, polyBook, input);
+}
+
+export type ArbAnalysisOptions = Pick<AnalyzeArbInput, 'size_usd' | 'min_net_profit_pct' | 'optimize_size' | 'max_size_usd'>;
+
+/**
+ * Run the full analysis against a pair of books already in hand.
+ * 
+ * Shared by the live tool and the backtester, so historical replays
+ * make exactly the decisions the agent would have made.
+ */
+export async function analyzeArbBooks(
+  kalshiBook: BookSnapshot,
+  polyBook: BookSnapshot,
+  options: ArbAnalysisOptions
+): Promise<AnalyzeArbOutput> {
+  const { size_usd, min_net_profit_pct, optimize_size, max_size_usd } = options;
+  
   const kalshiPrice = kalshiBook.mid_price;
   const polymarketPrice = polyBook.mid_price;
   const priceDiff = Math.abs(kalshiPrice - polymarketPrice);
@@ -140,59 +423,63 @@ export async function analyzeArb(
   // 2. Determine direction (buy low, sell high)
   const buyVenue = kalshiPrice < polymarketPrice ? 'KALSHI' : 'POLYMARKET';
   const sellVenue = kalshiPrice < polymarketPrice ? 'POLYMARKET' : 'KALSHI';
-  const buyPrice = Math.min(kalshiPrice, polymarketPrice);
-  const sellPrice = Math.max(kalshiPrice, polymarketPrice);
+  const buyBook = buyVenue === 'KALSHI' ? kalshiBook : polyBook;
+  const sellBook = sellVenue === 'KALSHI' ? kalshiBook : polyBook;
   
-  // 3. Calculate gross spread
-  const grossSpreadPct = (priceDiff / buyPrice) * 100;
-  const grossProfitUsd = size_usd * (grossSpreadPct / 100);
-  
-  // 4. Get fee estimates from replay-fee-oracle
-  const oracle = getOracle();
-  const analysis = await oracle.analyzeArbitrage(
-    [
-      { venue: 'KALSHI', direction: buyVenue === 'KALSHI' ? 'BUY' : 'SELL', size_usd, price: buyVenue === 'KALSHI' ? buyPrice : sellPrice },
-      { venue: 'POLYMARKET', direction: buyVenue === 'POLYMARKET' ? 'BUY' : 'SELL', size_usd, price: buyVenue === 'POLYMARKET' ? buyPrice : sellPrice },
-    ],
-    grossProfitUsd,
-    min_net_profit_pct
-  );
+  // 3. Walk both books and price fees - at size_usd, or at the optimal size
+  let evaluation: SizeEvaluation;
+  let sizeOptimization: z.infer<typeof sizeOptimizationSchema> | undefined;
+  if (optimize_size) {
+    const result = await optimizeSize(buyVenue, buyBook, sellBook, min_net_profit_pct, max_size_usd);
+    evaluation = result.best;
+    sizeOptimization = result.optimization;
+  } else {
+    evaluation = await evaluateSize(buyVenue, buyBook, sellBook, size_usd, min_net_profit_pct);
+  }
   
-  // 5. Extract individual fees
-  const kalshiFee = analysis.leg_estimates.find(e => e.venue === 'KALSHI')?.total_fee_usd ?? 0;
-  const polymarketFee = analysis.leg_estimates.find(e => e.venue === 'POLYMARKET')?.total_fee_usd ?? 0;
+  // 4. Price the YES/NO complement in both directions at the same size
+  const strategy = await analyzeComplementArb(kalshiBook, polyBook, evaluation.size_usd, min_net_profit_pct);
   
-  // 6. Calculate fee percentage
-  const feesAsPctOfGross = grossProfitUsd > 0 
-    ? (analysis.total_fees_usd / grossProfitUsd) * 100 
+  // 5. Calculate fee percentage
+  const feesAsPctOfGross = evaluation.gross_profit_usd > 0 
+    ? (evaluation.total_fees_usd / evaluation.gross_profit_usd) * 100 
     : 100;
   
-  // 7. Determine action
+  // 6. Determine action
   const { action, reason } = determineAction(
-    analysis.is_profitable,
-    grossSpreadPct,
-    analysis.net_profit_pct
+    evaluation.is_profitable,
+    evaluation.gross_spread_pct,
+    evaluation.net_profit_pct,
+    evaluation.can_fill,
+    evaluation.buy_fill.filled_usd,
+    strategy.best
   );
   
   return {
     kalshi_price: kalshiPrice,
     polymarket_price: polymarketPrice,
     price_diff: priceDiff,
-    gross_spread_pct: grossSpreadPct,
-    gross_profit_usd: grossProfitUsd,
-    kalshi_fee_usd: kalshiFee,
-    polymarket_fee_usd: polymarketFee,
-    total_fees_usd: analysis.total_fees_usd,
+    buy_leg: toLegExecution(buyVenue, evaluation.buy_fill),
+    sell_leg: toLegExecution(sellVenue, evaluation.sell_fill),
+    contracts: evaluation.contracts,
+    can_fill: evaluation.can_fill,
+    gross_spread_pct: evaluation.gross_spread_pct,
+    gross_profit_usd: evaluation.gross_profit_usd,
+    kalshi_fee_usd: evaluation.kalshi_fee_usd,
+    polymarket_fee_usd: evaluation.polymarket_fee_usd,
+    total_fees_usd: evaluation.total_fees_usd,
     fees_as_pct_of_gross: feesAsPctOfGross,
-    net_profit_usd: analysis.net_profit_usd,
-    net_profit_pct: analysis.net_profit_pct,
-    is_profitable: analysis.is_profitable,
+    net_profit_usd: evaluation.net_profit_usd,
+    net_profit_pct: evaluation.net_profit_pct,
+    is_profitable: evaluation.is_profitable,
     buy_venue: buyVenue,
     sell_venue: sellVenue,
+    strategy,
     action,
     reason,
+    size_optimization: sizeOptimization,
     timestamp: new Date().toISOString(),
-    size_usd,
+    size_usd: evaluation.size_usd,
   };
 }
 
@@ -204,16 +491,24 @@ export const analyzeArbTool = {
   id: 'analyze-cross-venue-arb',
   description: `Analyze cross-venue arbitrage opportunity between Kalshi and Polymarket.
 
-Compares prices on both venues, calculates fees using replay-fee-oracle,
-and determines if the arb is profitable.
+Compares prices on both venues, walks both order books for the requested
+size, calculates fees using replay-fee-oracle, and determines if the arb
+is profitable at executable (VWAP) prices.
 
 Returns:
 - Prices on both venues
+- Per-leg VWAP fill, slippage vs mid, levels consumed and fillability
 - Gross spread percentage
 - Fee breakdown (Kalshi formula-based, Polymarket 1bp + gas)
 - Net profit after fees
+- YES/NO complement strategy (buy YES on one venue + NO on the other)
+  in both directions: cost basis, guaranteed payout, locked profit
 - Action recommendation: EXECUTE, WAIT, or SKIP
 
+Set optimize_size to search sizes against both books and the fee curve;
+the analysis is then reported at the size that maximizes net profit,
+with the largest size above min_net_profit_pct and a profit-vs-size curve.
+
 Use AFTER checking liquidity regime to ensure timing is favorable.`,
   inputSchema: analyzeArbInputSchema,
   outputSchema: analyzeArbOutputSchema,
@@ -0,0 +1,149 @@
+/**
+ * Agent Tool: Check Liquidity Regime
+ * 
+ * Computes the liquidity_regime indicator for a market from its recent
+ * orderbook history and tells the agent whether now is a thin window.
+ */
+
+import { z } from 'zod';
+import {
+  computeLiquidityIndicator,
+  DEFAULT_LIQUIDITY_REGIME_PARAMS,
+} from '../indicators/liquidity-regime';
+import { getMarketPairRegistry } from '../registry/market-pairs';
+import { getTimezoneFor } from '../utils/time';
+import type { OrderbookSnapshot } from '../types';
+
+// ═══════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════
+
+export const checkLiquidityRegimeInputSchema = z.object({
+  market_id: z.string().describe('Kalshi ticker or Polymarket token ID'),
+  venue: z.enum(['KALSHI', 'POLYMARKET']),
+  lookback_hours: z.number().default(DEFAULT_LIQUIDITY_REGIME_PARAMS.lookback_hours).describe('Baseline window for z-scores (default 168h)'),
+  thin_threshold_zscore: z.number().default(DEFAULT_LIQUIDITY_REGIME_PARAMS.thin_threshold_zscore).describe('Spread z-score for thin (default 1.5)'),
+  very_thin_threshold_zscore: z.number().default(DEFAULT_LIQUIDITY_REGIME_PARAMS.very_thin_threshold_zscore).describe('Spread z-score for very_thin (default 2.5)'),
+});
+
+export const liquidityIndicatorSchema = z.object({
+  timestamp: z.string(),
+  market_id: z.string(),
+  regime: z.enum(['thick', 'normal', 'thin', 'very_thin']),
+  spread_bps: z.number(),
+  spread_zscore: z.number().describe('Current spread vs lookback baseline'),
+  volume_zscore: z.number().describe('Current book depth vs baseline (negative = thinner)'),
+  factors: z.object({
+    hour_factor: z.number().describe('0-1, higher = this hour is usually thinner'),
+    dow_factor: z.number().describe('0-1, higher = this day is usually thinner'),
+    depth_factor: z.number().describe('0-1, higher = thinner book than usual'),
+  }),
+  confidence: z.enum(['high', 'medium', 'low']),
+});
+
+export const checkLiquidityRegimeOutputSchema = liquidityIndicatorSchema.extend({
+  venue: z.enum(['KALSHI', 'POLYMARKET']),
+  sample_count: z.number().describe('Snapshots in the baseline'),
+  is_favorable: z.boolean().describe('True if regime is thin/very_thin'),
+  recommendation: z.string(),
+});
+
+export type CheckLiquidityRegimeInput = z.infer<typeof checkLiquidityRegimeInputSchema>;
+export type CheckLiquidityRegimeOutput = z.infer<typeof checkLiquidityRegimeOutputSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL IMPLEMENTATION
+// ═══════════════════════════════════════════════════════════════
+
+interface ReplayLabsClient {
+  getKalshiOrderbook(ticker: string): Promise<OrderbookSnapshot>;
+  getPolymarketBook(tokenId: string): Promise<OrderbookSnapshot>;
+  getOrderbookHistory(
+    symbolId: string,
+    params?: { start?: string; end?: string; interval?: string }
+  ): Promise<OrderbookSnapshot[]>;
+}
+
+/**
+ * Execute the check-liquidity-regime tool
+ */
+export async function checkLiquidityRegime(
+  input: CheckLiquidityRegimeInput,
+  client: ReplayLabsClient
+): Promise<CheckLiquidityRegimeOutput> {
+  const { market_id, venue, lookback_hours, thin_threshold_zscore, very_thin_threshold_zscore } = input;
+  
+  const end = new Date();
+  const start = new Date(end.getTime() - lookback_hours * 60 * 60 * 1000);
+  
+  const [current, history] = await Promise.all([
+    venue === 'KALSHI' ? client.getKalshiOrderbook(market_id) : client.getPolymarketBook(market_id),
+    client.getOrderbookHistory(market_id, {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      interval: '1h',
+    }),
+  ]);
+  
+  // Hour/day factors use the zone of the pair this leg belongs to
+  const pair = getMarketPairRegistry().list().find(p =>
+    venue === 'KALSHI' ? p.kalshi_ticker === market_id : p.polymarket_token_id === market_id
+  );
+  
+  // The live book is scored against history only, never part of its own baseline
+  const indicator = computeLiquidityIndicator(market_id, history, current, {
+    lookback_hours,
+    thin_threshold_zscore,
+    very_thin_threshold_zscore,
+    timezone: getTimezoneFor(pair?.id ?? market_id, pair?.category),
+  });
+  
+  const isFavorable = indicator.regime === 'thin' || indicator.regime === 'very_thin';
+  
+  let recommendation: string;
+  if (indicator.regime === 'very_thin') {
+    recommendation = `Very thin liquidity: spread ${indicator.spread_zscore.toFixed(1)}σ above normal. Check analyze-cross-venue-arb now.`;
+  } else if (indicator.regime === 'thin') {
+    recommendation = `Thin liquidity: spread ${indicator.spread_zscore.toFixed(1)}σ above normal. Good time to look for arb.`;
+  } else if (indicator.regime === 'thick') {
+    recommendation = 'Deep liquidity - spreads are tight. Wait for a thin window.';
+  } else {
+    recommendation = 'Normal liquidity - wait for better entry.';
+  }
+  
+  if (indicator.confidence === 'low') {
+    recommendation += ` (Low confidence: only ${history.length} historical snapshots.)`;
+  }
+  
+  return {
+    ...indicator,
+    venue,
+    sample_count: history.length,
+    is_favorable: isFavorable,
+    recommendation,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL DEFINITION
+// ═══════════════════════════════════════════════════════════════
+
+export const checkLiquidityRegimeTool = {
+  id: 'check-liquidity-regime',
+  description: `Check the current liquidity regime for a prediction market.
+
+Compares the current spread and book depth to the market's recent history
+(default 7 days) and classifies it as thick / normal / thin / very_thin
+using spread z-score thresholds (thin >= 1.5σ, very_thin >= 2.5σ).
+
+Returns:
+- Regime, spread z-score, depth z-score
+- Hour-of-day, day-of-week and depth factors (0-1, higher = thinner)
+- Confidence from sample size
+- is_favorable (thin/very_thin) and a recommendation
+
+Use BEFORE analyze-cross-venue-arb to time entries.`,
+  inputSchema: checkLiquidityRegimeInputSchema,
+  outputSchema: checkLiquidityRegimeOutputSchema,
+  execute: checkLiquidityRegime,
+};
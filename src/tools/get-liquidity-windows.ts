@@ -0,0 +1,139 @@
+/**
+ * Agent Tool: Get Liquidity Windows
+ * 
+ * Returns historical thin-liquidity windows for a market between two
+ * timestamps, each with its trigger and fee-adjusted opportunity count.
+ */
+
+import { z } from 'zod';
+import {
+  annotateLiquidityWindows,
+  DEFAULT_LIQUIDITY_WINDOW_PARAMS,
+} from '../annotations/liquidity-window';
+import { getMarketPairRegistry } from '../registry/market-pairs';
+import { getTimezoneFor } from '../utils/time';
+import { getMarketCalendar } from '../calendar';
+import type { OrderbookSnapshot } from '../types';
+
+// ═══════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════
+
+export const getLiquidityWindowsInputSchema = z.object({
+  market_id: z.string().describe('Registered pair ID or Kalshi ticker'),
+  polymarket_token_id: z.string().optional().describe('Polymarket token (defaults to the registered pair\'s token)'),
+  from: z.string().describe('ISO timestamp'),
+  to: z.string().describe('ISO timestamp'),
+  interval: z.string().default('15m').describe('Snapshot interval (default 15m)'),
+  min_duration_minutes: z.number().default(DEFAULT_LIQUIDITY_WINDOW_PARAMS.min_duration_minutes).describe('Minimum window length (default 30m)'),
+  regime_threshold: z.enum(['thin', 'very_thin']).default('thin'),
+  size_usd: z.number().default(DEFAULT_LIQUIDITY_WINDOW_PARAMS.size_usd).describe('Trade size for opportunity fee analysis'),
+});
+
+export const liquidityWindowSchema = z.object({
+  market_id: z.string(),
+  start_time: z.string(),
+  end_time: z.string(),
+  regime: z.enum(['thick', 'normal', 'thin', 'very_thin']),
+  avg_spread_bps: z.number(),
+  trigger: z.enum(['late_night', 'weekend', 'holiday', 'low_volume', 'event_specific', 'unexplained']),
+  opportunities_detected: z.number(),
+  opportunities_profitable: z.number().describe('Detected opportunities still profitable after fees'),
+  avg_net_profit_pct: z.number(),
+});
+
+export const getLiquidityWindowsOutputSchema = z.object({
+  market_id: z.string(),
+  from: z.string(),
+  to: z.string(),
+  windows: z.array(liquidityWindowSchema),
+  summary: z.string(),
+});
+
+export type GetLiquidityWindowsInput = z.infer<typeof getLiquidityWindowsInputSchema>;
+export type GetLiquidityWindowsOutput = z.infer<typeof getLiquidityWindowsOutputSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL IMPLEMENTATION
+// ═══════════════════════════════════════════════════════════════
+
+interface ReplayLabsClient {
+  getOrderbookHistory(
+    symbolId: string,
+    params?: { start?: string; end?: string; interval?: string }
+  ): Promise<OrderbookSnapshot[]>;
+}
+
+/**
+ * Execute the get-liquidity-windows tool
+ */
+export async function getLiquidityWindows(
+  input: GetLiquidityWindowsInput,
+  client: ReplayLabsClient
+): Promise<GetLiquidityWindowsOutput> {
+  const { market_id, from, to, interval, min_duration_minutes, regime_threshold, size_usd } = input;
+  
+  const pair = getMarketPairRegistry().get(market_id);
+  const kalshiTicker = pair?.kalshi_ticker ?? market_id;
+  const polymarketTokenId = input.polymarket_token_id ?? pair?.polymarket_token_id;
+  
+  // Kalshi history reaches a lookback further back so the first windows
+  // have a full baseline; Polymarket only needs to align from `from`
+  const fromMs = Date.parse(from);
+  const lookbackMs = DEFAULT_LIQUIDITY_WINDOW_PARAMS.lookback_hours * 60 * 60 * 1000;
+  const alignmentMs = DEFAULT_LIQUIDITY_WINDOW_PARAMS.max_alignment_minutes * 60 * 1000;
+  
+  const [kalshiSnapshots, polySnapshots] = await Promise.all([
+    client.getOrderbookHistory(kalshiTicker, { start: new Date(fromMs - lookbackMs).toISOString(), end: to, interval }),
+    polymarketTokenId
+      ? client.getOrderbookHistory(polymarketTokenId, { start: new Date(fromMs - alignmentMs).toISOString(), end: to, interval })
+      : Promise.resolve([]),
+  ]);
+  
+  // Windows are clipped to start at `from`
+  const windows = await annotateLiquidityWindows(market_id, kalshiSnapshots, polySnapshots, {
+    min_duration_minutes,
+    regime_threshold,
+    size_usd,
+    timezone: getTimezoneFor(market_id, pair?.category),
+    from,
+  }, { calendar: getMarketCalendar(), category: pair?.category });
+  
+  const profitable = windows.reduce((sum, w) => sum + w.opportunities_profitable, 0);
+  const summary = windows.length > 0
+    ? `Found ${windows.length} ${regime_threshold}+ windows with ${profitable} fee-adjusted profitable opportunities`
+    : `No ${regime_threshold} windows longer than ${min_duration_minutes}m between ${from} and ${to}`;
+  
+  return {
+    market_id,
+    from,
+    to,
+    windows,
+    summary: polymarketTokenId ? summary : `${summary} (no Polymarket token - opportunities not counted)`,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL DEFINITION
+// ═══════════════════════════════════════════════════════════════
+
+export const getLiquidityWindowsTool = {
+  id: 'get-liquidity-windows',
+  description: `Get historical thin liquidity windows for a market.
+
+Replays the liquidity_regime indicator over the market's orderbook history
+and returns contiguous thin / very_thin periods between two timestamps.
+
+Each window includes:
+- Start/end, regime and average spread
+- Trigger: late_night, weekend, holiday, low_volume, event_specific or
+  unexplained (holiday / event_specific from US holidays and configured
+  event files; unexplained when nothing matches)
+- Cross-venue opportunities detected inside it, and how many were
+  profitable after fees (replay-fee-oracle)
+
+Use for backtesting or to learn when a market tends to go thin.`,
+  inputSchema: getLiquidityWindowsInputSchema,
+  outputSchema: getLiquidityWindowsOutputSchema,
+  execute: getLiquidityWindows,
+};
@@ -1,7 +1,7 @@
 /**
  * Agent Tools for Cross-Venue Prediction Market Arbitrage
  * 
- * Two tools, both market-specific:
+ * Agent tools, all market-specific:
  * 
  * 1. scan-opportunities: Find opportunities across markets
  *    - scan_now: Which markets have wide spreads RIGHT NOW?
@@ -11,6 +11,19 @@
  *    - Full fee breakdown
  *    - Direction (buy/sell venue)
  *    - Execute/wait/skip recommendation
+ * 
+ * 3. scan-kalshi-brackets: Intra-Kalshi multi-outcome baskets
+ *    - Buy every YES / every NO across an event's brackets
+ *    - Fee-adjusted locked profit per basket
+ * 
+ * 4. check-liquidity-regime: Is THIS MARKET in a thin window now?
+ *    - liquidity_regime indicator from orderbook history
+ * 
+ * 5. get-liquidity-windows: When was THIS MARKET thin historically?
+ *    - liquidity_window annotations with fee-adjusted opportunity counts
+ * 
+ * 6. run-backtest: Would the strategy have made money?
+ *    - Replays history through analyze-arb, P&L / drawdown / breakdowns
  */
 
 export {
@@ -22,6 +35,8 @@ export {
   type ScanOpportunitiesOutput,
   type Opportunity,
   type Prediction,
+  computeMarketStats,
+  type MarketStats,
 } from './scan-opportunities';
 
 export {
@@ -31,8 +46,51 @@ export {
   analyzeArbOutputSchema,
   type AnalyzeArbInput,
   type AnalyzeArbOutput,
+  analyzeArbBooks,
+  type ArbAnalysisOptions,
 } from './analyze-arb';
 
+export {
+  scanBracketArbTool,
+  scanBracketArb,
+  scanBracketArbInputSchema,
+  scanBracketArbOutputSchema,
+  type ScanBracketArbInput,
+  type ScanBracketArbOutput,
+  type BracketOpportunity,
+} from './scan-brackets';
+
+export {
+  checkLiquidityRegimeTool,
+  checkLiquidityRegime,
+  checkLiquidityRegimeInputSchema,
+  checkLiquidityRegimeOutputSchema,
+  liquidityIndicatorSchema,
+  type CheckLiquidityRegimeInput,
+  type CheckLiquidityRegimeOutput,
+} from './check-liquidity';
+
+export {
+  getLiquidityWindowsTool,
+  getLiquidityWindows,
+  getLiquidityWindowsInputSchema,
+  getLiquidityWindowsOutputSchema,
+  liquidityWindowSchema,
+  type GetLiquidityWindowsInput,
+  type GetLiquidityWindowsOutput,
+} from './get-liquidity-windows';
+
+export {
+  runBacktestTool,
+  runBacktest,
+  runBacktestInputSchema,
+  runBacktestOutputSchema,
+  backtestTradeSchema,
+  backtestBreakdownSchema,
+  type RunBacktestInput,
+  type RunBacktestOutput,
+} from './run-backtest';
+
 /**
  * All tools for agent registration
  */
@@ -51,8 +109,42 @@ export const arbOppityTools = {
     
     Given Kalshi ticker + Polymarket token, returns:
     - Current prices on both venues
+    - Depth-aware VWAP fill and slippage for the trade size
     - Fee breakdown (Kalshi formula, Polymarket 1bp + gas)
     - Net profit after fees
     - EXECUTE / WAIT / SKIP recommendation`,
   },
+  
+  scanBracketArb: {
+    id: 'scan-kalshi-brackets',
+    description: `Find intra-Kalshi bracket arbitrage.
+    
+    Groups Kalshi markets by event and flags baskets where buying every YES
+    (or every NO) costs less than the guaranteed payout after Kalshi fees.`,
+  },
+  
+  checkLiquidityRegime: {
+    id: 'check-liquidity-regime',
+    description: `Check current liquidity regime for a prediction market.
+    
+    Returns thick / normal / thin / very_thin from spread and depth z-scores
+    against recent history, plus hour/day/depth factors and confidence.`,
+  },
+  
+  getLiquidityWindows: {
+    id: 'get-liquidity-windows',
+    description: `Get historical thin liquidity windows for a market.
+    
+    Returns thin / very_thin periods between two timestamps with their trigger
+    and how many cross-venue opportunities were profitable after fees.`,
+  },
+  
+  runBacktest: {
+    id: 'run-backtest',
+    description: `Backtest the cross-venue strategy on historical orderbooks.
+    
+    Replays tracked pairs through the analyze-arb decision logic, holds EXECUTE
+    trades to settlement and reports hit rate, net P&L, fees, drawdown and
+    return on capital by regime, hour and category.`,
+  },
 };
@@ -0,0 +1,99 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { HttpTransport } from '../client/http';
+import { ReplayLabsClient } from '../client/replay-labs';
+import { startMockServer, type MockReplayLabsServer } from '../mock/server';
+import { getMarketPairRegistry } from '../registry/market-pairs';
+import { configureTimezones } from '../utils/time';
+import type { OrderbookSnapshot } from '../types';
+import { runBacktest, runBacktestInputSchema } from './run-backtest';
+
+/**
+ * Serves recorded history for KXBTC-100K (from the mock pairs registry)
+ * off the mock server: the same hand-computed case as
+ * src/analysis/backtest.test.ts - one complement trade, 1000 contracts
+ * at 0.82, $180 gross - entered Mon 2025-01-06 14:00Z.
+ */
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '__fixtures__');
+const HOUR = 3600000;
+const T0 = Date.UTC(2025, 0, 6, 14);
+const at = (hours: number) => new Date(T0 + hours * HOUR).toISOString();
+
+function snapshot(hours: number, mid: number): OrderbookSnapshot {
+  return {
+    timestamp: at(hours),
+    mid_price: mid,
+    spread: 0.02,
+    spread_bps: (0.02 / mid) * 10000,
+    imbalance: 0,
+    bid_depth: 5000,
+    ask_depth: 5000,
+  };
+}
+
+let server: MockReplayLabsServer;
+let client: ReplayLabsClient;
+
+beforeAll(() => {
+  getMarketPairRegistry({ filePath: path.join(FIXTURES, 'market_pairs.json'), autoSave: false });
+  configureTimezones({ by_market: { 'KXBTC-100K': 'Asia/Tokyo' } });
+});
+
+beforeEach(async () => {
+  server = await startMockServer({
+    history: {
+      // One pre-window snapshot that only seeds the regime baseline
+      'KXBTC-100K': [snapshot(-2, 0.60), snapshot(0, 0.60), snapshot(1, 0.75), snapshot(2, 0.50), snapshot(3, 0.50)],
+      '1000000000000000001': [snapshot(-2, 0.40), snapshot(0, 0.40), snapshot(1, 0.30), snapshot(2, 0.45), snapshot(3, 0.50)],
+    },
+  });
+  client = new ReplayLabsClient({
+    baseUrl: server.url,
+    mode: 'live',
+    transport: new HttpTransport({ timeout_ms: 500, max_retries: 0 }),
+  });
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+describe('runBacktest (mock server)', () => {
+  it('replays the window and reports hand-computed P&L', async () => {
+    const input = runBacktestInputSchema.parse({ market_ids: ['KXBTC-100K'], from: at(0), to: at(3), size_usd: 820 });
+    const result = await runBacktest(input, client);
+    const fees = result.summary.fees_paid_usd;
+
+    expect(result.pairs).toEqual(['KXBTC-100K']);
+    expect(result.steps_evaluated).toBe(4);
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades![0]).toMatchObject({ entry_time: at(0), settle_time: at(3), strategy: 'yes_no_complement' });
+    expect(result.summary.gross_pnl_usd).toBeCloseTo(180, 6);
+    expect(result.summary.net_pnl_usd).toBeCloseTo(180 - fees, 6);
+    expect(result.summary.final_equity_usd).toBeCloseTo(10_180 - fees, 6);
+    expect(result.summary.max_drawdown_usd).toBeCloseTo(270 + fees, 6);
+    expect(result.report).toMatch(/^1 trades, 100% hit rate/);
+  });
+
+  it("keys by_hour in the pair's configured zone", async () => {
+    const input = runBacktestInputSchema.parse({ market_ids: ['KXBTC-100K'], from: at(0), to: at(3), size_usd: 820 });
+    const result = await runBacktest(input, client);
+
+    // 14:00Z is 23:00 in Tokyo (09:00 in the New York default)
+    expect(result.by_hour.map(b => b.key)).toEqual(['23']);
+  });
+
+  it('omits the trade list unless include_trades', async () => {
+    const input = runBacktestInputSchema.parse({ market_ids: ['KXBTC-100K'], from: at(0), to: at(3), size_usd: 820, include_trades: false });
+    const result = await runBacktest(input, client);
+
+    expect(result.trades).toBeUndefined();
+    expect(result.summary.trade_count).toBe(1);
+  });
+
+  it('rejects an unregistered pair', async () => {
+    const input = runBacktestInputSchema.parse({ market_ids: ['NOPE'], from: at(0), to: at(3) });
+    await expect(runBacktest(input, client)).rejects.toThrow('Unknown market pair: NOPE');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Agent Tool: Run Backtest
+ * 
+ * Replays orderbook history for tracked market pairs through the
+ * analyze-arb decision logic and reports what the strategy would have
+ * made after fees.
+ */
+
+import { z } from 'zod';
+import {
+  backtestPairs,
+  DEFAULT_BACKTEST_PARAMS,
+  type BacktestPairData,
+} from '../analysis/backtest';
+import { getMarketPairRegistry } from '../registry/market-pairs';
+import type { OrderbookSnapshot } from '../types';
+
+// ═══════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════
+
+export const runBacktestInputSchema = z.object({
+  market_ids: z.array(z.string()).optional().describe('Registered pair IDs (default: all active pairs)'),
+  from: z.string().describe('ISO timestamp'),
+  to: z.string().describe('ISO timestamp'),
+  interval: z.string().default('1h').describe('Snapshot interval (default 1h)'),
+  size_usd: z.number().default(DEFAULT_BACKTEST_PARAMS.size_usd).describe('Trade size per signal in USD'),
+  min_net_profit_pct: z.number().default(DEFAULT_BACKTEST_PARAMS.min_net_profit_pct),
+  initial_capital_usd: z.number().default(DEFAULT_BACKTEST_PARAMS.initial_capital_usd).describe('Starting bankroll'),
+  include_trades: z.boolean().default(true).describe('Include the individual trade list'),
+});
+
+export const backtestBreakdownSchema = z.object({
+  key: z.string(),
+  trades: z.number(),
+  wins: z.number(),
+  hit_rate: z.number(),
+  gross_pnl_usd: z.number(),
+  fees_usd: z.number(),
+  net_pnl_usd: z.number(),
+  avg_net_pnl_usd: z.number(),
+});
+
+export const backtestTradeSchema = z.object({
+  pair_id: z.string(),
+  category: z.string(),
+  strategy: z.enum(['cross_venue', 'yes_no_complement']),
+  entry_time: z.string(),
+  settle_time: z.string(),
+  regime: z.enum(['thick', 'normal', 'thin', 'very_thin']),
+  hour: z.number(),
+  yes_venue: z.enum(['KALSHI', 'POLYMARKET']),
+  no_venue: z.enum(['KALSHI', 'POLYMARKET']),
+  yes_price: z.number(),
+  no_price: z.number(),
+  contracts: z.number(),
+  cost_usd: z.number(),
+  fees_usd: z.number(),
+  gross_pnl_usd: z.number(),
+  net_pnl_usd: z.number(),
+  return_pct: z.number(),
+  reason: z.string(),
+});
+
+export const runBacktestOutputSchema = z.object({
+  pairs: z.array(z.string()),
+  from: z.string(),
+  to: z.string(),
+  steps_evaluated: z.number().describe('Aligned Kalshi/Polymarket snapshots replayed'),
+  signals: z.object({ EXECUTE: z.number(), WAIT: z.number(), SKIP: z.number() }),
+  skipped_for_capital: z.number().describe('EXECUTE signals skipped because cash was tied up'),
+  summary: z.object({
+    trade_count: z.number(),
+    wins: z.number(),
+    hit_rate: z.number(),
+    gross_pnl_usd: z.number(),
+    fees_paid_usd: z.number(),
+    net_pnl_usd: z.number(),
+    initial_capital_usd: z.number(),
+    final_equity_usd: z.number(),
+    return_on_capital_pct: z.number(),
+    max_drawdown_usd: z.number(),
+    max_drawdown_pct: z.number(),
+    peak_capital_deployed_usd: z.number(),
+  }),
+  by_regime: z.array(backtestBreakdownSchema),
+  by_hour: z.array(backtestBreakdownSchema).describe('Keyed by local entry hour'),
+  by_category: z.array(backtestBreakdownSchema),
+  trades: z.array(backtestTradeSchema).optional(),
+  report: z.string(),
+});
+
+export type RunBacktestInput = z.infer<typeof runBacktestInputSchema>;
+export type RunBacktestOutput = z.infer<typeof runBacktestOutputSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL IMPLEMENTATION
+// ═══════════════════════════════════════════════════════════════
+
+interface ReplayLabsClient {
+  getOrderbookHistory(
+    symbolId: string,
+    params?: { start?: string; end?: string; interval?: string }
+  ): Promise<OrderbookSnapshot[]>;
+}
+
+/**
+ * Execute the run-backtest tool
+ */
+export async function runBacktest(
+  input: RunBacktestInput,
+  client: ReplayLabsClient
+): Promise<RunBacktestOutput> {
+  const { market_ids, from, to, interval, size_usd, min_net_profit_pct, initial_capital_usd, include_trades } = input;
+  
+  const registry = getMarketPairRegistry();
+  const pairs = market_ids
+    ? market_ids.map(id => {
+        const pair = registry.get(id);
+        if (!pair) throw new Error(`Unknown market pair: ${id}`);
+        return pair;
+      })
+    : registry.list({ status: 'active' });
+  
+  // Fetch an extra lookback so the first steps have a regime baseline
+  const lookbackMs = DEFAULT_BACKTEST_PARAMS.lookback_hours * 60 * 60 * 1000;
+  const historyStart = new Date(Date.parse(from) - lookbackMs).toISOString();
+  
+  const data: BacktestPairData[] = [];
+  for (const pair of pairs) {
+    const [kalshi, polymarket] = await Promise.all([
+      client.getOrderbookHistory(pair.kalshi_ticker, { start: historyStart, end: to, interval }),
+      client.getOrderbookHistory(pair.polymarket_token_id, { start: from, end: to, interval }),
+    ]);
+    data.push({ pair_id: pair.id, category: pair.category, kalshi, polymarket });
+  }
+  
+  const result = await backtestPairs(data, {
+    size_usd,
+    min_net_profit_pct,
+    initial_capital_usd,
+    start: from,
+  });
+  
+  const { summary } = result;
+  const report = summary.trade_count > 0
+    ? `${summary.trade_count} trades, ${(summary.hit_rate * 100).toFixed(0)}% hit rate, $${summary.net_pnl_usd.toFixed(2)} net after $${summary.fees_paid_usd.toFixed(2)} fees (${summary.return_on_capital_pct.toFixed(2)}% on capital, max drawdown ${summary.max_drawdown_pct.toFixed(2)}%)`
+    : `No EXECUTE signals across ${result.steps_evaluated} aligned snapshots`;
+  
+  return {
+    pairs: pairs.map(p => p.id),
+    from,
+    to,
+    steps_evaluated: result.steps_evaluated,
+    signals: result.signals,
+    skipped_for_capital: result.skipped_for_capital,
+    summary,
+    by_regime: result.by_regime,
+    by_hour: result.by_hour,
+    by_category: result.by_category,
+    trades: include_trades ? result.trades : undefined,
+    report,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL DEFINITION
+// ═══════════════════════════════════════════════════════════════
+
+export const runBacktestTool = {
+  id: 'run-backtest',
+  description: `Backtest the cross-venue arbitrage strategy on historical data.
+
+Replays aligned Kalshi and Polymarket orderbook history for tracked pairs
+and, at every step, runs the same analysis as analyze-cross-venue-arb
+(depth walk, YES/NO complement, replay-fee-oracle fees). EXECUTE signals
+open a position held to settlement (end of the replay window).
+
+Returns:
+- Trade count, hit rate, gross/net P&L and fees paid
+- Max drawdown and return on starting capital
+- Breakdowns by liquidity regime, local hour and category
+
+History only carries aggregate depth, so fills assume all depth sits
+at the best bid/ask.`,
+  inputSchema: runBacktestInputSchema,
+  outputSchema: runBacktestOutputSchema,
+  execute: runBacktest,
+};
@@ -0,0 +1,249 @@
+/**
+ * Agent Tool: Scan Kalshi Bracket Arbitrage
+ * 
+ * Kalshi events are often split into mutually exclusive bracket markets
+ * (e.g. "High temp 40-41°", "42-43°", ...). Exactly one bracket settles
+ * YES, so:
+ * - Buying YES on every bracket pays $1 (if the brackets are exhaustive)
+ * - Buying NO on every bracket pays $(n - 1)
+ * 
+ * When either basket costs less than its payout after Kalshi fees,
+ * the difference is locked in.
+ */
+
+import { z } from 'zod';
+import { getOracle } from 'replay-fee-oracle';
+import { walkBook, type FillResult } from '../analysis/depth';
+import { noAskLadder } from '../analysis/complement';
+import type { Market, OrderbookSnapshot } from '../types';
+
+// ═══════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════
+
+export const scanBracketArbInputSchema = z.object({
+  category: z.string().optional().describe('Only scan Kalshi markets in this category'),
+  contracts: z.number().default(100).describe('Contracts to buy per bracket leg (default 100)'),
+  min_net_profit_usd: z.number().default(5).describe('Minimum net profit after fees (default $5)'),
+  min_legs: z.number().default(2).describe('Minimum brackets per event to consider'),
+  limit: z.number().default(500).describe('Max open Kalshi markets to search for events'),
+});
+
+export const bracketLegSchema = z.object({
+  ticker: z.string(),
+  title: z.string(),
+  side: z.enum(['YES', 'NO']),
+  price: z.number().describe('VWAP fill price (0-1)'),
+  contracts: z.number(),
+  cost_usd: z.number(),
+  fully_filled: z.boolean(),
+});
+
+export const bracketOpportunitySchema = z.object({
+  market_id: z.string().describe('Kalshi event ticker'),
+  basket_side: z.enum(['YES', 'NO']).describe('YES = buy every YES, NO = buy every NO'),
+  legs: z.array(bracketLegSchema),
+  event_legs: z.number().describe('Brackets in the event, including closed and settled ones'),
+  
+  // Locked-in economics
+  contracts: z.number().describe('Matched contracts per leg'),
+  cost_basis_usd: z.number(),
+  guaranteed_payout_usd: z.number(),
+  gross_profit_usd: z.number(),
+  
+  // Fee-adjusted
+  total_fees_usd: z.number(),
+  net_profit_usd: z.number(),
+  net_profit_pct: z.number().describe('Net profit as % of cost basis'),
+  can_fill: z.boolean(),
+  
+  assumption: z.string().describe('What must hold for the payout to be guaranteed'),
+});
+
+export const scanBracketArbOutputSchema = z.object({
+  timestamp: z.string(),
+  opportunities: z.array(bracketOpportunitySchema),
+  events_scanned: z.number(),
+  summary: z.string(),
+});
+
+export type ScanBracketArbInput = z.infer<typeof scanBracketArbInputSchema>;
+export type ScanBracketArbOutput = z.infer<typeof scanBracketArbOutputSchema>;
+export type BracketOpportunity = z.infer<typeof bracketOpportunitySchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// IMPLEMENTATION
+// ═══════════════════════════════════════════════════════════════
+
+type BookSnapshot = Pick<OrderbookSnapshot, 'mid_price' | 'bids' | 'asks'>;
+type BracketMarket = Pick<Market, 'ticker' | 'title' | 'event_ticker' | 'status'>;
+
+interface ReplayLabsClient {
+  getKalshiMarkets(params?: { status?: 'open'; category?: string; limit?: number }): Promise<BracketMarket[]>;
+  getKalshiEventMarkets(eventTicker: string): Promise<BracketMarket[]>;
+  getKalshiOrderbook(ticker: string): Promise<BookSnapshot>;
+}
+
+/**
+ * Event ticker for a market. Kalshi bracket tickers are
+ * SERIES-EVENT-BRACKET, so fall back to dropping the last segment.
+ */
+function getEventTicker(market: BracketMarket): string {
+  if (market.event_ticker) return market.event_ticker;
+  const idx = market.ticker.lastIndexOf('-');
+  return idx > 0 ? market.ticker.slice(0, idx) : market.ticker;
+}
+
+/**
+ * Event tickers of the listed markets (one page of open markets may
+ * hold only some of an event's brackets - the legs are fetched per event)
+ */
+function eventTickers(markets: BracketMarket[]): string[] {
+  return [...new Set(markets.map(getEventTicker))];
+}
+
+/**
+ * Price buying `contracts` of one side on every bracket, fee-adjusted.
+ * Null when a leg has no ask ladder on that side: a mid-priced leg has
+ * no known fill, so the basket cannot be locked in.
+ */
+async function priceBasket(
+  eventTicker: string,
+  markets: BracketMarket[],
+  books: BookSnapshot[],
+  side: 'YES' | 'NO',
+  contracts: number,
+  eventLegs: number
+): Promise<BracketOpportunity | null> {
+  // NO asks are implied by YES bids
+  const sideBooks: BookSnapshot[] = books.map(book => side === 'YES'
+    ? book
+    : { mid_price: 1 - book.mid_price, asks: noAskLadder(book.bids) });
+  if (sideBooks.some(book => !book.asks || book.asks.length === 0)) return null;
+  
+  let fills: FillResult[] = sideBooks.map(book => walkBook(book, 'BUY', { contracts }));
+  
+  // Every leg must hold the same count for the payout to be guaranteed
+  const matched = Math.min(...fills.map(f => f.filled_contracts));
+  if (matched < contracts) {
+    fills = sideBooks.map(book => ({ ...walkBook(book, 'BUY', { contracts: matched }), fully_filled: false }));
+  }
+  
+  const costBasis = fills.reduce((sum, f) => sum + f.filled_usd, 0);
+  const payout = side === 'YES' ? matched : matched * (markets.length - 1);
+  const grossProfit = payout - costBasis;
+  
+  const oracle = getOracle();
+  const analysis = await oracle.analyzeArbitrage(
+    fills.map(f => ({ venue: 'KALSHI' as const, direction: 'BUY' as const, size_usd: f.filled_usd, price: f.vwap_price })),
+    grossProfit,
+    0
+  );
+  
+  return {
+    market_id: eventTicker,
+    basket_side: side,
+    legs: fills.map((f, i) => ({
+      ticker: markets[i]?.ticker ?? '',
+      title: markets[i]?.title ?? '',
+      side,
+      price: f.vwap_price,
+      contracts: f.filled_contracts,
+      cost_usd: f.filled_usd,
+      fully_filled: f.fully_filled,
+    })),
+    event_legs: eventLegs,
+    contracts: matched,
+    cost_basis_usd: costBasis,
+    guaranteed_payout_usd: payout,
+    gross_profit_usd: grossProfit,
+    total_fees_usd: analysis.total_fees_usd,
+    net_profit_usd: analysis.net_profit_usd,
+    net_profit_pct: costBasis > 0 ? (analysis.net_profit_usd / costBasis) * 100 : 0,
+    can_fill: fills.every(f => f.fully_filled),
+    assumption: side === 'YES'
+      ? 'Brackets are mutually exclusive AND exhaustive (exactly one settles YES)'
+      : 'Brackets are mutually exclusive (at most one settles YES)',
+  };
+}
+
+/**
+ * Execute the scan-kalshi-brackets tool
+ */
+export async function scanBracketArb(
+  input: ScanBracketArbInput,
+  client: ReplayLabsClient
+): Promise<ScanBracketArbOutput> {
+  const { category, contracts, min_net_profit_usd, min_legs, limit } = input;
+  
+  const markets = await client.getKalshiMarkets({ status: 'open', category, limit });
+  const opportunities: BracketOpportunity[] = [];
+  let eventsScanned = 0;
+  
+  for (const eventTicker of eventTickers(markets)) {
+    try {
+      // Every bracket of the event, whatever its status
+      const all = await client.getKalshiEventMarkets(eventTicker);
+      const legs = all.filter(m => m.status === undefined || m.status === 'open');
+      if (legs.length < min_legs) continue;
+      eventsScanned++;
+      
+      const books = await Promise.all(legs.map(m => client.getKalshiOrderbook(m.ticker)));
+      
+      // With a closed or settled bracket the open YES legs are no longer exhaustive
+      const sides: ('YES' | 'NO')[] = legs.length === all.length ? ['YES', 'NO'] : ['NO'];
+      const baskets = await Promise.all(
+        sides.map(side => priceBasket(eventTicker, legs, books, side, contracts, all.length))
+      );
+      
+      for (const basket of baskets) {
+        if (basket && basket.contracts > 0 && basket.net_profit_usd >= min_net_profit_usd) {
+          opportunities.push(basket);
+        }
+      }
+    } catch (e) {
+      // Skip events with errors
+      continue;
+    }
+  }
+  
+  opportunities.sort((a, b) => b.net_profit_usd - a.net_profit_usd);
+  
+  const best = opportunities[0];
+  const summary = best
+    ? `Found ${opportunities.length} bracket baskets. Best: ${best.market_id} (${best.basket_side} x${best.legs.length}) with $${best.net_profit_usd.toFixed(2)} net`
+    : `No bracket baskets above $${min_net_profit_usd} net across ${eventsScanned} events`;
+  
+  return {
+    timestamp: new Date().toISOString(),
+    opportunities,
+    events_scanned: eventsScanned,
+    summary,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL DEFINITION
+// ═══════════════════════════════════════════════════════════════
+
+export const scanBracketArbTool = {
+  id: 'scan-kalshi-brackets',
+  description: `Scan Kalshi multi-outcome events for bracket basket arbitrage.
+
+Finds events among open Kalshi markets, fetches every bracket of each event
+and prices two baskets over the open brackets:
+- Buy YES on every bracket: pays $1 if the brackets are exhaustive (only
+  offered when no bracket of the event is closed or settled)
+- Buy NO on every bracket: pays $(n-1) if the brackets are mutually exclusive
+
+Brackets without an ask ladder on the basket side cannot be filled, so
+those baskets are skipped.
+
+Walks each bracket's order book, applies Kalshi fees via replay-fee-oracle,
+and returns baskets whose cost is below the guaranteed payout, with every leg listed.
+
+Check the "assumption" field - verify the event's brackets really cover all outcomes before buying a YES basket.`,
+  inputSchema: scanBracketArbInputSchema,
+  outputSchema: scanBracketArbOutputSchema,
+  execute: scanBracketArb,
+};
@@ -0,0 +1,168 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { generateSyntheticMarket, toHistoricalSpreads, toSymbolHistory } from '../analysis/synthetic';
+import { TIME_WINDOW_PARAMS } from '../client/fixtures';
+import { HttpTransport } from '../client/http';
+import { ReplayLabsClient } from '../client/replay-labs';
+import { startMockServer, type MockReplayLabsServer } from '../mock/server';
+import { getMarketPairRegistry } from '../registry/market-pairs';
+import { computeMarketStats, scanOpportunities, scanOpportunitiesInputSchema } from './scan-opportunities';
+
+/**
+ * Replays responses recorded from the mock server (src/mock/server.ts,
+ * DEFAULT_MOCK_MARKETS) with the three mock pairs registered. Mid gaps:
+ * KXBTC-100K 3pp, KXFEDCUT-DEC and KXRECESSION 1pp. KXBTC-100K also has
+ * 14 days of hourly synthetic orderbook history.
+ */
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '__fixtures__');
+const client = new ReplayLabsClient({
+  baseUrl: 'http://localhost',
+  mode: 'replay',
+  fixturesDir: path.join(FIXTURES, 'replay-labs'),
+  // History windows end at the current time
+  fixtureIgnoreParams: TIME_WINDOW_PARAMS,
+});
+
+beforeAll(() => {
+  getMarketPairRegistry({ filePath: path.join(FIXTURES, 'market_pairs.json'), autoSave: false });
+});
+
+describe('scanOpportunities scan_now (replay)', () => {
+  it('scans every registered pair and ranks by score', async () => {
+    const input = scanOpportunitiesInputSchema.parse({ mode: 'scan_now', min_spread_pct: 0, min_net_profit_usd: -1e9 });
+    const result = await scanOpportunities(input, client);
+    const opportunities = result.opportunities!;
+
+    expect(result.total_scanned).toBe(3);
+    expect(opportunities.map(o => o.market_id).sort()).toEqual(['KXBTC-100K', 'KXFEDCUT-DEC', 'KXRECESSION']);
+    for (let i = 1; i < opportunities.length; i++) {
+      expect(opportunities[i - 1]!.score).toBeGreaterThanOrEqual(opportunities[i]!.score);
+    }
+
+    const btc = opportunities.find(o => o.market_id === 'KXBTC-100K')!;
+    expect(btc.kalshi_price).toBeCloseTo(0.45, 6);
+    expect(btc.polymarket_price).toBeCloseTo(0.42, 6);
+    expect(btc.buy_venue).toBe('POLYMARKET');
+    expect(btc.sell_venue).toBe('KALSHI');
+    expect(btc.gross_spread_pct).toBeGreaterThan(opportunities.find(o => o.market_id === 'KXFEDCUT-DEC')!.gross_spread_pct);
+
+    // Lockup and score figures come from the strategy reported as best,
+    // picked in USD and reported as % of size_usd
+    for (const o of opportunities) {
+      const expected = o.best_strategy === 'yes_no_complement' ? o.strategy.best : o;
+      expect(o.best_net_profit_usd).toBe(expected.net_profit_usd);
+      expect(o.best_net_profit_pct).toBeCloseTo((o.best_net_profit_usd / input.size_usd) * 100, 9);
+      expect(o.best_net_profit_usd).toBeGreaterThanOrEqual(o.net_profit_usd);
+    }
+
+    // Recorded markets carry no close dates
+    expect(btc.days_to_resolution).toBeNull();
+    expect(btc.annualized_return_pct).toBeNull();
+  });
+
+  it('drops pairs below the spread and profit thresholds', async () => {
+    const input = scanOpportunitiesInputSchema.parse({ mode: 'scan_now', min_spread_pct: 5, min_net_profit_usd: 1e9 });
+    const result = await scanOpportunities(input, client);
+
+    expect(result.total_scanned).toBe(3);
+    expect(result.opportunities).toEqual([]);
+    expect(result.summary).toMatch(/^No opportunities found/);
+  });
+});
+
+describe('scanOpportunities predict (replay)', () => {
+  it('forecasts from the recorded history and prices the current gap', async () => {
+    const input = scanOpportunitiesInputSchema.parse({ mode: 'predict', market_id: 'KXBTC-100K', hours_ahead: 24 });
+    const prediction = (await scanOpportunities(input, client)).prediction!;
+
+    expect(prediction.market_id).toBe('KXBTC-100K');
+    expect(prediction.current_spread_pct).toBeCloseTo(3, 6);
+    expect(prediction.avg_spread_pct).toBeGreaterThan(0);
+    expect(prediction.spread_threshold_pct).toBeGreaterThan(0);
+    expect(prediction.hourly_forecast.length).toBeGreaterThanOrEqual(23);
+    expect(prediction.best_hours_est).toHaveLength(3);
+    expect(prediction.spread_percentile).toBeGreaterThanOrEqual(0);
+    expect(prediction.spread_percentile).toBeLessThanOrEqual(100);
+  });
+
+  it('requires market_id', async () => {
+    const result = await scanOpportunities(scanOpportunitiesInputSchema.parse({ mode: 'predict' }), client);
+    expect(result.prediction).toBeUndefined();
+    expect(result.summary).toMatch(/market_id is required/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// INJECTED SEASONALITY
+// ═══════════════════════════════════════════════════════════════
+
+const HOUR_MS = 3600000;
+const TIMEZONE = 'America/New_York';
+
+/**
+ * Eight weeks to the current hour: 2x spreads 00:00-05:59 local, 1.5x on
+ * weekends; no regimes, jumps or price drift
+ */
+const seasonal = generateSyntheticMarket({
+  market_id: 'SEASONAL',
+  start: new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS - 56 * 24 * HOUR_MS).toISOString(),
+  hours: 24 * 56,
+  timezone: TIMEZONE,
+  seed: 3,
+  latent_volatility: 0,
+  regime_switch_prob: 0,
+  jump_rate_per_day: 0,
+  venues: { KALSHI: { tick: 0.001 } },
+  hourly_seasonality: Array.from({ length: 24 }, (_, h) => (h < 6 ? 2 : 1)),
+  weekly_seasonality: [1.5, 1, 1, 1, 1, 1, 1.5],
+});
+
+describe('computeMarketStats on injected seasonality', () => {
+  const stats = computeMarketStats('SEASONAL', toHistoricalSpreads(seasonal.kalshi), TIMEZONE);
+  const hourMean = (hours: number[]) => hours.reduce((sum, h) => sum + stats.spread_by_hour[h]!.mean, 0) / hours.length;
+
+  it('recovers the overnight multiplier by local hour', () => {
+    const ratio = hourMean([0, 1, 2, 3, 4, 5]) / hourMean([9, 10, 11, 12, 13, 14, 15, 16]);
+
+    expect(ratio).toBeGreaterThan(1.8);
+    expect(ratio).toBeLessThan(2.2);
+    for (const hour of stats.best_hours) expect(hour).toBeLessThan(6);
+  });
+
+  it('recovers the weekend multiplier by local day', () => {
+    const weekday = [1, 2, 3, 4, 5].reduce((sum, d) => sum + stats.spread_by_dow[d]!.mean, 0) / 5;
+
+    for (const day of [0, 6]) {
+      expect(stats.spread_by_dow[day]!.mean / weekday).toBeGreaterThan(1.35);
+      expect(stats.spread_by_dow[day]!.mean / weekday).toBeLessThan(1.65);
+    }
+    expect(stats.best_days.slice(0, 2).sort()).toEqual([0, 6]);
+  });
+});
+
+describe('scanOpportunities predict on injected seasonality', () => {
+  let server: MockReplayLabsServer;
+  let live: ReplayLabsClient;
+
+  beforeAll(async () => {
+    server = await startMockServer({ history: toSymbolHistory([seasonal]) });
+    live = new ReplayLabsClient({ baseUrl: server.url, mode: 'live', transport: new HttpTransport({ max_retries: 0 }) });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('forecasts the overnight and weekend windows it was fed', async () => {
+    const input = scanOpportunitiesInputSchema.parse({ mode: 'predict', market_id: 'SEASONAL', hours_ahead: 48 });
+    const prediction = (await scanOpportunities(input, live)).prediction!;
+    const top = prediction.hourly_forecast.find(h => h.start === prediction.windows[0]!.start)!;
+
+    expect(prediction.timezone).toBe(TIMEZONE);
+    for (const hour of prediction.best_hours_est) expect(hour).toBeLessThan(6);
+    expect([...prediction.best_days].sort()).toEqual(['Sat', 'Sun']);
+    expect(top.hour).toBeLessThan(6);
+    expect(prediction.windows[0]!.exceedance_probability).toBeGreaterThan(0.9);
+  });
+});
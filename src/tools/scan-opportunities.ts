@@ -7,8 +7,16 @@
  */
 
 import { z } from 'zod';
-import { getOracle } from 'replay-fee-oracle';
-import type { LiquidityRegime } from '../types';
+import type { LiquidityRegime, OrderbookSnapshot } from '../types';
+import { analyzeComplementArb, complementStrategySchema } from '../analysis/complement';
+import { analyzeMidPriceArb, midSpreadPct } from '../analysis/fees';
+import { computeCapitalLockup, DEFAULT_COST_OF_CAPITAL_PCT } from '../analysis/capital';
+import { getLocalTimeParts, getTimezoneFor } from '../utils/time';
+import { forecastSpreadWindows } from '../analysis/seasonal-forecast';
+import { expectedCompression, fitMeanReversion } from '../analysis/mean-reversion';
+import { computeRegimeConfirmation } from '../indicators/regime-confirmation';
+import { getMarketCalendar } from '../calendar';
+import { getMarketPairRegistry } from '../registry/market-pairs';
 
 // ═══════════════════════════════════════════════════════════════
 // SCHEMAS
@@ -21,10 +29,40 @@ export const scanOpportunitiesInputSchema = z.object({
   min_spread_pct: z.number().default(2).describe('Minimum gross spread % to consider (default 2%)'),
   min_net_profit_usd: z.number().default(10).describe('Minimum net profit after fees (default $10)'),
   size_usd: z.number().default(1000).describe('Trade size for calculations'),
+  rank_by: z.enum(['score', 'annualized_return']).default('score').describe('Sort by quality score or by annualized net return'),
+  cost_of_capital_pct: z.number().default(DEFAULT_COST_OF_CAPITAL_PCT).describe('Annual cost of capital % charged over the lockup (default 5%)'),
   
   // For predict mode
   market_id: z.string().optional().describe('Market to predict (required for predict mode)'),
   hours_ahead: z.number().default(24).describe('How far ahead to predict (default 24h)'),
+  spread_threshold_pct: z.number().optional().describe('Spread % whose exceedance is forecast (default: the market\'s recency-weighted p75)'),
+  
+  // Multi-timeframe regime confirmation (always in predict, opt-in for scan_now)
+  confirm_regime: z.boolean().default(false).describe('scan_now: classify each opportunity\'s regime on 15m/1h/4h (one history request per market)'),
+  min_regime_agreement: z.number().min(0).max(1).default(0).describe('Share of timeframes (15m/1h/4h) that must be thin before a market is labeled thin (0 = 1h alone decides)'),
+  regime_lookback_hours: z.number().default(168).describe('History used for regime z-scores (default 168h)'),
+  exclude_calendar_hours: z.boolean().default(false).describe('predict: leave holiday and scheduled-event hours out of the baseline and forecast'),
+});
+
+export const timeframeRegimeSchema = z.enum(['thick', 'normal', 'thin', 'very_thin']);
+
+export const regimeConfirmationSchema = z.object({
+  tf_15m: timeframeRegimeSchema,
+  tf_1h: timeframeRegimeSchema,
+  tf_4h: timeframeRegimeSchema,
+  agreement: z.number().describe('0-1, share of timeframes in the most common regime'),
+  thin_agreement: z.number().describe('0-1, share of timeframes thin or very_thin'),
+  base_regime: timeframeRegimeSchema.describe('1h regime before confirmation'),
+  regime: timeframeRegimeSchema.describe('1h regime, downgraded to normal if thin without min_regime_agreement'),
+  is_thin: z.boolean(),
+  min_agreement: z.number(),
+  timeframes: z.array(z.object({
+    timeframe: z.enum(['15m', '1h', '4h']),
+    regime: timeframeRegimeSchema,
+    spread_zscore: z.number(),
+    sample_count: z.number(),
+    confidence: z.enum(['high', 'medium', 'low']),
+  })),
 });
 
 export const opportunitySchema = z.object({
@@ -39,8 +77,19 @@ export const opportunitySchema = z.object({
   
   // Fee-adjusted
   total_fees_usd: z.number(),
-  net_profit_usd: z.number(),
-  net_profit_pct: z.number(),
+  net_profit_usd: z.number().describe('Buy-low/sell-high at mid prices, net of fees'),
+  net_profit_pct: z.number().describe('Buy-low/sell-high net profit as % of size_usd'),
+  
+  // Strategy behind the lockup, annualized return and score
+  best_strategy: z.enum(['buy_low_sell_high', 'yes_no_complement']).describe('Complement when it fills, clears min_net_profit_usd and nets more USD'),
+  best_net_profit_usd: z.number(),
+  best_net_profit_pct: z.number().describe('Net profit of best_strategy as % of size_usd; annualized_return_pct is this over the lockup'),
+  
+  // Capital lockup (null when neither venue's resolution date is known)
+  resolution_date: z.string().nullable().describe('Later of the two venues\' resolution dates'),
+  days_to_resolution: z.number().nullable(),
+  annualized_return_pct: z.number().nullable().describe('Net return annualized over the lockup'),
+  return_net_of_capital_pct: z.number().nullable().describe('Net return minus cost of capital over the lockup'),
   
   // Quality score (0-100)
   score: z.number().describe('Opportunity quality score'),
@@ -48,28 +97,95 @@ export const opportunitySchema = z.object({
   // Direction
   buy_venue: z.enum(['KALSHI', 'POLYMARKET']),
   sell_venue: z.enum(['KALSHI', 'POLYMARKET']),
+  
+  // Complement strategy (buy YES on one venue + NO on the other)
+  strategy: complementStrategySchema,
+  
+  // Liquidity regime (when confirm_regime is set)
+  confirmation: regimeConfirmationSchema.optional(),
+});
+
+export const forecastWindowSchema = z.object({
+  start: z.string().describe('ISO timestamp'),
+  end: z.string().describe('ISO timestamp'),
+  hours: z.number(),
+  expected_spread_pct: z.number().describe('Mean forecast p50 spread over the window'),
+  p90_spread_pct: z.number().describe('Highest hourly p90 spread in the window'),
+  exceedance_probability: z.number().describe('Mean hourly probability spread exceeds spread_threshold_pct'),
+  peak_probability: z.number(),
+  confidence: z.enum(['high', 'medium', 'low']),
+});
+
+export const hourForecastSchema = z.object({
+  start: z.string().describe('ISO timestamp'),
+  hour: z.number().describe('Local hour'),
+  day_of_week: z.number().describe('Local day (0=Sun)'),
+  p50_spread_pct: z.number(),
+  p90_spread_pct: z.number(),
+  exceedance_probability: z.number(),
+  effective_samples: z.number().describe('Recency-weighted sample size of the hour x day bucket'),
+});
+
+export const expectedCompressionSchema = z.object({
+  latest_spread_pct: z.number().describe('Latest point of the history series: the market\'s own bid-ask spread, not the cross-venue gap in prediction.current_spread_pct'),
+  normal_spread_pct: z.number().describe('Median of the same series'),
+  is_wide: z.boolean(),
+  hours_to_normal: z.number().describe('Expected hours until spread is back to normal (0 if already normal)'),
+  compression_pct: z.number().describe('Expected % spread reduction over horizon_hours (negative = widening)'),
+  horizon_hours: z.number(),
+  half_life_hours: z.number().nullable().describe('Ornstein-Uhlenbeck half-life of log spread (null if not mean-reverting)'),
+  survival: z.array(z.object({
+    hours: z.number(),
+    probability_wide: z.number(),
+  })).describe('Probability spread is still above normal after N hours (empirical method only)'),
+  method: z.enum(['empirical', 'ou', 'none']),
+  confidence: z.number().describe('0-1, from the number of comparable historical spreads'),
+  sample_size: z.number(),
+});
+
+export const calendarEventMatchSchema = z.object({
+  name: z.string(),
+  kind: z.enum(['federal_holiday', 'market_holiday', 'market_early_close', 'event']),
+  start: z.string().describe('ISO timestamp'),
+  end: z.string().describe('ISO timestamp'),
+  effective_start: z.string().describe('Start including the pre-event lead-in'),
+  effective_end: z.string().describe('End including the post-event tail'),
+  in_progress: z.boolean(),
 });
 
 export const predictionSchema = z.object({
   market_id: z.string(),
   
   // Historical patterns
-  best_hours_est: z.array(z.number()).describe('Hours (EST) with historically widest spreads'),
+  timezone: z.string().describe('IANA zone used for hour/day buckets (default America/New_York)'),
+  best_hours_est: z.array(z.number()).describe('Local hours (see timezone) with historically widest spreads'),
   best_days: z.array(z.string()).describe('Days with historically widest spreads'),
   
   // Predictions
+  spread_threshold_pct: z.number().describe('Threshold used for exceedance probabilities'),
+  windows: z.array(forecastWindowSchema).describe('Windows within hours_ahead, most likely first'),
+  hourly_forecast: z.array(hourForecastSchema),
   next_likely_window: z.object({
     start: z.string().describe('ISO timestamp'),
     end: z.string().describe('ISO timestamp'),
     expected_spread_pct: z.number(),
     confidence: z.enum(['high', 'medium', 'low']),
     reason: z.string(),
-  }),
+  }).describe('Top-ranked window'),
   
   // Current vs historical
-  current_spread_pct: z.number(),
+  current_spread_pct: z.number().describe('Cross-venue mid-price gap now, percentage points (0 when the market has no registered pair)'),
   avg_spread_pct: z.number(),
   spread_percentile: z.number().describe('Current spread percentile (0-100, higher = wider than usual)'),
+  
+  // How long a wide spread is likely to persist
+  expected_compression: expectedCompressionSchema,
+  
+  // Regime on 15m / 1h / 4h (null when there is no recent history)
+  confirmation: regimeConfirmationSchema.nullable(),
+  
+  // Holidays and scheduled events within hours_ahead (or in progress)
+  upcoming_events: z.array(calendarEventMatchSchema),
 });
 
 export const scanOpportunitiesOutputSchema = z.object({
@@ -92,33 +208,16 @@ export type ScanOpportunitiesOutput = z.infer<typeof scanOpportunitiesOutputSche
 export type Opportunity = z.infer<typeof opportunitySchema>;
 export type Prediction = z.infer<typeof predictionSchema>;
 
-// ═══════════════════════════════════════════════════════════════
-// MARKET REGISTRY (to be populated from Replay Labs)
-// ═══════════════════════════════════════════════════════════════
-
-interface MarketPair {
-  id: string;
-  name: string;
-  kalshi_ticker: string;
-  polymarket_token_id: string;
-  category: string;
-}
-
-// Placeholder - in production, fetch from Replay Labs or maintain a mapping
-const MARKET_PAIRS: MarketPair[] = [
-  // These would be populated from actual market data
-];
-
 // ═══════════════════════════════════════════════════════════════
 // HISTORICAL STATS (to be populated from analysis)
 // ═══════════════════════════════════════════════════════════════
 
-interface MarketStats {
+export interface MarketStats {
   market_id: string;
   mean_spread_pct: number;
   std_spread_pct: number;
   
-  // By hour (EST)
+  // By local hour
   spread_by_hour: Record<number, { mean: number; std: number; sample_count: number }>;
   
   // By day of week
@@ -136,14 +235,46 @@ const statsCache = new Map<string, MarketStats>();
 // IMPLEMENTATION
 // ═══════════════════════════════════════════════════════════════
 
+type BookSnapshot = Pick<OrderbookSnapshot, 'mid_price' | 'spread_bps' | 'bids' | 'asks'>;
+
 interface ReplayLabsClient {
-  getKalshiOrderbook(ticker: string): Promise<{ mid_price: number; spread_bps: number }>;
-  getPolymarketBook(tokenId: string): Promise<{ mid_price: number; spread_bps: number }>;
-  getKalshiMarkets(params?: { status?: string }): Promise<{ ticker: string; title: string }[]>;
+  getKalshiOrderbook(ticker: string): Promise<BookSnapshot>;
+  getPolymarketBook(tokenId: string): Promise<BookSnapshot>;
+  getKalshiMarkets(params?: { status?: 'open' | 'closed' | 'settled' }): Promise<{ ticker: string; title: string; closes_at?: string }[]>;
   getHistoricalSpreads(marketId: string, days: number): Promise<{
     timestamp: string;
     spread_pct: number;
   }[]>;
+  getOrderbookHistory(
+    symbolId: string,
+    params?: { start?: string; end?: string; interval?: string }
+  ): Promise<OrderbookSnapshot[]>;
+}
+
+/**
+ * Regime on 15m / 1h / 4h from one 15m history request (null when the
+ * market has no history in the lookback or it could not be fetched)
+ */
+async function confirmRegime(
+  marketId: string,
+  timeZone: string,
+  input: ScanOpportunitiesInput,
+  client: ReplayLabsClient
+): Promise<Prediction['confirmation']> {
+  const end = new Date();
+  const start = new Date(end.getTime() - input.regime_lookback_hours * 60 * 60 * 1000);
+  const history = await client.getOrderbookHistory(marketId, {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    interval: '15m',
+  }).catch(() => []);
+  if (history.length === 0) return null;
+  
+  return computeRegimeConfirmation(marketId, history, {
+    lookback_hours: input.regime_lookback_hours,
+    min_agreement: input.min_regime_agreement,
+    timezone: timeZone,
+  });
 }
 
 /**
@@ -168,29 +299,6 @@ function calculateScore(
   return Math.round(profitScore + percentileScore + depthScore);
 }
 
-/**
- * Get current hour in EST
- */
-function getCurrentHourEST(): number {
-  const now = new Date();
-  const utcHour = now.getUTCHours();
-  return (utcHour - 5 + 24) % 24;
-}
-
-/**
- * Find next occurrence of a specific hour
- */
-function getNextOccurrence(targetHour: number): Date {
-  const now = new Date();
-  const currentHourEST = getCurrentHourEST();
-  
-  let hoursUntil = targetHour - currentHourEST;
-  if (hoursUntil <= 0) hoursUntil += 24;
-  
-  const next = new Date(now.getTime() + hoursUntil * 60 * 60 * 1000);
-  return next;
-}
-
 /**
  * SCAN NOW: Find current opportunities across all markets
  */
@@ -198,14 +306,15 @@ async function scanNow(
   input: ScanOpportunitiesInput,
   client: ReplayLabsClient
 ): Promise<ScanOpportunitiesOutput> {
-  const { min_spread_pct, min_net_profit_usd, size_usd } = input;
-  const oracle = getOracle();
+  const { min_spread_pct, min_net_profit_usd, size_usd, rank_by, cost_of_capital_pct } = input;
   const opportunities: Opportunity[] = [];
   
   // Get all active markets
   const markets = await client.getKalshiMarkets({ status: 'open' });
+  const kalshiCloses = new Map(markets.map(m => [m.ticker, m.closes_at]));
+  const pairs = getMarketPairRegistry().list({ status: 'active' });
   
-  for (const pair of MARKET_PAIRS) {
+  for (const pair of pairs) {
     try {
       // Get current prices
       const [kalshiBook, polyBook] = await Promise.all([
@@ -215,28 +324,25 @@ async function scanNow(
       
       const kalshiPrice = kalshiBook.mid_price;
       const polymarketPrice = polyBook.mid_price;
-      const priceDiff = Math.abs(kalshiPrice - polymarketPrice);
-      const grossSpreadPct = (priceDiff / Math.min(kalshiPrice, polymarketPrice)) * 100;
+      const grossSpreadPct = midSpreadPct(kalshiPrice, polymarketPrice);
+      
+      // YES/NO complement locks profit without selling, so it can qualify on its own
+      const strategy = await analyzeComplementArb(kalshiBook, polyBook, size_usd, 0.5);
+      const complementQualifies = strategy.best.can_fill && strategy.best.net_profit_usd >= min_net_profit_usd;
       
       // Skip if spread too small
-      if (grossSpreadPct < min_spread_pct) continue;
+      if (grossSpreadPct < min_spread_pct && !complementQualifies) continue;
       
       // Calculate fees
-      const buyVenue = kalshiPrice < polymarketPrice ? 'KALSHI' : 'POLYMARKET';
-      const buyPrice = Math.min(kalshiPrice, polymarketPrice);
-      const sellPrice = Math.max(kalshiPrice, polymarketPrice);
-      
-      const analysis = await oracle.analyzeArbitrage(
-        [
-          { venue: 'KALSHI', direction: buyVenue === 'KALSHI' ? 'BUY' : 'SELL', size_usd, price: buyVenue === 'KALSHI' ? buyPrice : sellPrice },
-          { venue: 'POLYMARKET', direction: buyVenue === 'POLYMARKET' ? 'BUY' : 'SELL', size_usd, price: buyVenue === 'POLYMARKET' ? buyPrice : sellPrice },
-        ],
-        size_usd * grossSpreadPct / 100,
-        0.5
-      );
+      const analysis = await analyzeMidPriceArb(kalshiPrice, polymarketPrice, size_usd, 0.5);
       
       // Skip if not profitable enough
-      if (analysis.net_profit_usd < min_net_profit_usd) continue;
+      if (analysis.net_profit_usd < min_net_profit_usd && !complementQualifies) continue;
+      
+      // Complement pct is on its own cost basis - compare in USD, report both on size_usd
+      const useComplement = complementQualifies && strategy.best.net_profit_usd > analysis.net_profit_usd;
+      const bestNetProfitUsd = useComplement ? strategy.best.net_profit_usd : analysis.net_profit_usd;
+      const bestNetProfitPct = size_usd > 0 ? (bestNetProfitUsd / size_usd) * 100 : 0;
       
       // Get historical percentile
       const stats = statsCache.get(pair.id);
@@ -244,6 +350,13 @@ async function scanNow(
         ? calculatePercentile(grossSpreadPct, stats.mean_spread_pct, stats.std_spread_pct)
         : 50;
       
+      // Capital is locked until the later venue resolves
+      const lockup = computeCapitalLockup(
+        bestNetProfitPct,
+        [kalshiCloses.get(pair.kalshi_ticker), pair.polymarket_closes_at],
+        cost_of_capital_pct
+      );
+      
       opportunities.push({
         market_id: pair.id,
         kalshi_ticker: pair.kalshi_ticker,
@@ -254,9 +367,15 @@ async function scanNow(
         total_fees_usd: analysis.total_fees_usd,
         net_profit_usd: analysis.net_profit_usd,
         net_profit_pct: analysis.net_profit_pct,
-        score: calculateScore(analysis.net_profit_pct, spreadPercentile, 1000, 1000),
-        buy_venue: buyVenue,
-        sell_venue: buyVenue === 'KALSHI' ? 'POLYMARKET' : 'KALSHI',
+        best_strategy: useComplement ? 'yes_no_complement' : 'buy_low_sell_high',
+        best_net_profit_usd: bestNetProfitUsd,
+        best_net_profit_pct: bestNetProfitPct,
+        ...lockup,
+        score: calculateScore(bestNetProfitPct, spreadPercentile, 1000, 1000),
+        buy_venue: analysis.buy_venue,
+        sell_venue: analysis.sell_venue,
+        strategy,
+        confirmation: input.confirm_regime ? (await confirmRegime(pair.id, getTimezoneFor(pair.id, pair.category), input, client)) ?? undefined : undefined,
       });
     } catch (e) {
       // Skip markets with errors
@@ -264,18 +383,28 @@ async function scanNow(
     }
   }
   
-  // Sort by score descending
-  opportunities.sort((a, b) => b.score - a.score);
+  // Sort by score, or by annualized return (unknown lockup last)
+  if (rank_by === 'annualized_return') {
+    opportunities.sort((a, b) =>
+      (b.annualized_return_pct ?? -Infinity) - (a.annualized_return_pct ?? -Infinity) || b.score - a.score
+    );
+  } else {
+    opportunities.sort((a, b) => b.score - a.score);
+  }
   
-  const summary = opportunities.length > 0
-    ? `Found ${opportunities.length} opportunities. Best: ${opportunities[0]?.market_id} with ${opportunities[0]?.net_profit_pct.toFixed(2)}% net profit`
+  const best = opportunities[0];
+  const bestAnnualized = best?.annualized_return_pct != null
+    ? ` (${best.annualized_return_pct.toFixed(1)}% annualized over ${best.days_to_resolution?.toFixed(0)}d)`
+    : '';
+  const summary = best
+    ? `Found ${opportunities.length} opportunities. Best: ${best.market_id} with ${best.best_net_profit_pct.toFixed(2)}% net profit${best.best_strategy === 'yes_no_complement' ? ' (YES/NO complement)' : ''}${bestAnnualized}`
     : `No opportunities found above ${min_spread_pct}% spread / $${min_net_profit_usd} profit threshold`;
   
   return {
     mode: 'scan_now',
     timestamp: new Date().toISOString(),
     opportunities,
-    total_scanned: MARKET_PAIRS.length,
+    total_scanned: pairs.length,
     summary,
   };
 }
@@ -297,15 +426,22 @@ async function predict(
     };
   }
   
-  // Get historical data
-  const historicalSpreads = await client.getHistoricalSpreads(market_id, 90);
+  const pair = getMarketPairRegistry().get(market_id);
+  const timeZone = getTimezoneFor(market_id, pair?.category);
+  
+  // Get historical data, optionally without holiday / event hours
+  const calendar = getMarketCalendar();
+  const calendarScope = { market_id, category: pair?.category };
+  const rawSpreads = await client.getHistoricalSpreads(market_id, 90);
+  const historicalSpreads = input.exclude_calendar_hours
+    ? rawSpreads.filter(d => calendar.tagAt(d.timestamp, calendarScope) === null)
+    : rawSpreads;
   
   // Compute statistics
-  const stats = computeMarketStats(market_id, historicalSpreads);
+  const stats = computeMarketStats(market_id, historicalSpreads, timeZone);
   statsCache.set(market_id, stats);
   
   // Get current spread
-  const pair = MARKET_PAIRS.find(p => p.id === market_id);
   let currentSpreadPct = 0;
   
   if (pair) {
@@ -321,37 +457,84 @@ async function predict(
   const bestDays = stats.best_days.slice(0, 2);
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   
-  // Predict next window
-  const nextBestHour = findNextBestHour(bestHours, hours_ahead);
-  const expectedSpread = stats.spread_by_hour[nextBestHour.hour]?.mean ?? stats.mean_spread_pct;
+  // Forecast each future hour from hour x day buckets, then group into windows
+  const now = new Date();
+  const { model, hourly, windows } = forecastSpreadWindows(historicalSpreads, timeZone, hours_ahead, {
+    threshold_pct: input.spread_threshold_pct,
+    now,
+  });
+  const top = windows[0];
+  
+  // Mean reversion from the latest point of the same series
+  const latest = historicalSpreads.reduce<(typeof historicalSpreads)[number] | undefined>(
+    (a, b) => (!a || b.timestamp > a.timestamp ? b : a),
+    undefined
+  );
+  const compression = expectedCompression(fitMeanReversion(historicalSpreads), latest?.spread_pct ?? 0);
+  
+  // Regime on 15m / 1h / 4h
+  const confirmation = await confirmRegime(market_id, timeZone, input, client);
+  
+  // Holidays and events from now to the end of the horizon
+  const upcomingEvents = calendar
+    .between(now, now.getTime() + hours_ahead * 3600000, calendarScope)
+    .map(e => ({
+      name: e.name,
+      kind: e.kind,
+      start: e.start,
+      end: e.end,
+      effective_start: e.effective_start,
+      effective_end: e.effective_end,
+      in_progress: Date.parse(e.effective_start) <= now.getTime(),
+    }));
   
   // Calculate percentile
   const spreadPercentile = calculatePercentile(currentSpreadPct, stats.mean_spread_pct, stats.std_spread_pct);
   
-  // Determine confidence based on sample size and consistency
-  const hourStats = stats.spread_by_hour[nextBestHour.hour];
-  const confidence = hourStats && hourStats.sample_count > 50 ? 'high' : hourStats && hourStats.sample_count > 20 ? 'medium' : 'low';
-  
   const prediction: Prediction = {
     market_id,
+    timezone: timeZone,
     best_hours_est: bestHours,
     best_days: bestDays.map(d => dayNames[d] ?? 'Unknown'),
-    next_likely_window: {
-      start: nextBestHour.start.toISOString(),
-      end: new Date(nextBestHour.start.getTime() + 2 * 60 * 60 * 1000).toISOString(), // 2 hour window
-      expected_spread_pct: expectedSpread,
-      confidence,
-      reason: `Hour ${nextBestHour.hour} EST historically has ${((expectedSpread / stats.mean_spread_pct - 1) * 100).toFixed(0)}% wider spreads than average`,
-    },
+    spread_threshold_pct: model.threshold_pct,
+    windows,
+    hourly_forecast: hourly,
+    next_likely_window: top
+      ? {
+          start: top.start,
+          end: top.end,
+          expected_spread_pct: top.expected_spread_pct,
+          confidence: top.confidence,
+          reason: `${top.hours}h window (${timeZone}) with ${(top.exceedance_probability * 100).toFixed(0)}% chance spread exceeds ${model.threshold_pct.toFixed(2)}% (p90 ${top.p90_spread_pct.toFixed(2)}%)`,
+        }
+      : {
+          start: now.toISOString(),
+          end: now.toISOString(),
+          expected_spread_pct: stats.mean_spread_pct,
+          confidence: 'low',
+          reason: 'No forecast hours within hours_ahead',
+        },
     current_spread_pct: currentSpreadPct,
     avg_spread_pct: stats.mean_spread_pct,
     spread_percentile: spreadPercentile,
+    expected_compression: compression,
+    confirmation,
+    upcoming_events: upcomingEvents,
   };
   
   const isCurrentlyWide = spreadPercentile > 70;
-  const summary = isCurrentlyWide
-    ? `Current spread is in the ${spreadPercentile.toFixed(0)}th percentile - WIDER than usual. Consider scanning now.`
-    : `Current spread is normal (${spreadPercentile.toFixed(0)}th percentile). Next likely window: ${nextBestHour.start.toLocaleTimeString()} EST`;
+  const nextEvent = upcomingEvents[0];
+  const eventNote = nextEvent
+    ? nextEvent.in_progress
+      ? ` In progress: ${nextEvent.name}.`
+      : ` Upcoming: ${nextEvent.name} in ${((Date.parse(nextEvent.effective_start) - now.getTime()) / 3600000).toFixed(1)}h.`
+    : '';
+  const regimeNote = confirmation
+    ? ` Regime: ${confirmation.regime} (${confirmation.tf_15m}/${confirmation.tf_1h}/${confirmation.tf_4h} on 15m/1h/4h).`
+    : '';
+  const summary = (isCurrentlyWide
+    ? `Current spread is in the ${spreadPercentile.toFixed(0)}th percentile - WIDER than usual. Consider scanning now.${compression.is_wide ? ` Expected back to normal in ~${compression.hours_to_normal.toFixed(1)}h (${compression.compression_pct.toFixed(0)}% compression over ${compression.horizon_hours}h).` : ''}`
+    : `Current spread is normal (${spreadPercentile.toFixed(0)}th percentile). Next likely window: ${new Date(prediction.next_likely_window.start).toLocaleTimeString('en-US', { timeZone, timeZoneName: 'short' })} for ${top?.hours ?? 0}h`) + regimeNote + eventNote;
   
   return {
     mode: 'predict',
@@ -364,20 +547,25 @@ async function predict(
 /**
  * Compute market statistics from historical data
  */
-function computeMarketStats(marketId: string, data: { timestamp: string; spread_pct: number }[]): MarketStats {
+export function computeMarketStats(
+  marketId: string,
+  data: { timestamp: string; spread_pct: number }[],
+  timeZone: string
+): MarketStats {
   const spreads = data.map(d => d.spread_pct);
   const mean = spreads.reduce((a, b) => a + b, 0) / spreads.length;
   const std = Math.sqrt(spreads.reduce((sum, x) => sum + (x - mean) ** 2, 0) / spreads.length);
   
+  // Local hour and day come from the same wall-clock reading
+  const local = data.map(d => getLocalTimeParts(d.timestamp, timeZone));
+  
   // Group by hour
   const byHour: Record<number, number[]> = {};
   for (let h = 0; h < 24; h++) byHour[h] = [];
   
-  for (const d of data) {
-    const hour = new Date(d.timestamp).getUTCHours();
-    const hourEST = (hour - 5 + 24) % 24;
-    byHour[hourEST]?.push(d.spread_pct);
-  }
+  data.forEach((d, i) => {
+    byHour[local[i]!.hour]?.push(d.spread_pct);
+  });
   
   const spreadByHour: Record<number, { mean: number; std: number; sample_count: number }> = {};
   for (let h = 0; h < 24; h++) {
@@ -393,10 +581,9 @@ function computeMarketStats(marketId: string, data: { timestamp: string; spread_
   const byDow: Record<number, number[]> = {};
   for (let d = 0; d < 7; d++) byDow[d] = [];
   
-  for (const d of data) {
-    const dow = new Date(d.timestamp).getUTCDay();
-    byDow[dow]?.push(d.spread_pct);
-  }
+  data.forEach((d, i) => {
+    byDow[local[i]!.day_of_week]?.push(d.spread_pct);
+  });
   
   const spreadByDow: Record<number, { mean: number; std: number; sample_count: number }> = {};
   for (let d = 0; d < 7; d++) {
@@ -442,28 +629,6 @@ function calculatePercentile(value: number, mean: number, std: number): number {
   return Math.max(0, Math.min(100, percentile));
 }
 
-/**
- * Find next occurrence of one of the best hours within time limit
- */
-function findNextBestHour(bestHours: number[], hoursAhead: number): { hour: number; start: Date } {
-  const now = new Date();
-  const currentHourEST = getCurrentHourEST();
-  
-  let bestMatch = { hour: bestHours[0] ?? 0, hoursUntil: 24 };
-  
-  for (const hour of bestHours) {
-    let hoursUntil = hour - currentHourEST;
-    if (hoursUntil <= 0) hoursUntil += 24;
-    
-    if (hoursUntil <= hoursAhead && hoursUntil < bestMatch.hoursUntil) {
-      bestMatch = { hour, hoursUntil };
-    }
-  }
-  
-  const start = new Date(now.getTime() + bestMatch.hoursUntil * 60 * 60 * 1000);
-  return { hour: bestMatch.hour, start };
-}
-
 /**
  * Main execution function
  */
@@ -491,12 +656,21 @@ TWO MODES:
 1. scan_now: Find markets with wide spreads RIGHT NOW
    - Scans all tracked market pairs
    - Calculates fees and net profit
-   - Returns ranked list of actionable opportunities
+   - Prices the YES/NO complement (YES on one venue + NO on the other)
+   - Days to resolution, annualized return and return net of cost of capital
+   - Returns ranked list (by score, or rank_by: annualized_return)
+   - confirm_regime: liquidity regime per market on 15m / 1h / 4h
    
 2. predict: Forecast WHEN spreads will likely widen
-   - Analyzes historical patterns for a specific market
-   - Identifies best hours/days based on data
-   - Returns next predicted window and current percentile
+   - Forecasts p50/p90 spread per future hour (hour x day-of-week,
+     recency-weighted, shrunk toward the market average when sparse)
+   - Returns ranked variable-length windows within hours_ahead, each with
+     the probability spread exceeds a threshold, plus current percentile
+   - Expected time-to-normal and compression for the latest spread
+   - Regime on 15m / 1h / 4h with an agreement score; set
+     min_regime_agreement to require confirmation before "thin"
+   - Holidays and scheduled events (FOMC, CPI, games, ...) within
+     hours_ahead; exclude_calendar_hours keeps them out of the baseline
 
 Example usage:
 - "Scan for opportunities now" → mode: scan_now
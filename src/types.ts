@@ -7,6 +7,15 @@
 export type LiquidityRegime = 'thick' | 'normal' | 'thin' | 'very_thin';
 export type MarketCategory = 'politics' | 'sports' | 'crypto' | 'economics' | 'weather' | 'other';
 export type ArbAction = 'EXECUTE' | 'WAIT' | 'SKIP';
+export type Venue = 'KALSHI' | 'POLYMARKET';
+
+/**
+ * Single price level in an orderbook ladder
+ */
+export interface OrderbookLevel {
+  price: number;  // 0-1
+  size: number;   // contracts
+}
 
 /**
  * Orderbook snapshot from Replay Labs API
@@ -19,6 +28,10 @@ export interface OrderbookSnapshot {
   imbalance: number;
   bid_depth: number;
   ask_depth: number;
+  
+  // Full ladders (best price first), when the endpoint provides them
+  bids?: OrderbookLevel[];
+  asks?: OrderbookLevel[];
 }
 
 /**
@@ -33,6 +46,10 @@ export interface Market {
   created_at: string;
   closes_at?: string;
   
+  // Kalshi event grouping (mutually exclusive brackets share an event)
+  event_ticker?: string;
+  status?: string;                     // Kalshi market status (open, closed, settled)
+  
   // Cross-venue mapping
   polymarket_id?: string;
 }
@@ -49,8 +66,8 @@ export interface SpreadDataPoint {
   ask_depth: number;
   
   // Derived
-  hour_of_day: number;  // 0-23 EST
-  day_of_week: number;  // 0=Sun, 6=Sat
+  hour_of_day: number;  // 0-23 local (America/New_York by default)
+  day_of_week: number;  // 0=Sun, 6=Sat (same local day as hour_of_day)
   is_weekend: boolean;
 }
 
@@ -113,7 +130,7 @@ export interface LiquidityWindow {
   end_time: string;
   regime: LiquidityRegime;
   avg_spread_bps: number;
-  trigger: 'late_night' | 'weekend' | 'holiday' | 'low_volume' | 'event_specific';
+  trigger: 'late_night' | 'weekend' | 'holiday' | 'low_volume' | 'event_specific' | 'unexplained';
   
   // Fee-adjusted opportunity analysis
   opportunities_detected: number;
@@ -132,8 +149,10 @@ export interface HypothesisResult {
   group_b?: string;
   statistic: number;
   p_value: number;
+  p_value_adjusted?: number;  // Benjamini-Hochberg, when run as a family
   effect_size?: number;
-  is_significant: boolean;  // p < 0.05
+  confidence_interval?: { lower: number; upper: number; confidence: number };
+  is_significant: boolean;  // p < 0.05 (adjusted p when available)
   conclusion: string;
 }
 
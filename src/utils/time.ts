@@ -0,0 +1,185 @@
+/**
+ * Time Bucketing
+ * 
+ * Hour-of-day, day-of-week and weekend classification in an IANA
+ * timezone (DST-aware). Hour and day always come from the same local
+ * wall-clock reading, so 11pm Saturday EST is never bucketed as Sunday.
+ */
+
+import type { MarketCategory } from '../types';
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+export interface LocalTimeParts {
+  date: string;         // YYYY-MM-DD (local)
+  hour: number;         // 0-23
+  minute: number;       // 0-59
+  day_of_week: number;  // 0=Sun, 6=Sat
+  is_weekend: boolean;
+}
+
+export interface TimezoneConfig {
+  default: string;
+  by_category: Partial<Record<MarketCategory, string>>;
+  by_market: Record<string, string>;
+}
+
+const DAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Intl formatters are expensive to build - one per zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+let timezoneConfig: TimezoneConfig = {
+  default: DEFAULT_TIMEZONE,
+  by_category: {},
+  by_market: {},
+};
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Local wall-clock parts of a timestamp in a timezone
+ */
+export function getLocalTimeParts(
+  timestamp: string | number | Date,
+  timeZone: string = timezoneConfig.default
+): LocalTimeParts {
+  const date = timestamp instanceof Date ? timestamp : new Date(timestamp);
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  
+  const dayOfWeek = DAY_INDEX[parts['weekday'] ?? ''] ?? date.getUTCDay();
+  
+  return {
+    date: `${parts['year']}-${parts['month']}-${parts['day']}`,
+    hour: Number(parts['hour']) % 24,
+    minute: Number(parts['minute']),
+    day_of_week: dayOfWeek,
+    is_weekend: dayOfWeek === 0 || dayOfWeek === 6,
+  };
+}
+
+/**
+ * Local hour (0-23)
+ */
+export function getLocalHour(timestamp: string | number | Date, timeZone?: string): number {
+  return getLocalTimeParts(timestamp, timeZone).hour;
+}
+
+/**
+ * Local day of week (0=Sunday, 6=Saturday)
+ */
+export function getLocalDayOfWeek(timestamp: string | number | Date, timeZone?: string): number {
+  return getLocalTimeParts(timestamp, timeZone).day_of_week;
+}
+
+/**
+ * Whether the timestamp falls on a local Saturday or Sunday
+ */
+export function isLocalWeekend(timestamp: string | number | Date, timeZone?: string): boolean {
+  return getLocalTimeParts(timestamp, timeZone).is_weekend;
+}
+
+/**
+ * Start of the next local hour `targetHour` strictly after `from`.
+ * Steps through real hours, so DST transitions (23h/25h days, or a
+ * skipped 2am) are handled. Returns null if the hour doesn't occur
+ * within `maxHours`.
+ */
+export function nextLocalHourStart(
+  targetHour: number,
+  from: Date = new Date(),
+  timeZone?: string,
+  maxHours: number = 48
+): Date | null {
+  const fromMs = from.getTime();
+  const topOfUtcHour = Math.floor(fromMs / 3600000) * 3600000;
+  
+  for (let k = 0; k <= maxHours + 1; k++) {
+    const candidate = topOfUtcHour + k * 3600000;
+    const parts = getLocalTimeParts(candidate, timeZone);
+    
+    // Zones with non-whole-hour offsets: align to the local top of hour
+    const localTop = candidate - parts.minute * 60000;
+    if (parts.hour === targetHour && localTop > fromMs && localTop - fromMs <= maxHours * 3600000) {
+      return new Date(localTop);
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Whole hours from `from` until the next local `targetHour` starts
+ */
+export function hoursUntilLocalHour(targetHour: number, from: Date = new Date(), timeZone?: string): number {
+  const next = nextLocalHourStart(targetHour, from, timeZone);
+  return next ? Math.ceil((next.getTime() - from.getTime()) / 3600000) : Infinity;
+}
+
+/**
+ * UTC instant of a local wall-clock time (date is YYYY-MM-DD). A time
+ * repeated by a DST change resolves to its first occurrence; one skipped
+ * by a DST jump lands next to the gap.
+ */
+export function zonedTimeToUtc(date: string, hour: number, minute: number, timeZone?: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year!, month! - 1, day!, hour, minute);
+  
+  // Correct by the zone offset, then once more in case the guess crossed a DST change
+  let guess = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const local = getLocalTimeParts(guess, timeZone);
+    const [y, m, d] = local.date.split('-').map(Number);
+    const seen = Date.UTC(y!, m! - 1, d!, local.hour, local.minute);
+    guess += wallClock - seen;
+  }
+  return new Date(guess);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PER-MARKET / PER-CATEGORY ZONES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Override the default zone and/or map markets and categories to zones.
+ * Unspecified fields keep their current values.
+ */
+export function configureTimezones(config: Partial<TimezoneConfig>): void {
+  for (const zone of [config.default, ...Object.values(config.by_category ?? {}), ...Object.values(config.by_market ?? {})]) {
+    if (zone) getFormatter(zone);  // Throws RangeError on unknown zones
+  }
+  
+  timezoneConfig = {
+    default: config.default ?? timezoneConfig.default,
+    by_category: { ...timezoneConfig.by_category, ...config.by_category },
+    by_market: { ...timezoneConfig.by_market, ...config.by_market },
+  };
+}
+
+/**
+ * Zone for a market: market override, then category, then default
+ */
+export function getTimezoneFor(marketId?: string, category?: MarketCategory): string {
+  if (marketId && timezoneConfig.by_market[marketId]) return timezoneConfig.by_market[marketId]!;
+  if (category && timezoneConfig.by_category[category]) return timezoneConfig.by_category[category]!;
+  return timezoneConfig.default;
+}
@@ -0,0 +1,252 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpTransport } from '../client/http';
+import { ReplayLabsClient } from '../client/replay-labs';
+import { DEFAULT_MOCK_MARKETS, startMockServer, type MockMarket, type MockReplayLabsServer } from '../mock/server';
+import { getMarketPairRegistry } from '../registry/market-pairs';
+import { scanOpportunities, scanOpportunitiesInputSchema } from '../tools/scan-opportunities';
+import {
+  bestNetProfitUsd,
+  OpportunityWatcher,
+  type OpportunityEventType,
+  type OpportunityWatcherParams,
+} from './opportunity-watcher';
+
+/**
+ * Scans the mock server with the three mock pairs registered. Books are
+ * flat (no volatility, zero bid/ask spread, deep levels) so each scan
+ * only depends on the KXBTC-100K cross-venue gap, which tests move
+ * between scans. The other two markets sit at a zero gap and never show.
+ *
+ * Fees come from replay-fee-oracle, so thresholds are set between net
+ * profits measured at each gap rather than hard-coded.
+ */
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '../tools/__fixtures__');
+const SIZE_USD = 100;
+
+const GAP = {
+  gone: 0,                             // Below the exit thresholds
+  band: 0.04,                          // Between exit and entry
+  open: 0.08,                          // Above entry
+  nudge: 0.085,                        // Above entry, within the change threshold of open
+  wide: 0.14,                          // Improved vs open
+};
+
+let server: MockReplayLabsServer;
+let client: ReplayLabsClient;
+let markets: MockMarket[];
+
+function transport(): HttpTransport {
+  return new HttpTransport({
+    timeout_ms: 200,
+    max_retries: 2,
+    base_delay_ms: 10,
+    max_delay_ms: 20,
+    rate_limit: { capacity: 100, refill_per_second: 100 },
+  });
+}
+
+/**
+ * The server reads markets by reference, so this moves the next scan's books
+ */
+function setGap(gap: number): void {
+  markets.find(m => m.kalshi_ticker === 'KXBTC-100K')!.kalshi_offset = gap;
+}
+
+async function profitAt(gap: number): Promise<number> {
+  setGap(gap);
+  const result = await scanOpportunities(
+    scanOpportunitiesInputSchema.parse({ mode: 'scan_now', min_spread_pct: 0, min_net_profit_usd: -1e9, size_usd: SIZE_USD }),
+    client
+  );
+  return bestNetProfitUsd(result.opportunities!.find(o => o.market_id === 'KXBTC-100K')!);
+}
+
+/**
+ * Entry / exit thresholds halfway between the measured profits, and a
+ * change threshold that the open -> wide move clears but open -> nudge does not
+ */
+async function calibratedParams(): Promise<Partial<OpportunityWatcherParams>> {
+  const profit = {
+    gone: await profitAt(GAP.gone),
+    band: await profitAt(GAP.band),
+    open: await profitAt(GAP.open),
+    nudge: await profitAt(GAP.nudge),
+    wide: await profitAt(GAP.wide),
+  };
+  expect(profit.gone).toBeLessThan(profit.band);
+  expect(profit.band).toBeLessThan(profit.open);
+  expect(profit.band).toBeGreaterThan(0);
+
+  const improved = ((profit.wide - profit.open) / profit.open) * 100;
+  const degraded = ((profit.wide - profit.open) / profit.wide) * 100;
+  const nudged = ((profit.nudge - profit.open) / profit.open) * 100;
+  expect(nudged).toBeLessThan(Math.min(improved, degraded));
+
+  const exit = (profit.gone + profit.band) / 2;
+  expect(exit).toBeGreaterThan(0);
+
+  return {
+    min_spread_pct: 0,
+    exit_spread_pct: 0,
+    size_usd: SIZE_USD,
+    min_net_profit_usd: (profit.band + profit.open) / 2,
+    exit_net_profit_usd: exit,
+    open_after_scans: 2,
+    close_after_scans: 2,
+    change_threshold_pct: (Math.min(improved, degraded) + nudged) / 2,
+  };
+}
+
+function recordEvents(watcher: OpportunityWatcher): OpportunityEventType[] {
+  const events: OpportunityEventType[] = [];
+  watcher.on('opportunity', e => events.push(e.type));
+  return events;
+}
+
+/**
+ * Scan once at each gap, returning the events emitted along the way
+ */
+async function scanAt(watcher: OpportunityWatcher, events: OpportunityEventType[], gaps: number[]): Promise<OpportunityEventType[]> {
+  const before = events.length;
+  for (const gap of gaps) {
+    setGap(gap);
+    await watcher.scanOnce();
+  }
+  return events.slice(before);
+}
+
+beforeAll(() => {
+  getMarketPairRegistry({ filePath: path.join(FIXTURES, 'market_pairs.json'), autoSave: false });
+});
+
+beforeEach(async () => {
+  markets = DEFAULT_MOCK_MARKETS.map(m => ({ ...m, kalshi_offset: 0, spread: 0, volatility: 0, depth: 10_000 }));
+  server = await startMockServer({ seed: 7, markets });
+  client = new ReplayLabsClient({ baseUrl: server.url, mode: 'live', transport: transport() });
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+describe('OpportunityWatcher state machine (mock server)', () => {
+  it('opens only after open_after_scans consecutive scans above entry', async () => {
+    const watcher = new OpportunityWatcher(client, await calibratedParams());
+    const events = recordEvents(watcher);
+
+    // Inside the band without having opened - not an opportunity
+    expect(await scanAt(watcher, events, [GAP.band, GAP.band])).toEqual([]);
+
+    // A band scan in between resets the count
+    expect(await scanAt(watcher, events, [GAP.open, GAP.band, GAP.open])).toEqual([]);
+    expect(watcher.getActive().size).toBe(0);
+
+    expect(await scanAt(watcher, events, [GAP.open])).toEqual(['opened']);
+    expect([...watcher.getActive().keys()]).toEqual(['KXBTC-100K']);
+  });
+
+  it('stays open inside the hysteresis band and closes after close_after_scans misses', async () => {
+    // Falling into the band is a degrade - only opens / closes matter here
+    const watcher = new OpportunityWatcher(client, { ...(await calibratedParams()), change_threshold_pct: 1000 });
+    const events = recordEvents(watcher);
+    await scanAt(watcher, events, [GAP.open, GAP.open]);
+
+    // Below entry but above exit - still open
+    expect(await scanAt(watcher, events, [GAP.band, GAP.band, GAP.band])).toEqual([]);
+    expect(watcher.getActive().has('KXBTC-100K')).toBe(true);
+
+    // A scan back inside the band resets the miss count
+    expect(await scanAt(watcher, events, [GAP.gone, GAP.band, GAP.gone])).toEqual([]);
+    expect(watcher.getActive().has('KXBTC-100K')).toBe(true);
+
+    const closed = vi.fn();
+    watcher.on('closed', closed);
+    expect(await scanAt(watcher, events, [GAP.gone])).toEqual(['closed']);
+    expect(watcher.getActive().size).toBe(0);
+    expect(closed.mock.calls[0]![0].opportunity.kalshi_price).toBeCloseTo(0.42 + GAP.band, 6);
+
+    // Reopening starts the debounce over
+    expect(await scanAt(watcher, events, [GAP.open])).toEqual([]);
+  });
+
+  it('reports improved / degraded against the last emitted state', async () => {
+    const watcher = new OpportunityWatcher(client, await calibratedParams());
+    const events = recordEvents(watcher);
+    const emitted = vi.fn();
+    watcher.on('opportunity', emitted);
+    await scanAt(watcher, events, [GAP.open, GAP.open]);
+
+    // Small moves either way stay quiet
+    expect(await scanAt(watcher, events, [GAP.nudge, GAP.open, GAP.nudge])).toEqual([]);
+
+    expect(await scanAt(watcher, events, [GAP.wide])).toEqual(['improved']);
+    const improved = emitted.mock.calls.at(-1)![0];
+    expect(improved.previous.kalshi_price).toBeCloseTo(0.42 + GAP.open, 6);
+    expect(improved.net_profit_usd).toBe(bestNetProfitUsd(improved.opportunity));
+
+    // Compared with the improved state, not the one at opening
+    expect(await scanAt(watcher, events, [GAP.wide, GAP.open])).toEqual(['degraded']);
+    expect(emitted.mock.calls.at(-1)![0].previous.kalshi_price).toBeCloseTo(0.42 + GAP.wide, 6);
+    expect(await scanAt(watcher, events, [GAP.open])).toEqual([]);
+  });
+
+  it('emits a scan event per scan', async () => {
+    const watcher = new OpportunityWatcher(client, await calibratedParams());
+    const scans = vi.fn();
+    watcher.on('scan', scans);
+    setGap(GAP.open);
+    await watcher.scanOnce();
+    await watcher.scanOnce();
+
+    expect(scans).toHaveBeenCalledTimes(2);
+    expect(scans.mock.calls[0]![0]).toMatchObject({ scanned: 3, active: 0 });
+    expect(scans.mock.calls[1]![0]).toMatchObject({ scanned: 3, active: 1 });
+  });
+
+  it('rejects exit thresholds above the entry thresholds', () => {
+    expect(() => new OpportunityWatcher(client, { min_net_profit_usd: 5, exit_net_profit_usd: 10 })).toThrow(/Exit thresholds/);
+    expect(() => new OpportunityWatcher(client, { min_spread_pct: 1, exit_spread_pct: 2 })).toThrow(/Exit thresholds/);
+  });
+});
+
+describe('OpportunityWatcher poll loop (mock server)', () => {
+  it('stop() waits for the in-flight scan and schedules no more', async () => {
+    const watcher = new OpportunityWatcher(client, { interval_ms: 10 });
+    const scans = vi.fn();
+    watcher.on('scan', scans);
+
+    // Hold the first request of the first scan for ~200ms
+    server.injectFailure({ kind: 'rate_limit', times: 1, retry_after_s: 0.2 });
+    watcher.start();
+    expect(watcher.isRunning).toBe(true);
+    await vi.waitFor(() => expect(server.requests.length).toBeGreaterThan(0));
+    expect(scans).not.toHaveBeenCalled();
+
+    await watcher.stop();
+    expect(watcher.isRunning).toBe(false);
+    expect(scans).toHaveBeenCalledTimes(1);
+
+    const requests = server.requests.length;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(server.requests.length).toBe(requests);
+    expect(scans).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps polling after a failed scan and reports it as an error event', async () => {
+    const watcher = new OpportunityWatcher(client, { interval_ms: 10 });
+    const errors = vi.fn();
+    const scans = vi.fn();
+    watcher.on('error', errors);
+    watcher.on('scan', scans);
+
+    server.injectFailure({ kind: 'server_error', path: '/api/kalshi/markets', times: 3 });
+    watcher.start();
+    await vi.waitFor(() => expect(scans).toHaveBeenCalled());
+    await watcher.stop();
+
+    expect(errors).toHaveBeenCalledTimes(1);
+    expect(errors.mock.calls[0]![0]).toBeInstanceOf(Error);
+  });
+});
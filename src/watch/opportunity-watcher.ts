@@ -0,0 +1,306 @@
+/**
+ * Opportunity Watcher
+ * 
+ * Long-running counterpart to scan-opportunities' scan_now mode. Polls
+ * every tracked pair on a fixed cadence and emits typed events as
+ * opportunities open, improve, degrade and close, so agents can react
+ * without being asked.
+ * 
+ * Flicker control:
+ * - Hysteresis: an opportunity opens at the entry thresholds but only
+ *   closes once it falls below the (lower) exit thresholds.
+ * - Debounce: opening and closing each need N consecutive scans.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  scanOpportunities,
+  scanOpportunitiesInputSchema,
+  type Opportunity,
+} from '../tools/scan-opportunities';
+
+type ScanClient = Parameters<typeof scanOpportunities>[1];
+
+export interface OpportunityWatcherParams {
+  interval_ms: number;                 // Delay between the end of one scan and the next
+  
+  // Entry thresholds (same meaning as scan_now)
+  min_spread_pct: number;
+  min_net_profit_usd: number;
+  size_usd: number;
+  cost_of_capital_pct?: number;
+  
+  // Hysteresis: stay open until below these
+  exit_spread_pct: number;
+  exit_net_profit_usd: number;
+  
+  // Debounce: consecutive scans needed to open / close
+  open_after_scans: number;
+  close_after_scans: number;
+  
+  // Net profit change vs the last emitted event that counts as improved/degraded
+  change_threshold_pct: number;
+}
+
+export const DEFAULT_WATCHER_PARAMS: OpportunityWatcherParams = {
+  interval_ms: 60_000,
+  min_spread_pct: 2,
+  min_net_profit_usd: 10,
+  size_usd: 1000,
+  exit_spread_pct: 1,
+  exit_net_profit_usd: 5,
+  open_after_scans: 2,
+  close_after_scans: 2,
+  change_threshold_pct: 20,
+};
+
+export type OpportunityEventType = 'opened' | 'improved' | 'degraded' | 'closed';
+
+export interface OpportunityEvent {
+  type: OpportunityEventType;
+  market_id: string;
+  timestamp: string;
+  opportunity: Opportunity;            // Latest state (last seen state for 'closed')
+  previous?: Opportunity;              // State at the previous event for this market
+  net_profit_usd: number;              // Best of buy-low/sell-high and complement
+}
+
+export interface ScanCompleteEvent {
+  timestamp: string;
+  scanned: number;
+  active: number;
+  duration_ms: number;
+}
+
+export interface OpportunityWatcherEvents {
+  opportunity: [OpportunityEvent];
+  opened: [OpportunityEvent];
+  improved: [OpportunityEvent];
+  degraded: [OpportunityEvent];
+  closed: [OpportunityEvent];
+  scan: [ScanCompleteEvent];
+  error: [Error];
+}
+
+/**
+ * Per-market debounce / hysteresis state
+ */
+interface TrackedOpportunity {
+  active: boolean;
+  hits: number;                        // Consecutive scans above entry thresholds
+  misses: number;                      // Consecutive scans below exit thresholds
+  last: Opportunity;                   // Latest observation
+  emitted?: Opportunity;               // State at the last emitted event
+}
+
+/**
+ * Net profit of the better strategy: buy-low/sell-high at the mids, or
+ * the YES/NO complement when the books can fill it
+ */
+export function bestNetProfitUsd(opportunity: Opportunity): number {
+  const complement = opportunity.strategy.best;
+  return complement.can_fill
+    ? Math.max(opportunity.net_profit_usd, complement.net_profit_usd)
+    : opportunity.net_profit_usd;
+}
+
+export class OpportunityWatcher extends EventEmitter<OpportunityWatcherEvents> {
+  private params: OpportunityWatcherParams;
+  private tracked = new Map<string, TrackedOpportunity>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<void> | null = null;
+  private running = false;
+  
+  constructor(
+    private client: ScanClient,
+    params: Partial<OpportunityWatcherParams> = {}
+  ) {
+    super();
+    this.params = { ...DEFAULT_WATCHER_PARAMS, ...params };
+    
+    if (this.params.exit_net_profit_usd > this.params.min_net_profit_usd
+      || this.params.exit_spread_pct > this.params.min_spread_pct) {
+      throw new Error('Exit thresholds must not be above entry thresholds');
+    }
+  }
+  
+  get isRunning(): boolean {
+    return this.running;
+  }
+  
+  /**
+   * Currently open opportunities, keyed by market ID
+   */
+  getActive(): Map<string, Opportunity> {
+    const active = new Map<string, Opportunity>();
+    for (const [marketId, t] of this.tracked) {
+      if (t.active) active.set(marketId, t.last);
+    }
+    return active;
+  }
+  
+  /**
+   * Start polling. The first scan runs immediately.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+  
+  /**
+   * Stop polling and wait for an in-flight scan to finish.
+   * Open opportunities are left as-is (no 'closed' events).
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.inFlight;
+  }
+  
+  /**
+   * Run one scan and emit events. Used by the poll loop; callable
+   * directly for manual stepping.
+   */
+  async scanOnce(): Promise<void> {
+    const started = Date.now();
+    const p = this.params;
+    
+    // Scan at the exit thresholds so opportunities inside the hysteresis band stay visible
+    const result = await scanOpportunities(
+      scanOpportunitiesInputSchema.parse({
+        mode: 'scan_now',
+        min_spread_pct: p.exit_spread_pct,
+        min_net_profit_usd: p.exit_net_profit_usd,
+        size_usd: p.size_usd,
+        cost_of_capital_pct: p.cost_of_capital_pct,
+      }),
+      this.client
+    );
+    
+    const timestamp = result.timestamp;
+    const seen = new Set<string>();
+    
+    for (const opportunity of result.opportunities ?? []) {
+      seen.add(opportunity.market_id);
+      this.observe(opportunity, timestamp);
+    }
+    
+    // Markets missing from the scan are below the exit thresholds
+    for (const [marketId, t] of this.tracked) {
+      if (seen.has(marketId)) continue;
+      this.miss(marketId, t, timestamp);
+    }
+    
+    this.emit('scan', {
+      timestamp,
+      scanned: result.total_scanned ?? 0,
+      active: this.getActive().size,
+      duration_ms: Date.now() - started,
+    });
+  }
+  
+  // ═══════════════════════════════════════════════════════════════
+  // STATE MACHINE
+  // ═══════════════════════════════════════════════════════════════
+  
+  private observe(opportunity: Opportunity, timestamp: string): void {
+    const p = this.params;
+    const marketId = opportunity.market_id;
+    const t = this.tracked.get(marketId) ?? { active: false, hits: 0, misses: 0, last: opportunity };
+    this.tracked.set(marketId, t);
+    t.last = opportunity;
+    
+    const netProfit = bestNetProfitUsd(opportunity);
+    const aboveEntry = netProfit >= p.min_net_profit_usd
+      && (opportunity.gross_spread_pct >= p.min_spread_pct || opportunity.strategy.best.net_profit_usd >= p.min_net_profit_usd);
+    
+    if (!t.active) {
+      t.hits = aboveEntry ? t.hits + 1 : 0;
+      if (t.hits >= p.open_after_scans) {
+        t.active = true;
+        t.misses = 0;
+        this.emitChange('opened', t, timestamp);
+      } else if (!aboveEntry) {
+        // Inside the band but never opened - nothing to track
+        this.tracked.delete(marketId);
+      }
+      return;
+    }
+    
+    // Active and still above exit thresholds
+    t.misses = 0;
+    const baseline = t.emitted ? bestNetProfitUsd(t.emitted) : netProfit;
+    const changePct = baseline !== 0 ? ((netProfit - baseline) / Math.abs(baseline)) * 100 : 0;
+    
+    if (changePct >= p.change_threshold_pct) {
+      this.emitChange('improved', t, timestamp);
+    } else if (changePct <= -p.change_threshold_pct) {
+      this.emitChange('degraded', t, timestamp);
+    }
+  }
+  
+  private miss(marketId: string, t: TrackedOpportunity, timestamp: string): void {
+    if (!t.active) {
+      this.tracked.delete(marketId);
+      return;
+    }
+    
+    t.misses++;
+    if (t.misses >= this.params.close_after_scans) {
+      this.emitChange('closed', t, timestamp);
+      this.tracked.delete(marketId);
+    }
+  }
+  
+  private emitChange(type: OpportunityEventType, t: TrackedOpportunity, timestamp: string): void {
+    const event: OpportunityEvent = {
+      type,
+      market_id: t.last.market_id,
+      timestamp,
+      opportunity: t.last,
+      previous: t.emitted,
+      net_profit_usd: bestNetProfitUsd(t.last),
+    };
+    t.emitted = t.last;
+    
+    this.emit(type, event);
+    this.emit('opportunity', event);
+  }
+  
+  // ═══════════════════════════════════════════════════════════════
+  // POLL LOOP
+  // ═══════════════════════════════════════════════════════════════
+  
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.inFlight = this.scanOnce()
+        .catch(e => {
+          // An 'error' event with no listener would throw - keep polling regardless
+          if (this.listenerCount('error') > 0) {
+            this.emit('error', e instanceof Error ? e : new Error(String(e)));
+          }
+        })
+        .finally(() => {
+          this.inFlight = null;
+          if (this.running) this.schedule(this.params.interval_ms);
+        });
+    }, delayMs);
+  }
+}
+
+/**
+ * Create and start a watcher
+ */
+export function watchOpportunities(
+  client: ScanClient,
+  params: Partial<OpportunityWatcherParams> = {}
+): OpportunityWatcher {
+  const watcher = new OpportunityWatcher(client, params);
+  watcher.start();
+  return watcher;
+}